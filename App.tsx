@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   LayoutDashboard, 
   Grid, 
@@ -10,99 +10,149 @@ import {
   Plus,
   Loader2,
   AlertTriangle,
-  BarChart3
+  BarChart3,
+  X,
+  Database,
+  Inbox,
+  Settings,
+  Sparkles,
+  SlidersHorizontal,
+  FileSearch,
+  Folder,
+  GitCompare
 } from 'lucide-react';
-import { BlogMetadata, BlogStatus, ViewState } from './types';
-import { analyzeBlogAndFetch, normalizeUrl } from './services/rssService';
-import { classifyBlogWithGemini } from './services/geminiService';
+import { BlogMetadata, BlogStatus, InboxEntry, ViewState } from './types';
+import { analyzeBlogAndFetch, normalizeUrl, ScanProgress } from './services/rssService';
+import { analyzeFetchedPosts, applyClassification, applyRefresh, curateBlog, needsReclassification, reclassifyBlog } from './services/libraryService';
+import { storePostText } from './services/postSearchService';
+import { runWithConcurrency } from './services/importService';
+import { findDuplicate, mergeDuplicatesInLibrary } from './services/duplicateService';
+import { loadInbox, loadLibrary, saveInbox, saveLibrary } from './services/storageService';
+import { addToInbox, createInboxEntries, reassignInboxEntries, detectNewPosts, loadNotificationsEnabled, notifyNewPosts, requestNotificationPermission, saveNotificationsEnabled } from './services/inboxService';
+import { loadRefreshPolicy, RefreshPolicy, saveRefreshPolicy } from './services/schedulerService';
+import { ClassifierSettings as ClassifierSettingsState, isClassificationOutdated, loadClassifierSettings, PROVIDER_LABELS, saveClassifierSettings } from './services/classifierService';
+import { getActiveProfile, loadScoringSettings, rescoreLibrary, saveScoringSettings, ScoringSettings as ScoringSettingsState } from './services/scoringService';
+import { isFailing, markRefreshFailed } from './services/healthService';
+import { BlogFilter, BlogSort, countAdvancedConditions, DEFAULT_FILTER, DEFAULT_SORT, loadSavedSearches, matchesFilter, SavedSearch, saveSavedSearches, sortBlogs } from './services/searchService';
+import { Collection, createCollection, getAllCategories, loadOrganization, OrganizationSettings as OrganizationSettingsState, removeCollection, renameCategory, saveOrganization } from './services/organizationService';
+import { useRefreshQueue } from './hooks/useRefreshQueue';
 import BlogCard from './components/BlogCard';
-import { CATEGORIES, SAMPLE_BLOGS } from './constants';
+import BulkImport from './components/BulkImport';
+import LibraryData from './components/LibraryData';
+import PublishPanel from './components/PublishPanel';
+import RefreshSettings from './components/RefreshSettings';
+import InboxView from './components/InboxView';
+import BlogDetail from './components/BlogDetail';
+import ScoringSettings from './components/ScoringSettings';
+import ClassifierSettings from './components/ClassifierSettings';
+import FilterPanel from './components/FilterPanel';
+import PostSearch from './components/PostSearch';
+import OrganizationSettings from './components/OrganizationSettings';
+import DuplicateFinder from './components/DuplicateFinder';
+import BlogComparison from './components/BlogComparison';
+import { BlogOrganization } from './components/BlogOrganizer';
+import { IMPORT_CONCURRENCY, MAX_COMPARED_BLOGS, MIN_COMPARED_BLOGS, SAMPLE_BLOGS } from './constants';
 
 const App: React.FC = () => {
   // State
   const [blogs, setBlogs] = useState<BlogMetadata[]>([]);
   const [view, setView] = useState<ViewState>('dashboard');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<string>('All');
-  const [isLoading, setIsLoading] = useState(false);
+  const [filter, setFilter] = useState<BlogFilter>(DEFAULT_FILTER);
+  const [sort, setSort] = useState<BlogSort>(DEFAULT_SORT);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>(loadSavedSearches);
+  const [showFilters, setShowFilters] = useState(false);
+  const [postQuery, setPostQuery] = useState('');
+  const [refreshPolicy, setRefreshPolicy] = useState<RefreshPolicy>(loadRefreshPolicy);
+  const [scoringSettings, setScoringSettings] = useState<ScoringSettingsState>(loadScoringSettings);
+  const [classifierSettings, setClassifierSettings] = useState<ClassifierSettingsState>(loadClassifierSettings);
+  const [organization, setOrganization] = useState<OrganizationSettingsState>(loadOrganization);
   const [currentAction, setCurrentAction] = useState('');
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageError, setStorageError] = useState('');
+  const [inbox, setInbox] = useState<InboxEntry[]>([]);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(loadNotificationsEnabled);
+  const [reclassifyingIds, setReclassifyingIds] = useState<string[]>([]);
+  const [analyzingPostsIds, setAnalyzingPostsIds] = useState<string[]>([]);
+  // Blogs whose next queued refresh should analyze every post, not just new ones
+  const pendingPostAnalysis = useRef(new Set<string>());
+  const [selectedBlogId, setSelectedBlogId] = useState<string | null>(null);
+  // Where the detail view's back button returns to
+  const [previousView, setPreviousView] = useState<ViewState>('dashboard');
+  // Blogs picked for the comparison view, in the order they were picked
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparisonReturnView, setComparisonReturnView] = useState<ViewState>('directory');
   
   // Add Blog State
   const [newBlogUrl, setNewBlogUrl] = useState('');
   const [isAdding, setIsAdding] = useState(false);
   const [addError, setAddError] = useState('');
+  const [deepScan, setDeepScan] = useState(false);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const scanController = useRef<AbortController | null>(null);
+
+  const scoringProfile = getActiveProfile(scoringSettings);
+  const categories = getAllCategories(organization);
 
   // Initial Load
   useEffect(() => {
-    const saved = localStorage.getItem('blogspotter_data');
-    if (saved) {
-      setBlogs(JSON.parse(saved));
-    }
+    Promise.all([loadLibrary(), loadInbox()])
+      .then(([library, entries]) => {
+        setBlogs(library);
+        setInbox(entries);
+        setIsHydrated(true);
+      })
+      // Stays unhydrated, so nothing is saved over the library that failed to load
+      .catch((e) => setStorageError(`${e.message || "Could not open the library."} Changes will not be saved until it loads; reload to try again.`));
   }, []);
 
-  // Persist
+  // Persist (only after a successful load, so the empty initial state never overwrites the library)
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveLibrary(blogs)
+      .then(() => setStorageError(''))
+      .catch((e) => setStorageError(e.message || "Could not save the library."));
+  }, [blogs, isHydrated]);
+
   useEffect(() => {
-    localStorage.setItem('blogspotter_data', JSON.stringify(blogs));
-  }, [blogs]);
+    if (!isHydrated) return;
+    saveInbox(inbox).catch((e) => setStorageError(e.message || "Could not save the inbox."));
+  }, [inbox, isHydrated]);
 
   // Actions
   const handleAddBlog = async () => {
     if (!newBlogUrl) return;
     setIsAdding(true);
     setAddError('');
-    setCurrentAction('Deep scanning blog history, pages & stats...');
+    setCurrentAction(deepScan ? 'Walking the full post archive...' : 'Deep scanning blog history, pages & stats...');
+    setScanProgress(null);
+    scanController.current = new AbortController();
 
     try {
       const cleanUrl = normalizeUrl(newBlogUrl);
       
       // Check duplicate
-      if (blogs.some(b => b.url === cleanUrl)) {
+      if (findDuplicate(blogs, { url: cleanUrl })) {
         throw new Error("Blog already exists in your library.");
       }
 
-      // 1. Deep Analysis (Stats, Scraping, JSON Feed)
-      const analysisData = await analyzeBlogAndFetch(cleanUrl);
-      
-      if (!analysisData.title) {
-        throw new Error("Could not parse blog data.");
+      let postText: Record<string, string> = {};
+      const newBlog = await curateBlog(cleanUrl, {
+        deepScan,
+        onProgress: setScanProgress,
+        signal: scanController.current.signal,
+        scoringProfile,
+        classifier: classifierSettings,
+        onPostText: (_, text) => { postText = text; },
+        onClassifying: () => setCurrentAction(`Classifying with ${PROVIDER_LABELS[classifierSettings.provider]}...`)
+      });
+
+      // Redirects and the feed's own id can reveal an alias of a blog already in the library
+      const existing = findDuplicate(blogs, newBlog);
+      if (existing) {
+        throw new Error(`This is the same blog as "${existing.title}", which is already in your library.`);
       }
 
-      setCurrentAction('Running Gemini AI Classification...');
-      
-      // 2. Classify with Gemini
-      const classification = await classifyBlogWithGemini(
-        analysisData.title!,
-        analysisData.description || "",
-        analysisData.posts || []
-      );
-
-      // 3. Construct Object
-      // Combine analysis tags with Gemini tags
-      const combinedTags = Array.from(new Set([...(analysisData.tags || []), ...classification.tags]));
-
-      const newBlog: BlogMetadata = {
-        id: crypto.randomUUID(),
-        url: cleanUrl,
-        feedUrl: cleanUrl + '/feeds/posts/default?alt=json',
-        title: analysisData.title!,
-        description: analysisData.description || "",
-        lastBuildDate: analysisData.lastBuildDate!,
-        posts: analysisData.posts || [],
-        status: analysisData.status!,
-        stats: analysisData.stats!,
-        qualityScore: analysisData.qualityScore!,
-        
-        // AI Data
-        category: classification.category,
-        tags: combinedTags,
-        sentimentScore: classification.sentimentScore,
-        language: classification.language,
-        
-        isFavorite: false,
-        addedAt: new Date().toISOString(),
-        lastCheckedAt: new Date().toISOString()
-      };
-
+      storePostText(newBlog.id, postText);
       setBlogs(prev => [newBlog, ...prev]);
       setNewBlogUrl('');
       setView('directory');
@@ -111,80 +161,226 @@ const App: React.FC = () => {
     } finally {
       setIsAdding(false);
       setCurrentAction('');
+      setScanProgress(null);
+      scanController.current = null;
     }
   };
 
+  const handleCancelScan = () => {
+    scanController.current?.abort();
+  };
+
+  const handleOpenBlog = (id: string) => {
+    if (view !== 'blog') setPreviousView(view);
+    setSelectedBlogId(id);
+    setView('blog');
+  };
+
   const handleDeleteBlog = (id: string) => {
     if(confirm('Are you sure you want to remove this blog and all its historical data?')) {
       setBlogs(prev => prev.filter(b => b.id !== id));
+      setInbox(prev => prev.filter(e => e.blogId !== id));
     }
   };
 
+  const handleToggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(i => i !== id);
+      return prev.length >= MAX_COMPARED_BLOGS ? prev : [...prev, id];
+    });
+  };
+
+  const handleOpenComparison = () => {
+    setComparisonReturnView(view);
+    setView('compare');
+  };
+
   const handleToggleFavorite = (id: string) => {
     setBlogs(prev => prev.map(b => 
       b.id === id ? { ...b, isFavorite: !b.isFavorite } : b
     ));
   };
 
+  const handleUpdateBlog = (id: string, changes: BlogOrganization) => {
+    setBlogs(prev => prev.map(b => b.id === id ? { ...b, ...changes } : b));
+  };
+
   const handleRefreshBlog = async (id: string) => {
     const blog = blogs.find(b => b.id === id);
-    if (!blog) return;
+    const forcePostAnalysis = pendingPostAnalysis.current.delete(id);
+    const finishPostAnalysis = () => {
+      if (forcePostAnalysis) setAnalyzingPostsIds(prev => prev.filter(x => x !== id));
+    };
+    if (!blog) return finishPostAnalysis();
 
     // Use toast or similar in real app, here we just optimistically update or show loader if needed
     // For individual refresh we don't block UI unless it's global
     try {
-        const analysisData = await analyzeBlogAndFetch(blog.url);
-        
-        setBlogs(prev => prev.map(b => {
-          if (b.id === id) {
-            return {
-              ...b,
-              title: analysisData.title!,
-              description: analysisData.description || "",
-              lastBuildDate: analysisData.lastBuildDate!,
-              posts: analysisData.posts || [],
-              status: analysisData.status!,
-              stats: analysisData.stats!,
-              qualityScore: analysisData.qualityScore!,
-              // Merge tags carefully
-              tags: Array.from(new Set([...b.tags, ...(analysisData.tags || [])])),
-              lastCheckedAt: new Date().toISOString()
-            };
+        const analysisData = await analyzeBlogAndFetch(blog.url, { deepScan: blog.deepScan, scoringProfile });
+        const posts = await analyzeFetchedPosts(analysisData, blog.posts, classifierSettings, forcePostAnalysis);
+        storePostText(id, analysisData.postText);
+        const newPosts = detectNewPosts(blog.knownGuids, analysisData.fetchedPosts);
+        if (newPosts.length > 0) {
+          setInbox(prev => addToInbox(prev, createInboxEntries(id, newPosts)));
+          if (blog.isFavorite && notificationsEnabled) {
+            notifyNewPosts(blog, newPosts);
           }
-          return b;
-        }));
-    } catch (e) {
+        }
+        
+        setBlogs(prev => prev.map(b => b.id === id ? applyRefresh(b, analysisData, posts) : b));
+    } catch (e: any) {
         console.error("Failed to refresh", e);
+        setBlogs(prev => prev.map(b => b.id === id ? markRefreshFailed(b, e?.message || "Unknown error") : b));
+        // Rethrown so the refresh queue can count the failure
+        throw e;
+    } finally {
+        finishPostAnalysis();
     }
   };
 
-  const refreshAll = async () => {
-    setIsLoading(true);
-    setCurrentAction('Batch updating analytics for all blogs...');
-    for (const blog of blogs) {
-      await handleRefreshBlog(blog.id);
-    }
-    setIsLoading(false);
-    setCurrentAction('');
+  const { status: refreshStatus, enqueue: enqueueRefresh } = useRefreshQueue(blogs, handleRefreshBlog, refreshPolicy, isHydrated);
+
+  const handleQueueRefresh = (id: string) => enqueueRefresh([id]);
+
+  const refreshAll = () => enqueueRefresh(blogs.map(b => b.id));
+
+  const handleReclassify = async (ids: string[]) => {
+    setReclassifyingIds(prev => [...prev, ...ids]);
+    await runWithConcurrency(ids, IMPORT_CONCURRENCY, async (id) => {
+      const blog = blogs.find(b => b.id === id);
+      try {
+        if (blog) {
+          const classification = await reclassifyBlog(blog, classifierSettings);
+          setBlogs(prev => prev.map(b => b.id === id ? applyClassification(b, classification) : b));
+        }
+      } catch (e: any) {
+        // Previous results stay in place; only the error is recorded
+        setBlogs(prev => prev.map(b => b.id === id ? { ...b, classification: { ...b.classification, error: e?.message || "Classification failed." } } : b));
+      } finally {
+        setReclassifyingIds(prev => prev.filter(x => x !== id));
+      }
+    });
+  };
+
+  // Runs as a queued refresh so it shares the concurrency limit and never overlaps another refresh of the blog
+  const handleAnalyzePosts = (id: string) => {
+    // A refresh that is already running started without the flag; the button stays disabled until it ends
+    if (refreshStatus.active.includes(id)) return;
+    pendingPostAnalysis.current.add(id);
+    setAnalyzingPostsIds(prev => prev.includes(id) ? prev : [...prev, id]);
+    enqueueRefresh([id]);
+  };
+
+  const handleSetRead = (ids: string[], isRead: boolean) => {
+    const targets = new Set(ids);
+    setInbox(prev => prev.map(e => targets.has(e.id) ? { ...e, isRead } : e));
+  };
+
+  const handleToggleNotifications = async () => {
+    const enabled = !notificationsEnabled && await requestNotificationPermission();
+    setNotificationsEnabled(enabled);
+    saveNotificationsEnabled(enabled);
+  };
+
+  const handleScoringChange = (settings: ScoringSettingsState) => {
+    setScoringSettings(settings);
+    saveScoringSettings(settings);
+    setBlogs(prev => rescoreLibrary(prev, getActiveProfile(settings)));
+  };
+
+  const handleClassifierChange = (settings: ClassifierSettingsState) => {
+    setClassifierSettings(settings);
+    saveClassifierSettings(settings);
+  };
+
+  const handleMergeDuplicates = (keptId: string, duplicateIds: string[]) => {
+    setBlogs(prev => mergeDuplicatesInLibrary(prev, keptId, duplicateIds));
+    setInbox(prev => reassignInboxEntries(prev, duplicateIds, keptId));
+    if (selectedBlogId && duplicateIds.includes(selectedBlogId)) setSelectedBlogId(keptId);
+  };
+
+  const handleOrganizationChange = (settings: OrganizationSettingsState) => {
+    setOrganization(settings);
+    saveOrganization(settings);
+  };
+
+  const handleRestore = (restored: BlogMetadata[], settings: OrganizationSettingsState) => {
+    setBlogs(restored);
+    handleOrganizationChange(settings);
+  };
+
+  const handleCreateCollection = (name: string): Collection => {
+    const collection = createCollection(name);
+    handleOrganizationChange({ ...organization, collections: [...organization.collections, collection] });
+    return collection;
+  };
+
+  const handleRemoveCollection = (id: string) => {
+    handleOrganizationChange({ ...organization, collections: organization.collections.filter(c => c.id !== id) });
+    setBlogs(prev => removeCollection(prev, id));
+    if (filter.collectionId === id) setFilter({ ...filter, collectionId: 'All' });
+  };
+
+  const handleRenameCategory = (from: string, to: string) => {
+    handleOrganizationChange({ ...organization, customCategories: organization.customCategories.map(c => c === from ? to : c) });
+    setBlogs(prev => renameCategory(prev, from, to));
+    if (filter.category === from) setFilter({ ...filter, category: to });
+  };
+
+  const handleRemoveCategory = (category: string) => {
+    handleOrganizationChange({ ...organization, customCategories: organization.customCategories.filter(c => c !== category) });
+    setBlogs(prev => renameCategory(prev, category, 'Other'));
+    if (filter.category === category) setFilter({ ...filter, category: 'All' });
+  };
+
+  const handleOpenCollection = (id: string) => {
+    setFilter({ ...DEFAULT_FILTER, collectionId: id });
+    setView('directory');
+  };
+
+  const handlePolicyChange = (policy: RefreshPolicy) => {
+    setRefreshPolicy(policy);
+    saveRefreshPolicy(policy);
+  };
+
+  const updateSavedSearches = (searches: SavedSearch[]) => {
+    setSavedSearches(searches);
+    saveSavedSearches(searches);
+  };
+
+  const handleSaveSearch = (name: string) => {
+    // Saving under an existing name replaces that search
+    const search: SavedSearch = { id: crypto.randomUUID(), name, filter, sort };
+    updateSavedSearches([...savedSearches.filter(s => s.name !== name), search]);
+  };
+
+  const handleApplySearch = (search: SavedSearch) => {
+    setFilter(search.filter);
+    setSort(search.sort);
   };
 
   // Filter Logic
-  const filteredBlogs = blogs.filter(blog => {
-    const matchesSearch = blog.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-                          blog.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                          blog.tags.some(t => t.toLowerCase().includes(searchQuery.toLowerCase()));
-    
-    const matchesCategory = selectedCategory === 'All' || blog.category === selectedCategory;
-    
-    if (view === 'favorites') {
-      return matchesSearch && matchesCategory && blog.isFavorite;
-    }
-    return matchesSearch && matchesCategory;
-  });
+  const filteredBlogs = sortBlogs(
+    blogs.filter(blog => matchesFilter(blog, filter) && (view !== 'favorites' || blog.isFavorite)),
+    sort
+  );
+  const advancedFilterCount = countAdvancedConditions(filter);
+  const libraryLanguages = Array.from(new Set(blogs.map(b => b.language).filter(Boolean))).sort();
+
+  const selectedBlog = blogs.find(b => b.id === selectedBlogId);
+
+  // The open blog can disappear underneath the detail view (deleted, or merged away); go back instead of showing nothing
+  useEffect(() => {
+    if (view === 'blog' && !selectedBlog) setView(previousView);
+  }, [view, selectedBlog, previousView]);
+  // Deleted or merged blogs drop out of the comparison
+  const comparedBlogs = compareIds.map(id => blogs.find(b => b.id === id)).filter((b): b is BlogMetadata => !!b);
 
   // Dashboard Stats
   const activeCount = blogs.filter(b => b.status === BlogStatus.Active).length;
   const favoriteCount = blogs.filter(b => b.isFavorite).length;
+  const reclassifyCandidates = blogs.filter(b => needsReclassification(b, classifierSettings));
+  const unreadCount = inbox.filter(e => !e.isRead && blogs.some(b => b.id === e.blogId)).length;
   const totalPostsTracked = blogs.reduce((acc, b) => acc + b.stats.totalPosts, 0);
   const avgQualityScore = blogs.length > 0 
     ? Math.round(blogs.reduce((acc, b) => acc + b.qualityScore, 0) / blogs.length) 
@@ -200,7 +396,7 @@ const App: React.FC = () => {
         <h1 className="text-xl font-bold tracking-tight">BlogSpotter</h1>
       </div>
 
-      <nav className="flex-1 px-3 py-4 space-y-1">
+      <nav className="flex-1 px-3 py-4 space-y-1 overflow-y-auto">
         <button 
           onClick={() => setView('dashboard')}
           className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-all ${view === 'dashboard' ? 'bg-brand-600 text-white shadow-lg shadow-brand-900/20' : 'hover:bg-slate-800'}`}
@@ -224,6 +420,40 @@ const App: React.FC = () => {
           <span className="font-medium">Favorites</span>
           <span className="ml-auto text-xs bg-slate-800 px-2 py-0.5 rounded-full">{favoriteCount}</span>
         </button>
+        <button 
+          onClick={() => setView('inbox')}
+          className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-all ${view === 'inbox' ? 'bg-brand-600 text-white shadow-lg shadow-brand-900/20' : 'hover:bg-slate-800'}`}
+        >
+          <Inbox size={20} />
+          <span className="font-medium">Inbox</span>
+          {unreadCount > 0 && (
+            <span className="ml-auto text-xs bg-brand-500 text-white px-2 py-0.5 rounded-full">{unreadCount}</span>
+          )}
+        </button>
+        <button 
+          onClick={() => setView('posts')}
+          className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-all ${view === 'posts' ? 'bg-brand-600 text-white shadow-lg shadow-brand-900/20' : 'hover:bg-slate-800'}`}
+        >
+          <FileSearch size={20} />
+          <span className="font-medium">Post Search</span>
+        </button>
+
+        {organization.collections.length > 0 && (
+          <div className="pt-8 px-3">
+            <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Collections</p>
+            {organization.collections.map(c => (
+              <button 
+                key={c.id}
+                onClick={() => handleOpenCollection(c.id)}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-all text-sm ${view === 'directory' && filter.collectionId === c.id ? 'bg-slate-800 text-white' : 'hover:bg-slate-800'}`}
+              >
+                <Folder size={16} />
+                <span className="font-medium truncate">{c.name}</span>
+                <span className="ml-auto text-xs bg-slate-800 px-2 py-0.5 rounded-full">{blogs.filter(b => b.collectionIds.includes(c.id)).length}</span>
+              </button>
+            ))}
+          </div>
+        )}
         
         <div className="pt-8 px-3">
           <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Curator Tools</p>
@@ -234,16 +464,58 @@ const App: React.FC = () => {
             <PlusCircle size={20} />
             <span className="font-medium">Add New Blog</span>
           </button>
+          <button 
+            onClick={() => setView('data')}
+            className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-all ${view === 'data' ? 'bg-brand-600 text-white' : 'hover:bg-slate-800'}`}
+          >
+            <Database size={20} />
+            <span className="font-medium">Import & Export</span>
+          </button>
+          <button 
+            onClick={() => setView('settings')}
+            className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-all ${view === 'settings' ? 'bg-brand-600 text-white' : 'hover:bg-slate-800'}`}
+          >
+            <Settings size={20} />
+            <span className="font-medium">Settings</span>
+          </button>
         </div>
       </nav>
 
       <div className="p-4 border-t border-slate-800">
         <div className="bg-slate-800 rounded-lg p-3">
-          <div className="flex items-center gap-2 mb-2">
-            <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></div>
-            <span className="text-xs font-medium text-emerald-400">Deep Scanner Active</span>
-          </div>
-          <p className="text-[10px] text-slate-500">Analytics Engine v2.1</p>
+          {refreshStatus.isRunning ? (
+            <>
+              <div className="flex items-center gap-2 mb-2">
+                <Loader2 className="animate-spin text-brand-400" size={12} />
+                <span className="text-xs font-medium text-brand-300">
+                  Refreshing {refreshStatus.active.length} • {refreshStatus.queued.length} queued
+                </span>
+              </div>
+              <div className="h-1 bg-slate-700 rounded-full overflow-hidden mb-1.5">
+                <div
+                  className="h-full bg-brand-500 transition-all"
+                  style={{ width: `${((refreshStatus.completed + refreshStatus.failed) / (refreshStatus.completed + refreshStatus.failed + refreshStatus.active.length + refreshStatus.queued.length)) * 100}%` }}
+                />
+              </div>
+              <p className="text-[10px] text-slate-500">
+                {refreshStatus.completed} done{refreshStatus.failed > 0 ? ` • ${refreshStatus.failed} failed` : ''}
+              </p>
+            </>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 mb-2">
+                <div className={`w-2 h-2 rounded-full ${refreshPolicy.enabled ? 'bg-emerald-500 animate-pulse' : 'bg-slate-500'}`}></div>
+                <span className={`text-xs font-medium ${refreshPolicy.enabled ? 'text-emerald-400' : 'text-slate-400'}`}>
+                  {refreshPolicy.enabled ? 'Auto-Refresh Active' : 'Auto-Refresh Paused'}
+                </span>
+              </div>
+              <p className="text-[10px] text-slate-500">
+                {refreshStatus.completed + refreshStatus.failed > 0
+                  ? `Last run: ${refreshStatus.completed} updated${refreshStatus.failed > 0 ? `, ${refreshStatus.failed} failed` : ''}`
+                  : 'Analytics Engine v2.1'}
+              </p>
+            </>
+          )}
         </div>
       </div>
     </aside>
@@ -300,7 +572,7 @@ const App: React.FC = () => {
                 .sort((a, b) => b.qualityScore - a.qualityScore)
                 .slice(0, 5)
                 .map(blog => (
-                  <div key={blog.id} className="flex items-center justify-between p-3 hover:bg-slate-50 rounded-lg transition-colors border-b border-slate-100 last:border-0 cursor-pointer" onClick={() => { setView('directory'); setSearchQuery(blog.title); }}>
+                  <div key={blog.id} className="flex items-center justify-between p-3 hover:bg-slate-50 rounded-lg transition-colors border-b border-slate-100 last:border-0 cursor-pointer" onClick={() => handleOpenBlog(blog.id)}>
                     <div className="flex items-center gap-3">
                        <div className="w-10 h-10 rounded-full bg-gradient-to-br from-brand-100 to-brand-50 flex items-center justify-center text-brand-600 font-bold text-sm">
                          {blog.qualityScore}
@@ -324,10 +596,10 @@ const App: React.FC = () => {
           <div className="space-y-3">
             <button 
               onClick={refreshAll} 
-              disabled={isLoading || blogs.length === 0}
+              disabled={refreshStatus.isRunning || blogs.length === 0}
               className="w-full py-3 px-4 bg-white border border-slate-200 hover:border-brand-300 hover:bg-brand-50 text-slate-700 hover:text-brand-700 rounded-lg transition-all flex items-center justify-center gap-2 font-medium"
             >
-              {isLoading ? <Loader2 className="animate-spin" size={18}/> : <RefreshCw size={18} />}
+              {refreshStatus.isRunning ? <Loader2 className="animate-spin" size={18}/> : <RefreshCw size={18} />}
               Scan & Update All
             </button>
             <button 
@@ -337,6 +609,17 @@ const App: React.FC = () => {
               <Plus size={18} />
               Curate New Blog
             </button>
+            {reclassifyCandidates.length > 0 && (
+              <button 
+                onClick={() => handleReclassify(reclassifyCandidates.map(b => b.id))}
+                disabled={reclassifyingIds.length > 0}
+                className="w-full py-3 px-4 bg-white border border-amber-200 hover:bg-amber-50 text-amber-700 rounded-lg transition-all flex items-center justify-center gap-2 font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+                title="Blogs whose classification failed or came from an older model or prompt"
+              >
+                {reclassifyingIds.length > 0 ? <Loader2 className="animate-spin" size={18}/> : <Sparkles size={18} />}
+                Re-classify {reclassifyCandidates.length} Blog{reclassifyCandidates.length === 1 ? '' : 's'}
+              </button>
+            )}
           </div>
           
           <div className="mt-8">
@@ -351,13 +634,15 @@ const App: React.FC = () => {
                  <span className="text-emerald-600 font-medium">Active</span>
                </div>
                <div className="flex justify-between text-xs text-slate-600">
-                 <span>Gemini Classifier</span>
-                 <span className={`${process.env.API_KEY ? 'text-emerald-600' : 'text-amber-500'} font-medium`}>
-                    {process.env.API_KEY ? 'Online' : 'Key Missing'}
+                 <span>{PROVIDER_LABELS[classifierSettings.provider]} Classifier</span>
+                 <span className={`${classifierSettings.provider !== 'gemini' || process.env.API_KEY ? 'text-emerald-600' : 'text-amber-500'} font-medium`}>
+                    {classifierSettings.provider === 'heuristic' ? 'Offline' : classifierSettings.provider === 'openai' ? 'Configured' : process.env.API_KEY ? 'Online' : 'Key Missing'}
                  </span>
                </div>
             </div>
           </div>
+
+          <RefreshSettings policy={refreshPolicy} onChange={handlePolicyChange} />
         </div>
       </div>
     </div>
@@ -367,7 +652,7 @@ const App: React.FC = () => {
     <div className="max-w-2xl mx-auto">
       <div className="text-center mb-8">
         <h2 className="text-3xl font-bold text-slate-800 mb-2">Curate a New Blog</h2>
-        <p className="text-slate-500">Enter a Blogspot URL. We will perform a deep scan of its history, consistency, pages, and content quality.</p>
+        <p className="text-slate-500">Enter a blog URL (Blogspot, WordPress, Ghost, Substack, Medium or any site with a feed). We will perform a deep scan of its history, consistency, pages, and content quality.</p>
       </div>
 
       <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
@@ -378,7 +663,7 @@ const App: React.FC = () => {
               type="text" 
               value={newBlogUrl}
               onChange={(e) => setNewBlogUrl(e.target.value)}
-              placeholder="e.g., googleblog.blogspot.com"
+              placeholder="e.g., googleblog.blogspot.com or example.substack.com"
               className="flex-1 px-4 py-3 rounded-lg border border-slate-200 focus:border-brand-500 focus:ring-2 focus:ring-brand-200 outline-none transition-all text-slate-700"
               disabled={isAdding}
              />
@@ -392,10 +677,45 @@ const App: React.FC = () => {
              </button>
            </div>
 
+           <label className="flex items-start gap-3 mb-6 cursor-pointer select-none">
+             <input
+              type="checkbox"
+              checked={deepScan}
+              onChange={(e) => setDeepScan(e.target.checked)}
+              disabled={isAdding}
+              className="mt-1 accent-brand-600"
+             />
+             <span>
+               <span className="block text-sm font-medium text-slate-700">Full archive scan</span>
+               <span className="block text-xs text-slate-500">Reads every post instead of the latest 25, so comment totals, cadence and first-post date are exact. Slower on large blogs.</span>
+             </span>
+           </label>
+
            {isAdding && (
-             <div className="bg-brand-50 border border-brand-100 rounded-lg p-4 flex items-center gap-3 text-brand-700 animate-pulse">
-               <Loader2 className="animate-spin" size={20} />
-               <span className="font-medium">{currentAction}</span>
+             <div className="bg-brand-50 border border-brand-100 rounded-lg p-4 text-brand-700">
+               <div className="flex items-center gap-3">
+                 <Loader2 className="animate-spin" size={20} />
+                 <span className="font-medium animate-pulse">{currentAction}</span>
+                 {deepScan && (
+                   <button
+                    onClick={handleCancelScan}
+                    className="ml-auto flex items-center gap-1 text-xs font-medium text-brand-700 hover:text-red-600 transition-colors"
+                   >
+                     <X size={14} /> Cancel
+                   </button>
+                 )}
+               </div>
+               {scanProgress && scanProgress.total > 0 && (
+                 <div className="mt-3">
+                   <div className="h-1.5 bg-brand-100 rounded-full overflow-hidden">
+                     <div
+                      className="h-full bg-brand-500 transition-all"
+                      style={{ width: `${Math.min(100, (scanProgress.fetched / scanProgress.total) * 100)}%` }}
+                     />
+                   </div>
+                   <p className="text-xs mt-1.5 text-brand-600">{scanProgress.fetched} of {scanProgress.total} posts read</p>
+                 </div>
+               )}
              </div>
            )}
 
@@ -425,6 +745,13 @@ const App: React.FC = () => {
            </div>
         </div>
       </div>
+
+      <BulkImport
+        existingBlogs={blogs}
+        scoringProfile={scoringProfile}
+        classifier={classifierSettings}
+        onBlogAdded={(blog) => setBlogs(prev => [blog, ...prev])}
+      />
     </div>
   );
 
@@ -435,44 +762,152 @@ const App: React.FC = () => {
       <main className="pl-64 min-h-screen">
         <div className="p-8">
           {/* Top Bar (Search & Filter) - Visible on Dashboard/Directory */}
-          {view !== 'add' && (
+          {view !== 'add' && view !== 'data' && view !== 'blog' && view !== 'compare' && view !== 'settings' && (
              <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
                <div>
-                 <h2 className="text-2xl font-bold text-slate-800 capitalize">{view === 'dashboard' ? 'Overview' : view}</h2>
+                 <h2 className="text-2xl font-bold text-slate-800 capitalize">{view === 'dashboard' ? 'Overview' : view === 'posts' ? 'Post Search' : view}</h2>
                  <p className="text-slate-500 text-sm">Manage and curate your blog collection</p>
                </div>
                
-               <div className="flex gap-2 w-full md:w-auto">
-                 <div className="relative group">
-                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors" size={18} />
-                   <input 
-                    type="text" 
-                    placeholder="Search blogs..." 
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-10 pr-4 py-2 w-full md:w-64 bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-brand-500 focus:ring-2 focus:ring-brand-100 transition-all shadow-sm"
-                   />
+               {view !== 'inbox' && view !== 'posts' && (
+                 <div className="flex gap-2 w-full md:w-auto">
+                   <div className="relative group">
+                     <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors" size={18} />
+                     <input 
+                      type="text" 
+                      placeholder="Search blogs..." 
+                      value={filter.text}
+                      onChange={(e) => setFilter({ ...filter, text: e.target.value })}
+                      className="pl-10 pr-4 py-2 w-full md:w-64 bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-brand-500 focus:ring-2 focus:ring-brand-100 transition-all shadow-sm"
+                     />
+                   </div>
+                   
+                   <select 
+                    value={filter.category}
+                    onChange={(e) => setFilter({ ...filter, category: e.target.value })}
+                    className="px-4 py-2 bg-white border border-slate-200 rounded-lg text-slate-600 text-sm focus:outline-none focus:border-brand-500 shadow-sm cursor-pointer hover:bg-slate-50"
+                   >
+                     <option value="All">All Categories</option>
+                     {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                   </select>
+
+                   <select 
+                    value={filter.status}
+                    onChange={(e) => setFilter({ ...filter, status: e.target.value })}
+                    className="px-4 py-2 bg-white border border-slate-200 rounded-lg text-slate-600 text-sm focus:outline-none focus:border-brand-500 shadow-sm cursor-pointer hover:bg-slate-50"
+                   >
+                     <option value="All">All Statuses</option>
+                     {Object.values(BlogStatus).map(s => <option key={s} value={s}>{s}</option>)}
+                     <option value="Failing">Failing to Refresh ({blogs.filter(isFailing).length})</option>
+                   </select>
+
+                   {(view === 'directory' || view === 'favorites') && (
+                     <button
+                      onClick={() => setShowFilters(!showFilters)}
+                      className={`px-4 py-2 border rounded-lg text-sm font-medium flex items-center gap-2 shadow-sm transition-all ${showFilters ? 'bg-brand-50 border-brand-300 text-brand-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                     >
+                       <SlidersHorizontal size={16} /> Filters
+                       {advancedFilterCount > 0 && (
+                         <span className="px-1.5 rounded-full bg-brand-600 text-white text-xs">{advancedFilterCount}</span>
+                       )}
+                     </button>
+                   )}
                  </div>
-                 
-                 <select 
-                  value={selectedCategory}
-                  onChange={(e) => setSelectedCategory(e.target.value)}
-                  className="px-4 py-2 bg-white border border-slate-200 rounded-lg text-slate-600 text-sm focus:outline-none focus:border-brand-500 shadow-sm cursor-pointer hover:bg-slate-50"
-                 >
-                   <option value="All">All Categories</option>
-                   {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
-                 </select>
-               </div>
+               )}
              </div>
           )}
 
+          {storageError && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6 flex items-start gap-3 text-amber-800">
+              <AlertTriangle className="shrink-0 mt-0.5" size={20} />
+              <div>
+                <p className="font-bold text-sm">Storage Problem</p>
+                <p className="text-sm mt-1">{storageError}</p>
+              </div>
+            </div>
+          )}
+
           {/* Main Content Area */}
           <div className="animate-fade-in">
             {view === 'dashboard' && renderDashboard()}
             {view === 'add' && renderAddView()}
+            {view === 'data' && (
+              <div className="space-y-6">
+                <LibraryData blogs={blogs} organization={organization} onRestore={handleRestore} />
+                <PublishPanel blogs={blogs} collections={organization.collections} savedSearches={savedSearches} />
+                <DuplicateFinder blogs={blogs} onMerge={handleMergeDuplicates} />
+              </div>
+            )}
+            {view === 'settings' && (
+              <div className="max-w-4xl space-y-6">
+                <ClassifierSettings settings={classifierSettings} onChange={handleClassifierChange} />
+                <ScoringSettings settings={scoringSettings} onChange={handleScoringChange} />
+                <OrganizationSettings
+                  settings={organization}
+                  blogs={blogs}
+                  onChange={handleOrganizationChange}
+                  onRenameCategory={handleRenameCategory}
+                  onRemoveCategory={handleRemoveCategory}
+                  onRemoveCollection={handleRemoveCollection}
+                />
+              </div>
+            )}
+            {view === 'blog' && selectedBlog && (
+              <BlogDetail
+                blog={selectedBlog}
+                scoringProfile={scoringProfile}
+                isReclassifying={reclassifyingIds.includes(selectedBlog.id)}
+                classificationOutdated={isClassificationOutdated(selectedBlog.classification, classifierSettings)}
+                onReclassify={(id) => handleReclassify([id])}
+                isAnalyzingPosts={analyzingPostsIds.includes(selectedBlog.id) || refreshStatus.active.includes(selectedBlog.id)}
+                onAnalyzePosts={handleAnalyzePosts}
+                onBack={() => setView(previousView)}
+                onToggleFavorite={handleToggleFavorite}
+                onRefresh={handleQueueRefresh}
+                categories={categories}
+                collections={organization.collections}
+                onUpdateBlog={handleUpdateBlog}
+                onCreateCollection={handleCreateCollection}
+              />
+            )}
+            {view === 'compare' && (
+              <BlogComparison
+                blogs={comparedBlogs}
+                scoringProfile={scoringProfile}
+                onRemove={handleToggleCompare}
+                onOpen={handleOpenBlog}
+                onBack={() => setView(comparisonReturnView)}
+              />
+            )}
+            {view === 'posts' && <PostSearch blogs={blogs} query={postQuery} onQueryChange={setPostQuery} onOpenBlog={handleOpenBlog} />}
+            {view === 'inbox' && (
+              <InboxView
+                entries={inbox}
+                blogs={blogs}
+                notificationsEnabled={notificationsEnabled}
+                onToggleNotifications={handleToggleNotifications}
+                onSetRead={handleSetRead}
+              />
+            )}
             
             {(view === 'directory' || view === 'favorites') && (
               <>
+                 {showFilters && (
+                   <FilterPanel
+                    filter={filter}
+                    sort={sort}
+                    languages={libraryLanguages}
+                    collections={organization.collections}
+                    savedSearches={savedSearches}
+                    onFilterChange={setFilter}
+                    onSortChange={setSort}
+                    onReset={() => { setFilter(DEFAULT_FILTER); setSort(DEFAULT_SORT); }}
+                    onSaveSearch={handleSaveSearch}
+                    onApplySearch={handleApplySearch}
+                    onDeleteSearch={(id) => updateSavedSearches(savedSearches.filter(s => s.id !== id))}
+                   />
+                 )}
+
                  {filteredBlogs.length === 0 ? (
                    <div className="flex flex-col items-center justify-center py-20 text-center">
                       <div className="w-24 h-24 bg-slate-100 rounded-full flex items-center justify-center mb-4 text-slate-300">
@@ -480,7 +915,7 @@ const App: React.FC = () => {
                       </div>
                       <h3 className="text-lg font-bold text-slate-700">No blogs found</h3>
                       <p className="text-slate-500 max-w-md mt-2">
-                        {searchQuery || selectedCategory !== 'All' 
+                        {filter.text || filter.category !== 'All' || filter.status !== 'All' || advancedFilterCount > 0
                           ? "Try adjusting your filters or search query." 
                           : "You haven't added any blogs yet. Head to the 'Add New Blog' section to get started."}
                       </p>
@@ -492,25 +927,41 @@ const App: React.FC = () => {
                         key={blog.id} 
                         blog={blog} 
                         onToggleFavorite={handleToggleFavorite}
-                        onRefresh={handleRefreshBlog}
+                        onRefresh={handleQueueRefresh}
                         onDelete={handleDeleteBlog}
+                        onOpen={handleOpenBlog}
+                        isCompared={compareIds.includes(blog.id)}
+                        onToggleCompare={handleToggleCompare}
                        />
                      ))}
                    </div>
                  )}
+
+                 {comparedBlogs.length > 0 && (
+                   <div className="sticky bottom-4 mt-6 mx-auto max-w-3xl bg-slate-900 text-white rounded-xl shadow-xl px-5 py-3 flex items-center gap-4">
+                     <GitCompare size={18} className="text-brand-400 shrink-0" />
+                     <p className="text-sm flex-1 min-w-0 truncate">
+                       <span className="font-semibold">{comparedBlogs.length} of {MAX_COMPARED_BLOGS}</span>
+                       <span className="text-slate-400"> selected: {comparedBlogs.map(b => b.title).join(', ')}</span>
+                     </p>
+                     <button onClick={() => setCompareIds([])} className="text-sm text-slate-400 hover:text-white transition-colors">
+                       Clear
+                     </button>
+                     <button
+                       onClick={handleOpenComparison}
+                       disabled={comparedBlogs.length < MIN_COMPARED_BLOGS}
+                       className="px-4 py-1.5 bg-brand-600 hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium rounded-lg transition-all"
+                       title={comparedBlogs.length < MIN_COMPARED_BLOGS ? `Pick at least ${MIN_COMPARED_BLOGS} blogs` : undefined}
+                     >
+                       Compare
+                     </button>
+                   </div>
+                 )}
               </>
             )}
           </div>
         </div>
       </main>
-      
-      {/* Loading Overlay for Global Actions */}
-      {isLoading && (
-        <div className="fixed inset-0 bg-white/80 backdrop-blur-sm z-50 flex flex-col items-center justify-center">
-           <Loader2 className="animate-spin text-brand-600 mb-4" size={48} />
-           <p className="text-slate-700 font-medium animate-pulse">{currentAction}</p>
-        </div>
-      )}
     </div>
   );
 };
@@ -0,0 +1,380 @@
+import "./environment";
+import { readFileSync, writeFileSync } from "fs";
+import { createServer } from "http";
+import { parseArgs } from "util";
+import { IMPORT_CONCURRENCY } from "../constants";
+import { BlogMetadata, ClassifierProvider } from "../types";
+import { analyzeBlogAndFetch, Fetcher, normalizeUrl } from "../services/rssService";
+import { analyzeFetchedPosts, applyRefresh, curateBlog } from "../services/libraryService";
+import { ClassifierSettings, DEFAULT_CLASSIFIER_SETTINGS, PROVIDER_LABELS } from "../services/classifierService";
+import { BUILT_IN_PROFILES, DEFAULT_SCORING_PROFILE, ScoringProfile } from "../services/scoringService";
+import { findDuplicate } from "../services/duplicateService";
+import { dedupeCandidates, detectImportFormat, parseImport, runWithConcurrency } from "../services/importService";
+import { detectNewPosts } from "../services/inboxService";
+import { markRefreshFailed } from "../services/healthService";
+import { OrganizationSettings } from "../services/organizationService";
+import { createBackup, exportCsv, exportOpml } from "../services/exportService";
+import { buildPublication, DEFAULT_PUBLISH_SETTINGS, PublishFormat, selectPublishedBlogs } from "../services/publishService";
+import { DEFAULT_LIBRARY_PATH, readLibraryFile, writeLibraryFile } from "./libraryFile";
+import { createNodeFetcher } from "./nodeFetcher";
+import { createLibraryApi } from "../server/libraryApi";
+
+const DEFAULT_PORT = 8787;
+
+const HELP = `Usage: blogspotter <command> [options]
+
+Commands:
+  analyze <url>...     Analyze and classify blogs and add them to the library
+  import <file>        Add every blog in an OPML file, CSV or plain list of URLs
+  refresh [<url>...]   Re-fetch blogs in the library; all of them when no URL is given
+  report               Print the library as a table, CSV, OPML or JSON backup, or publish it
+                       as an Atom or RSS feed of recent posts or an HTML directory page
+  serve                Serve the library over a local REST API at /api/blogs
+
+Options:
+  --library <path>     Library file (default: $BLOGSPOTTER_LIBRARY or ${DEFAULT_LIBRARY_PATH})
+  --classifier <name>  gemini, openai or heuristic (default: gemini when GEMINI_API_KEY is set)
+  --profile <id>       Scoring profile: ${BUILT_IN_PROFILES.map(p => p.id).join(', ')} (default: ${DEFAULT_SCORING_PROFILE.id})
+  --deep               Walk each blog's full post archive (analyze, import)
+  --format <format>    Report format: table, csv, opml, json, atom, rss or html (default: table)
+  --output <path>      Write the report to a file instead of stdout
+  --favorites          Report only favorite blogs
+  --title <text>       Title of a published feed or page (default: "${DEFAULT_PUBLISH_SETTINGS.title}")
+  --site-url <url>     Address a published feed or page will be served from
+  --port <port>        Port to serve on (default: ${DEFAULT_PORT})
+  --host <host>        Address to serve on (default: 127.0.0.1, this machine only)
+  --verbose            Show the services' fetch and parse logs on stderr
+  --help               Show this help
+
+The exit code is 1 when any blog failed, so cron can report it.
+Set BLOGSPOTTER_API_TOKEN to require "Authorization: Bearer <token>" on every API request, and
+BLOGSPOTTER_API_ORIGINS to a comma-separated list of web page origins allowed to read the API.
+`;
+
+const REPORT_FORMATS = ['table', 'csv', 'opml', 'json', 'atom', 'rss', 'html'] as const;
+type ReportFormat = typeof REPORT_FORMATS[number];
+
+interface Context {
+  libraryPath: string;
+  blogs: BlogMetadata[];
+  // Collections and custom categories; the CLI never changes them but keeps them in the file.
+  // `blogs` and `organization` follow the file, which other processes may change during a run.
+  organization: OrganizationSettings;
+  fetcher: Fetcher;
+  classifier: ClassifierSettings;
+  scoringProfile: ScoringProfile;
+  deepScan: boolean;
+}
+
+// Reports go to stdout; progress and errors to stderr so `report > file` stays clean
+const print = (line = '') => process.stdout.write(`${line}\n`);
+const status = (line: string) => process.stderr.write(`${line}\n`);
+
+const describeBlog = (blog: BlogMetadata) =>
+  `${blog.title} (${blog.url}) — ${blog.category}, score ${blog.qualityScore}/100, ${blog.stats.totalPosts} posts`;
+
+// --- Library File ---
+
+// Picks up changes made to the file since it was last read, e.g. through a running `serve`
+const reloadLibrary = (ctx: Context): BlogMetadata[] => {
+  Object.assign(ctx, readLibraryFile(ctx.libraryPath));
+  return ctx.blogs;
+};
+
+// Every change is applied to the file as it is now and written straight away, so a long run never
+// overwrites what the API changed meanwhile. Both steps are synchronous and never interleave.
+const updateLibrary = (ctx: Context, change: (blogs: BlogMetadata[]) => BlogMetadata[]) => {
+  ctx.blogs = change(reloadLibrary(ctx));
+  writeLibraryFile(ctx.libraryPath, { blogs: ctx.blogs, organization: ctx.organization });
+};
+
+// --- Commands ---
+
+const analyze = async (ctx: Context, urls: string[]): Promise<boolean> => {
+  if (urls.length === 0) throw new Error("Give at least one blog URL to analyze.");
+  let ok = true;
+
+  for (const url of urls) {
+    const cleanUrl = normalizeUrl(url);
+    const known = findDuplicate(ctx.blogs, { url: cleanUrl });
+    if (known) {
+      status(`• ${cleanUrl} is already in the library as "${known.title}"; refreshing it`);
+      ok = await refreshOne(ctx, known) && ok;
+      continue;
+    }
+
+    status(`… ${cleanUrl}: analyzing, then classifying with ${PROVIDER_LABELS[ctx.classifier.provider]}`);
+    try {
+      const blog = await curateBlog(cleanUrl, {
+        deepScan: ctx.deepScan,
+        scoringProfile: ctx.scoringProfile,
+        classifier: ctx.classifier,
+        fetcher: ctx.fetcher
+      });
+      // Redirects and the feed's own id can reveal an alias of a blog already in the library
+      const existing = findDuplicate(reloadLibrary(ctx), blog);
+      if (existing) {
+        status(`• ${cleanUrl} is the same blog as "${existing.title}"; skipped`);
+        continue;
+      }
+      updateLibrary(ctx, blogs => [blog, ...blogs]);
+      status(`✓ ${describeBlog(blog)}`);
+    } catch (e: any) {
+      status(`✗ ${cleanUrl}: ${e.message}`);
+      ok = false;
+    }
+  }
+  return ok;
+};
+
+const importFile = async (ctx: Context, files: string[]): Promise<boolean> => {
+  if (files.length !== 1) throw new Error("Give exactly one file to import.");
+  const [file] = files;
+
+  let text: string;
+  try {
+    text = readFileSync(file, "utf8");
+  } catch (e: any) {
+    throw new Error(`Could not read ${file}: ${e.message}`);
+  }
+
+  const candidates = parseImport(text, detectImportFormat(text, file));
+  const { fresh, duplicates } = dedupeCandidates(candidates, ctx.blogs.map(b => b.url));
+  status(`${candidates.length} blog${candidates.length === 1 ? '' : 's'} in ${file}: ${fresh.length} new, ${duplicates.length} already in the library`);
+
+  let added = 0;
+  let skipped = duplicates.length;
+  let failed = 0;
+  await runWithConcurrency(fresh, IMPORT_CONCURRENCY, async (candidate) => {
+    try {
+      const blog = await curateBlog(candidate.url, {
+        deepScan: ctx.deepScan,
+        scoringProfile: ctx.scoringProfile,
+        classifier: ctx.classifier,
+        fetcher: ctx.fetcher
+      });
+      const existing = findDuplicate(reloadLibrary(ctx), blog);
+      if (existing) {
+        skipped++;
+        status(`• ${candidate.url} is the same blog as "${existing.title}"; skipped`);
+      } else {
+        added++;
+        updateLibrary(ctx, blogs => [blog, ...blogs]);
+        status(`✓ ${describeBlog(blog)}`);
+      }
+    } catch (e: any) {
+      failed++;
+      status(`✗ ${candidate.label || candidate.url}: ${e.message}`);
+    }
+  });
+
+  status(`Added ${added}, skipped ${skipped} duplicates, ${failed} failed.`);
+  return failed === 0;
+};
+
+const refreshOne = async (ctx: Context, blog: BlogMetadata): Promise<boolean> => {
+  try {
+    const analysisData = await analyzeBlogAndFetch(blog.url, { deepScan: blog.deepScan, scoringProfile: ctx.scoringProfile, fetcher: ctx.fetcher });
+    const posts = await analyzeFetchedPosts(analysisData, blog.posts, ctx.classifier);
+    const newPosts = detectNewPosts(blog.knownGuids, analysisData.fetchedPosts);
+    updateLibrary(ctx, blogs => blogs.map(b => b.id === blog.id ? applyRefresh(b, analysisData, posts) : b));
+    const updated = ctx.blogs.find(b => b.id === blog.id);
+    if (!updated) {
+      status(`• ${blog.title} was deleted during the refresh`);
+      return true;
+    }
+
+    const delta = updated.qualityScore - blog.qualityScore;
+    status(`✓ ${updated.title}: score ${updated.qualityScore}${delta ? ` (${delta > 0 ? '+' : ''}${delta})` : ''}, ${newPosts.length} new post${newPosts.length === 1 ? '' : 's'}`);
+    return true;
+  } catch (e: any) {
+    updateLibrary(ctx, blogs => blogs.map(b => b.id === blog.id ? markRefreshFailed(b, e?.message || "Unknown error") : b));
+    status(`✗ ${blog.title}: ${e.message}`);
+    return false;
+  }
+};
+
+const refresh = async (ctx: Context, urls: string[]): Promise<boolean> => {
+  const targets = urls.length === 0
+    ? ctx.blogs
+    : urls.map(url => {
+        const blog = findDuplicate(ctx.blogs, { url: normalizeUrl(url) });
+        if (!blog) throw new Error(`${url} is not in the library. Add it with "analyze" first.`);
+        return blog;
+      });
+
+  if (targets.length === 0) {
+    status("The library is empty.");
+    return true;
+  }
+
+  const results: boolean[] = [];
+  await runWithConcurrency(targets, IMPORT_CONCURRENCY, async (blog) => {
+    results.push(await refreshOne(ctx, blog));
+  });
+  const failed = results.filter(ok => !ok).length;
+  status(`Refreshed ${results.length - failed} of ${targets.length} blogs${failed ? `; ${failed} failed` : ''}.`);
+  return failed === 0;
+};
+
+const renderTable = (blogs: BlogMetadata[]): string => {
+  const rows = blogs.map(b => [String(b.qualityScore), b.status, b.category, b.title, b.url]);
+  const header = ['Score', 'Status', 'Category', 'Title', 'URL'];
+  const widths = header.map((h, i) => Math.min(48, Math.max(h.length, ...rows.map(r => r[i].length))));
+  const clip = (value: string, width: number) => value.length > width ? `${value.slice(0, width - 1)}…` : value.padEnd(width);
+  // The URL column is last and never clipped, so it stays copyable
+  const line = (cells: string[]) => cells.map((c, i) => i === cells.length - 1 ? c : clip(c, widths[i])).join('  ').trimEnd();
+  return [line(header), ...rows.map(line)].join('\n') + '\n';
+};
+
+interface ReportOptions {
+  output?: string;
+  favorites: boolean;
+  title?: string;
+  siteUrl?: string;
+}
+
+const report = (ctx: Context, format: ReportFormat, options: ReportOptions): boolean => {
+  const blogs = selectPublishedBlogs(ctx.blogs, options.favorites ? 'favorites' : 'all');
+  const publish = (publishFormat: PublishFormat) => () =>
+    buildPublication(publishFormat, blogs, {
+      ...DEFAULT_PUBLISH_SETTINGS,
+      title: options.title || DEFAULT_PUBLISH_SETTINGS.title,
+      siteUrl: options.siteUrl || ''
+    });
+  const content = {
+    table: () => renderTable(blogs),
+    csv: () => exportCsv(blogs),
+    opml: () => exportOpml(blogs),
+    json: () => createBackup(blogs, ctx.organization),
+    atom: publish('atom'),
+    rss: publish('rss'),
+    html: publish('html')
+  }[format]();
+
+  if (options.output) {
+    writeFileSync(options.output, content);
+    status(`Wrote ${blogs.length} blogs to ${options.output}`);
+  } else {
+    process.stdout.write(content);
+  }
+  return true;
+};
+
+// Runs until stopped. The API reads and writes the library file on every request, so the other
+// commands can keep working on the same file while it runs.
+const serve = (ctx: Context, port: number, host: string): Promise<boolean> =>
+  new Promise((_, reject) => {
+    const token = process.env.BLOGSPOTTER_API_TOKEN || undefined;
+    if (!token && !['127.0.0.1', 'localhost', '::1'].includes(host)) {
+      status(`Without BLOGSPOTTER_API_TOKEN only requests to localhost are answered; set a token to serve ${host}.`);
+    }
+    const handle = createLibraryApi({
+      store: {
+        read: () => readLibraryFile(ctx.libraryPath).blogs,
+        write: blogs => writeLibraryFile(ctx.libraryPath, { ...readLibraryFile(ctx.libraryPath), blogs })
+      },
+      fetcher: ctx.fetcher,
+      classifier: ctx.classifier,
+      scoringProfile: ctx.scoringProfile,
+      token,
+      allowedOrigins: (process.env.BLOGSPOTTER_API_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean)
+    });
+
+    const server = createServer((req, res) => {
+      res.on('finish', () => status(`${req.method} ${req.url} → ${res.statusCode}`));
+      handle(req, res);
+    });
+    server.on('error', reject);
+    server.listen(port, host, () => {
+      status(`Serving ${ctx.libraryPath} at http://${host}:${port}/api/blogs (Ctrl+C to stop)`);
+    });
+  });
+
+// --- Entry Point ---
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      library: { type: 'string' },
+      classifier: { type: 'string' },
+      profile: { type: 'string' },
+      deep: { type: 'boolean', default: false },
+      format: { type: 'string', default: 'table' },
+      output: { type: 'string' },
+      favorites: { type: 'boolean', default: false },
+      title: { type: 'string' },
+      'site-url': { type: 'string' },
+      port: { type: 'string' },
+      host: { type: 'string', default: '127.0.0.1' },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    print(HELP);
+    return values.help ? 0 : 1;
+  }
+
+  // The services log as they go; keep that off stdout, and quiet unless asked for
+  if (values.verbose) {
+    console.log = console.info = console.error;
+  } else {
+    console.log = console.info = console.warn = console.error = () => {};
+  }
+
+  const provider = (values.classifier || DEFAULT_CLASSIFIER_SETTINGS.provider) as ClassifierProvider;
+  if (!(provider in PROVIDER_LABELS)) {
+    throw new Error(`Unknown classifier "${values.classifier}". Use ${Object.keys(PROVIDER_LABELS).join(', ')}.`);
+  }
+  const scoringProfile = BUILT_IN_PROFILES.find(p => p.id === (values.profile || DEFAULT_SCORING_PROFILE.id));
+  if (!scoringProfile) {
+    throw new Error(`Unknown scoring profile "${values.profile}". Use ${BUILT_IN_PROFILES.map(p => p.id).join(', ')}.`);
+  }
+  const format = values.format as ReportFormat;
+  if (!REPORT_FORMATS.includes(format)) {
+    throw new Error(`Unknown report format "${values.format}". Use ${REPORT_FORMATS.join(', ')}.`);
+  }
+
+  const libraryPath = values.library || process.env.BLOGSPOTTER_LIBRARY || DEFAULT_LIBRARY_PATH;
+  const ctx: Context = {
+    libraryPath,
+    ...readLibraryFile(libraryPath),
+    fetcher: createNodeFetcher(),
+    classifier: { ...DEFAULT_CLASSIFIER_SETTINGS, provider },
+    scoringProfile,
+    deepScan: values.deep!
+  };
+
+  const commands: Record<string, () => Promise<boolean> | boolean> = {
+    analyze: () => analyze(ctx, args),
+    import: () => importFile(ctx, args),
+    refresh: () => refresh(ctx, args),
+    report: () => report(ctx, format, {
+      output: values.output,
+      favorites: values.favorites!,
+      title: values.title,
+      siteUrl: values['site-url']
+    }),
+    serve: () => {
+      const port = Number(values.port || DEFAULT_PORT);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) throw new Error(`Invalid port "${values.port}".`);
+      return serve(ctx, port, values.host!);
+    }
+  };
+  if (!commands[command]) {
+    throw new Error(`Unknown command "${command}". Run with --help to see the commands.`);
+  }
+
+  return await commands[command]() ? 0 : 1;
+};
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch((e: any) => {
+    status(`blogspotter: ${e.message}`);
+    process.exitCode = 1;
+  });
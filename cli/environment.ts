@@ -0,0 +1,20 @@
+import { existsSync } from "fs";
+import { JSDOM } from "jsdom";
+
+// The services were written for the browser and for Vite's build-time env. Importing this
+// module first gives them what Node lacks, so it must stay the CLI's first import.
+
+// Same file the dev server reads; loadEnvFile is why package.json asks for Node 20.12
+if (existsSync(".env.local")) {
+  process.loadEnvFile(".env.local");
+}
+
+// Vite exposes the Gemini key as API_KEY (see vite.config.ts)
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) {
+  process.env.API_KEY = process.env.GEMINI_API_KEY;
+}
+
+// Feed and OPML parsing use the browser's XML parser
+if (typeof globalThis.DOMParser === "undefined") {
+  globalThis.DOMParser = new JSDOM("").window.DOMParser;
+}
@@ -0,0 +1,30 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { BlogMetadata } from "../types";
+import { createBackup, parseBackup } from "../services/exportService";
+import { OrganizationSettings } from "../services/organizationService";
+
+export const DEFAULT_LIBRARY_PATH = "blogspotter-library.json";
+
+export interface LibraryFile {
+  blogs: BlogMetadata[];
+  organization: OrganizationSettings;
+}
+
+// The library file is a regular JSON backup, so it can be restored in the app (Import & Export → Restore from Backup)
+// and a backup downloaded from the app can be used as a library file. Older backups are migrated on read.
+export const readLibraryFile = (path: string): LibraryFile => {
+  if (!existsSync(path)) return { blogs: [], organization: { collections: [], customCategories: [] } };
+  try {
+    const { blogs, organization } = parseBackup(readFileSync(path, "utf8"));
+    return { blogs, organization };
+  } catch (e: any) {
+    throw new Error(`Could not read the library at ${path}: ${e.message}`);
+  }
+};
+
+// Written to a temporary file first so an interrupted run never leaves a truncated library
+export const writeLibraryFile = (path: string, { blogs, organization }: LibraryFile) => {
+  const temporary = `${path}.tmp`;
+  writeFileSync(temporary, createBackup(blogs, organization));
+  renameSync(temporary, path);
+};
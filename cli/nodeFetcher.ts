@@ -0,0 +1,55 @@
+import { Fetcher } from "../services/rssService";
+import { createHostThrottle } from "../server/hostThrottle";
+
+const USER_AGENT = "BlogSpotter/1.0 (+cli)";
+
+// The Response constructor refuses a body for these, even an empty one
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+export interface NodeFetcherOptions {
+  // Minimum gap between two requests to the same host
+  minIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+// Node has no CORS, so the CLI fetches blogs directly instead of through the relay or public
+// proxies. Requests are paced per host like the relay does, and the final URL after redirects
+// is reported in the same X-Final-Url header.
+export const createNodeFetcher = ({ minIntervalMs = 1000, timeoutMs = 20000 }: NodeFetcherOptions = {}): Fetcher => {
+  const waitForSlot = createHostThrottle(minIntervalMs);
+
+  return async (url, signal) => {
+    await waitForSlot(new URL(url).hostname.toLowerCase());
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort);
+
+    try {
+      const response = await fetch(url, {
+        headers: { "User-Agent": USER_AGENT },
+        redirect: "follow",
+        signal: controller.signal
+      });
+      const headers = new Headers(response.headers);
+      headers.set("X-Final-Url", response.url || url);
+      const body = NULL_BODY_STATUSES.includes(response.status) ? null : await response.arrayBuffer();
+      return new Response(body, { status: response.status, headers });
+    } catch (e: any) {
+      if (e.name === "AbortError" && !signal?.aborted) {
+        throw new Error(`${url} timed out after ${timeoutMs}ms`);
+      }
+      // Node reports every connection problem as "fetch failed"; the cause says which
+      // (an AggregateError of per-address failures when a host resolves to several)
+      const reason = e.cause?.code || e.cause?.errors?.[0]?.code || e.cause?.message;
+      if (reason) {
+        throw new Error(`Could not reach ${new URL(url).host} (${reason})`);
+      }
+      throw e;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+};
@@ -0,0 +1,41 @@
+import React from "react";
+
+interface BarChartProps {
+  data: { label: string; value: number }[];
+  height?: number;
+  // Show every nth label on the x axis so dense series stay readable
+  labelEvery?: number;
+}
+
+const BarChart: React.FC<BarChartProps> = ({ data, height = 160, labelEvery }) => {
+  if (data.length === 0) {
+    return <div className="text-xs text-slate-400 py-10 text-center">Not enough data</div>;
+  }
+
+  const max = Math.max(...data.map(d => d.value), 1);
+  const step = labelEvery || Math.max(1, Math.ceil(data.length / 8));
+
+  return (
+    <div>
+      <div className="flex items-end gap-px" style={{ height }}>
+        {data.map((d, i) => (
+          <div
+            key={`${d.label}-${i}`}
+            className="flex-1 bg-brand-400 hover:bg-brand-600 rounded-t-sm transition-colors min-w-[2px]"
+            style={{ height: `${(d.value / max) * 100}%` }}
+            title={`${d.label}: ${d.value}`}
+          />
+        ))}
+      </div>
+      <div className="flex gap-px mt-1 text-[10px] text-slate-400">
+        {data.map((d, i) => (
+          <div key={`${d.label}-${i}`} className="flex-1 min-w-[2px] overflow-visible whitespace-nowrap">
+            {i % step === 0 ? d.label : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BarChart;
@@ -1,18 +1,26 @@
 import React, { useState } from "react";
 import { BlogMetadata, BlogStatus } from "../types";
-import { ExternalLink, Star, Calendar, Tag, Activity, FileText, Image as ImageIcon, MessageSquare, Users, BarChart3, ChevronDown, ChevronUp, Layers } from "lucide-react";
-import { CATEGORY_ICONS } from "../constants";
+import { ExternalLink, Star, Calendar, Tag, Activity, FileText, Image as ImageIcon, MessageSquare, Users, BarChart3, ChevronDown, ChevronUp, Layers, AlertTriangle } from "lucide-react";
+import { CATEGORY_ICONS, PLATFORM_LABELS } from "../constants";
+import { getTrendSeries, summarizeTrend, TrendMetric } from "../services/historyService";
+import { getBlogTags } from "../services/organizationService";
+import TrendSparkline from "./TrendSparkline";
 
 interface BlogCardProps {
   blog: BlogMetadata;
   onToggleFavorite: (id: string) => void;
   onRefresh: (id: string) => void;
   onDelete: (id: string) => void;
+  onOpen: (id: string) => void;
+  // Comparison selection; the button is hidden without a handler
+  isCompared?: boolean;
+  onToggleCompare?: (id: string) => void;
 }
 
-const BlogCard: React.FC<BlogCardProps> = ({ blog, onToggleFavorite, onRefresh, onDelete }) => {
+const BlogCard: React.FC<BlogCardProps> = ({ blog, onToggleFavorite, onRefresh, onDelete, onOpen, isCompared = false, onToggleCompare }) => {
   const [expanded, setExpanded] = useState(false);
   const Icon = CATEGORY_ICONS[blog.category] || CATEGORY_ICONS["Other"];
+  const tags = getBlogTags(blog);
   
   const statusColor = {
     [BlogStatus.Active]: "bg-emerald-100 text-emerald-800 border-emerald-200",
@@ -20,6 +28,24 @@ const BlogCard: React.FC<BlogCardProps> = ({ blog, onToggleFavorite, onRefresh,
     [BlogStatus.Unreachable]: "bg-red-100 text-red-800 border-red-200",
   }[blog.status];
 
+  const trendRows: { metric: TrendMetric; label: string; higherIsBetter: boolean }[] = [
+    { metric: 'qualityScore', label: 'Quality', higherIsBetter: true },
+    { metric: 'followersCount', label: 'Followers', higherIsBetter: true },
+    { metric: 'totalComments', label: 'Comments', higherIsBetter: true },
+    { metric: 'avgDaysBetweenPosts', label: 'Interval (d)', higherIsBetter: false },
+  ];
+
+  const formatDelta = (delta: number | null, higherIsBetter: boolean) => {
+    if (delta === null) return <span className="text-slate-300" title="Not enough history yet">n/a</span>;
+    if (delta === 0) return <span className="text-slate-400">±0</span>;
+    const improving = higherIsBetter ? delta > 0 : delta < 0;
+    return (
+      <span className={improving ? "text-emerald-600" : "text-red-500"}>
+        {delta > 0 ? `+${delta}` : delta}
+      </span>
+    );
+  };
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return "text-emerald-600 bg-emerald-50 border-emerald-100";
     if (score >= 50) return "text-blue-600 bg-blue-50 border-blue-100";
@@ -36,9 +62,15 @@ const BlogCard: React.FC<BlogCardProps> = ({ blog, onToggleFavorite, onRefresh,
           </div>
           <div className="overflow-hidden">
              <h3 className="font-bold text-slate-800 text-lg leading-tight truncate" title={blog.title}>
-              {blog.title}
+              <button onClick={() => onOpen(blog.id)} className="hover:text-brand-700 hover:underline text-left truncate max-w-full">
+                {blog.title}
+              </button>
             </h3>
-            <p className="text-xs text-slate-500 mt-1 truncate">{blog.url.replace('https://', '').replace(/\/$/, '')}</p>
+            <p className="text-xs text-slate-500 mt-1 truncate">
+              {blog.url.replace('https://', '').replace(/\/$/, '')}
+              <span className="text-slate-300"> • </span>
+              {PLATFORM_LABELS[blog.platform || 'blogger']}
+            </p>
           </div>
         </div>
         <button 
@@ -62,6 +94,12 @@ const BlogCard: React.FC<BlogCardProps> = ({ blog, onToggleFavorite, onRefresh,
              <BarChart3 size={10} /> {blog.qualityScore}
            </span>
 
+           {blog.classification.isFallback && (
+             <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-50 text-amber-700 border border-amber-200" title={blog.classification.error || "Classification failed"}>
+               Unclassified
+             </span>
+           )}
+
            {blog.stats.followersCount > 0 && (
              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-purple-50 text-purple-700 border border-purple-100" title="Scraped Followers">
                <Users size={10} /> {blog.stats.followersCount}
@@ -69,6 +107,19 @@ const BlogCard: React.FC<BlogCardProps> = ({ blog, onToggleFavorite, onRefresh,
            )}
         </div>
 
+        {blog.health.consecutiveFailures > 0 && (
+          <div className="mb-4 p-2.5 rounded-lg bg-red-50 border border-red-100 text-xs text-red-700">
+            <div className="flex items-center gap-1.5 font-semibold mb-0.5">
+              <AlertTriangle size={12} />
+              {blog.health.consecutiveFailures} failed refresh{blog.health.consecutiveFailures === 1 ? '' : 'es'}
+            </div>
+            <p className="line-clamp-2" title={blog.health.lastError}>{blog.health.lastError}</p>
+            <p className="text-red-500 mt-1">
+              Last success: {blog.health.lastSuccessAt ? new Date(blog.health.lastSuccessAt).toLocaleDateString() : 'never'}
+            </p>
+          </div>
+        )}
+
         <p className="text-slate-600 text-sm line-clamp-2 mb-4 flex-1" title={blog.description}>
           {blog.description || "No description available."}
         </p>
@@ -95,13 +146,13 @@ const BlogCard: React.FC<BlogCardProps> = ({ blog, onToggleFavorite, onRefresh,
 
         {/* Tags */}
         <div className="flex flex-wrap gap-1 mb-4 h-6 overflow-hidden">
-          {blog.tags.slice(0, 3).map(tag => (
-            <span key={tag} className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-slate-100 text-slate-600 border border-slate-200">
+          {tags.slice(0, 3).map((tag, i) => (
+            <span key={tag} className={`inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium border ${i < blog.manualTags.length ? 'bg-brand-50 text-brand-700 border-brand-200' : 'bg-slate-100 text-slate-600 border-slate-200'}`}>
               <Tag size={8} className="mr-1" /> {tag}
             </span>
           ))}
-          {blog.tags.length > 3 && (
-            <span className="text-[10px] text-slate-400 self-center">+{blog.tags.length - 3}</span>
+          {tags.length > 3 && (
+            <span className="text-[10px] text-slate-400 self-center">+{tags.length - 3}</span>
           )}
         </div>
 
@@ -134,6 +185,32 @@ const BlogCard: React.FC<BlogCardProps> = ({ blog, onToggleFavorite, onRefresh,
                 <span className="font-medium text-slate-700">{blog.sentimentScore}/100</span>
               </div>
             </div>
+
+            <div className="pt-3 mt-1 border-t border-slate-100">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-[10px] uppercase tracking-wide font-semibold text-slate-400">Trends</span>
+                <span className="text-[10px] text-slate-400">
+                  {blog.history.length} snapshot{blog.history.length === 1 ? '' : 's'} • 30d / 90d
+                </span>
+              </div>
+              <div className="space-y-1.5">
+                {trendRows.map(({ metric, label, higherIsBetter }) => {
+                  const month = summarizeTrend(blog.history, metric, 30);
+                  const quarter = summarizeTrend(blog.history, metric, 90);
+                  return (
+                    <div key={metric} className="flex items-center gap-2">
+                      <span className="text-slate-500 w-20 shrink-0">{label}</span>
+                      <TrendSparkline points={getTrendSeries(blog.history, metric, 180)} />
+                      <span className="ml-auto font-medium tabular-nums">
+                        {formatDelta(month?.delta ?? null, higherIsBetter)}
+                        <span className="text-slate-300"> / </span>
+                        {formatDelta(quarter?.delta ?? null, higherIsBetter)}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
           </div>
         )}
 
@@ -141,7 +218,7 @@ const BlogCard: React.FC<BlogCardProps> = ({ blog, onToggleFavorite, onRefresh,
           onClick={() => setExpanded(!expanded)}
           className="w-full flex items-center justify-center gap-1 text-[10px] uppercase tracking-wide text-slate-400 hover:text-brand-600 font-semibold mb-3 transition-colors"
         >
-          {expanded ? 'Show Less' : 'Full Analysis'} {expanded ? <ChevronUp size={10} /> : <ChevronDown size={10} />}
+          {expanded ? 'Show Less' : 'Quick Analysis'} {expanded ? <ChevronUp size={10} /> : <ChevronDown size={10} />}
         </button>
 
         {/* Footer Actions */}
@@ -151,6 +228,22 @@ const BlogCard: React.FC<BlogCardProps> = ({ blog, onToggleFavorite, onRefresh,
             {new Date(blog.lastBuildDate).toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}
           </div>
           <div className="flex gap-3">
+            {onToggleCompare && (
+              <button
+                onClick={() => onToggleCompare(blog.id)}
+                className={`transition-colors ${isCompared ? 'text-brand-600 font-semibold' : 'hover:text-brand-600'}`}
+                title={isCompared ? "Remove from Comparison" : "Add to Comparison"}
+              >
+                {isCompared ? 'Comparing' : 'Compare'}
+              </button>
+            )}
+            <button 
+              onClick={() => onOpen(blog.id)} 
+              className="hover:text-brand-600 transition-colors"
+              title="Open Blog Details"
+            >
+              Details
+            </button>
             <button 
               onClick={() => onRefresh(blog.id)} 
               className="hover:text-brand-600 transition-colors"
@@ -0,0 +1,189 @@
+import React from "react";
+import { ArrowLeft, X, GitCompare } from "lucide-react";
+import { BlogMetadata } from "../types";
+import { MIN_COMPARED_BLOGS } from "../constants";
+import { ScoringProfile } from "../services/scoringService";
+import { bestIndexes, BlogComparison as Comparison, compareBlogs, COMPARISON_DIMENSIONS } from "../services/comparisonService";
+import RadarChart from "./RadarChart";
+
+interface BlogComparisonProps {
+  blogs: BlogMetadata[];
+  scoringProfile: ScoringProfile;
+  onRemove: (id: string) => void;
+  onOpen: (id: string) => void;
+  onBack: () => void;
+}
+
+// One color per compared blog, in selection order
+const SERIES_COLORS = ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#7c3aed'];
+
+interface ComparisonRow {
+  label: string;
+  // Shown as is; `value` drives the highlight
+  display: (c: Comparison) => React.ReactNode;
+  value?: (c: Comparison) => number | null;
+  higherIsBetter?: boolean;
+}
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? '—' : date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+};
+
+const timeOf = (iso: string) => {
+  const time = new Date(iso).getTime();
+  return isNaN(time) ? null : time;
+};
+
+const OVERVIEW_ROWS: ComparisonRow[] = [
+  { label: 'Category', display: c => c.blog.category },
+  { label: 'Language', display: c => c.blog.language },
+  { label: 'Status', display: c => c.blog.status },
+  { label: 'Quality score', display: c => c.breakdown.total, value: c => c.breakdown.total, higherIsBetter: true },
+  { label: 'Sentiment', display: c => c.blog.sentimentScore, value: c => c.blog.sentimentScore, higherIsBetter: true }
+];
+
+const DIMENSION_ROWS: ComparisonRow[] = COMPARISON_DIMENSIONS.map(({ key, label }) => ({
+  label,
+  display: c => c.dimensions[key],
+  value: c => c.dimensions[key],
+  higherIsBetter: true
+}));
+
+const STATS_ROWS: ComparisonRow[] = [
+  { label: 'Total posts', display: c => c.blog.stats.totalPosts, value: c => c.blog.stats.totalPosts, higherIsBetter: true },
+  { label: 'Words per post', display: c => c.blog.stats.avgWordsPerPost, value: c => c.blog.stats.avgWordsPerPost, higherIsBetter: true },
+  { label: 'Images per post', display: c => c.blog.stats.avgImagesPerPost, value: c => c.blog.stats.avgImagesPerPost, higherIsBetter: true },
+  { label: 'Days between posts', display: c => c.blog.stats.avgDaysBetweenPosts, value: c => c.blog.stats.avgDaysBetweenPosts || null, higherIsBetter: false },
+  { label: 'Consistency', display: c => c.blog.stats.consistencyScore, value: c => c.blog.stats.consistencyScore, higherIsBetter: true },
+  { label: 'Comments per post', display: c => c.blog.stats.avgCommentsPerPost, value: c => c.blog.stats.avgCommentsPerPost, higherIsBetter: true },
+  {
+    label: 'Followers',
+    display: c => c.blog.stats.followersCount < 0 ? 'Unknown' : c.blog.stats.followersCount.toLocaleString(),
+    value: c => c.blog.stats.followersCount < 0 ? null : c.blog.stats.followersCount,
+    higherIsBetter: true
+  },
+  { label: 'Static pages', display: c => c.blog.stats.totalPages, value: c => c.blog.stats.totalPages, higherIsBetter: true },
+  // Earlier first posts mean a longer track record
+  { label: 'First post', display: c => formatDate(c.blog.stats.firstPostDate), value: c => timeOf(c.blog.stats.firstPostDate), higherIsBetter: false },
+  { label: 'Last post', display: c => formatDate(c.blog.stats.lastPostDate), value: c => timeOf(c.blog.stats.lastPostDate), higherIsBetter: true }
+];
+
+const BlogComparison: React.FC<BlogComparisonProps> = ({ blogs, scoringProfile, onRemove, onOpen, onBack }) => {
+  const comparisons = compareBlogs(blogs, scoringProfile);
+
+  // Every breakdown lists the same components in the same order
+  const componentRows: ComparisonRow[] = (comparisons[0]?.breakdown.components || []).map((component, i) => ({
+    label: component.label,
+    display: c => c.breakdown.components[i].normalized,
+    value: c => c.breakdown.components[i].normalized,
+    higherIsBetter: true
+  }));
+  const sections = [
+    { title: 'Overview', rows: OVERVIEW_ROWS },
+    { title: 'Dimensions', rows: DIMENSION_ROWS },
+    { title: 'Quality components', rows: componentRows },
+    { title: 'Stats', rows: STATS_ROWS }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="flex items-center gap-1.5 text-sm text-slate-500 hover:text-brand-600 transition-colors">
+        <ArrowLeft size={16} /> Back
+      </button>
+
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+          <GitCompare size={22} className="text-brand-600" /> Compare Blogs
+        </h2>
+        <p className="text-slate-500 text-sm">Scores use the {scoringProfile.name} profile. The best value in each row is highlighted.</p>
+      </div>
+
+      {blogs.length < MIN_COMPARED_BLOGS ? (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-10 text-center text-sm text-slate-500">
+          Pick at least {MIN_COMPARED_BLOGS} blogs with the Compare button on their cards.
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+            <h3 className="text-sm font-semibold text-slate-900 mb-4">Profile</h3>
+            <RadarChart
+              axes={COMPARISON_DIMENSIONS}
+              series={comparisons.map((c, i) => ({
+                label: c.blog.title,
+                values: COMPARISON_DIMENSIONS.map(d => c.dimensions[d.key]),
+                color: SERIES_COLORS[i % SERIES_COLORS.length]
+              }))}
+            />
+          </div>
+
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="p-4 w-48"></th>
+                  {comparisons.map(({ blog }, i) => (
+                    <th key={blog.id} className="p-4 text-left align-top font-normal">
+                      <div className="flex items-start gap-2">
+                        <span className="w-3 h-3 rounded-sm mt-1 shrink-0" style={{ backgroundColor: SERIES_COLORS[i % SERIES_COLORS.length] }} />
+                        <div className="min-w-0 flex-1">
+                          <button onClick={() => onOpen(blog.id)} className="font-bold text-slate-800 hover:text-brand-700 hover:underline text-left">
+                            {blog.title}
+                          </button>
+                          <a
+                            href={blog.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block text-xs text-slate-400 hover:text-brand-600 truncate"
+                          >
+                            {blog.url.replace('https://', '').replace(/\/$/, '')}
+                          </a>
+                        </div>
+                        <button
+                          onClick={() => onRemove(blog.id)}
+                          className="p-1 text-slate-300 hover:text-red-500 transition-colors shrink-0"
+                          title="Remove from Comparison"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sections.map(section => (
+                  <React.Fragment key={section.title}>
+                    <tr className="bg-slate-50">
+                      <td colSpan={comparisons.length + 1} className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                        {section.title}
+                      </td>
+                    </tr>
+                    {section.rows.map(row => {
+                      const best = row.value ? bestIndexes(comparisons.map(row.value), row.higherIsBetter ?? true) : [];
+                      return (
+                        <tr key={row.label} className="border-t border-slate-100">
+                          <td className="px-4 py-2 text-slate-500">{row.label}</td>
+                          {comparisons.map((c, i) => (
+                            <td
+                              key={c.blog.id}
+                              className={`px-4 py-2 tabular-nums ${best.includes(i) ? 'font-bold text-emerald-700 bg-emerald-50/60' : 'text-slate-700'}`}
+                            >
+                              {row.display(c)}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BlogComparison;
@@ -0,0 +1,383 @@
+import React, { useState } from "react";
+import { ArrowLeft, ExternalLink, Star, RefreshCw, ChevronUp, ChevronDown, Sparkles, AlertTriangle, Loader2 } from "lucide-react";
+import { BlogMetadata, BlogPost, BlogStatus } from "../types";
+import { PLATFORM_LABELS } from "../constants";
+import { postMetricSeries, postsPerMonth, PostMetric, tagDistribution } from "../services/postAnalytics";
+import { getTrendSeries, summarizeTrend, TrendMetric } from "../services/historyService";
+import { scoreBlog, ScoringProfile } from "../services/scoringService";
+import { PROVIDER_LABELS } from "../services/classifierService";
+import { Collection } from "../services/organizationService";
+import BarChart from "./BarChart";
+import LineChart from "./LineChart";
+import TrendSparkline from "./TrendSparkline";
+import BlogOrganizer, { BlogOrganization } from "./BlogOrganizer";
+import PageSignalsPanel from "./PageSignalsPanel";
+
+interface BlogDetailProps {
+  blog: BlogMetadata;
+  scoringProfile: ScoringProfile;
+  isReclassifying: boolean;
+  classificationOutdated: boolean;
+  onReclassify: (id: string) => void;
+  isAnalyzingPosts: boolean;
+  onAnalyzePosts: (id: string) => void;
+  onBack: () => void;
+  onToggleFavorite: (id: string) => void;
+  onRefresh: (id: string) => void;
+  categories: string[];
+  collections: Collection[];
+  onUpdateBlog: (id: string, changes: BlogOrganization) => void;
+  onCreateCollection: (name: string) => Collection;
+}
+
+type SortKey = 'title' | 'pubDate' | 'wordCount' | 'imageCount' | 'commentCount' | 'sentiment';
+
+const METRIC_LABELS: Record<PostMetric, string> = {
+  wordCount: 'Words',
+  imageCount: 'Images',
+  commentCount: 'Comments',
+};
+
+const TREND_ROWS: { metric: TrendMetric; label: string }[] = [
+  { metric: 'qualityScore', label: 'Quality score' },
+  { metric: 'followersCount', label: 'Followers' },
+  { metric: 'totalComments', label: 'Total comments' },
+  { metric: 'avgDaysBetweenPosts', label: 'Days between posts' },
+];
+
+const compareBy = (key: SortKey) => (a: BlogPost, b: BlogPost) => {
+  if (key === 'title') return a.title.localeCompare(b.title);
+  if (key === 'pubDate') return new Date(a.pubDate).getTime() - new Date(b.pubDate).getTime();
+  // Unanalyzed posts sort below every analyzed one
+  if (key === 'sentiment') return (a.analysis?.sentimentScore ?? -1) - (b.analysis?.sentimentScore ?? -1);
+  return a[key] - b[key];
+};
+
+const BlogDetail: React.FC<BlogDetailProps> = ({ blog, scoringProfile, isReclassifying, classificationOutdated, onReclassify, isAnalyzingPosts, onAnalyzePosts, onBack, onToggleFavorite, onRefresh, categories, collections, onUpdateBlog, onCreateCollection }) => {
+  const [metric, setMetric] = useState<PostMetric>('wordCount');
+  const [sortKey, setSortKey] = useState<SortKey>('pubDate');
+  const [sortDesc, setSortDesc] = useState(true);
+
+  const posts = blog.posts || [];
+  const monthly = postsPerMonth(posts).map(b => ({ label: b.label, value: b.count }));
+  const series = postMetricSeries(posts, metric);
+  const tags = tagDistribution(posts);
+  const maxTagCount = Math.max(...tags.map(t => t.count), 1);
+  const breakdown = scoreBlog(blog.stats, scoringProfile);
+  const { classification } = blog;
+  const analyzedCount = posts.filter(p => p.analysis).length;
+
+  const sorted = [...posts].sort(compareBy(sortKey));
+  if (sortDesc) sorted.reverse();
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      // Text reads best A-Z, numbers and dates largest first
+      setSortDesc(key !== 'title');
+    }
+  };
+
+  const stats: { label: string; value: string | number }[] = [
+    { label: 'Quality score', value: blog.qualityScore },
+    { label: 'Total posts', value: blog.stats.totalPosts },
+    { label: 'Static pages', value: blog.stats.totalPages },
+    { label: 'Followers', value: blog.stats.followersCount < 0 ? 'Unknown' : blog.stats.followersCount },
+    { label: 'Avg words / post', value: blog.stats.avgWordsPerPost },
+    { label: 'Avg images / post', value: blog.stats.avgImagesPerPost },
+    { label: 'Avg comments / post', value: blog.stats.avgCommentsPerPost },
+    { label: 'Days between posts', value: blog.stats.avgDaysBetweenPosts },
+    { label: 'Consistency', value: `${blog.stats.consistencyScore}%` },
+    { label: 'Sentiment', value: `${blog.sentimentScore}/100` },
+    { label: 'First post', value: new Date(blog.stats.firstPostDate).toLocaleDateString() },
+    { label: 'Last checked', value: new Date(blog.lastCheckedAt).toLocaleDateString() },
+  ];
+
+  const renderSortHeader = (column: SortKey, label: string, align: 'left' | 'right' = 'right') => (
+    <th className={`px-3 py-2 font-semibold ${align === 'right' ? 'text-right' : 'text-left'}`}>
+      <button
+        onClick={() => toggleSort(column)}
+        className={`inline-flex items-center gap-1 hover:text-brand-600 transition-colors ${sortKey === column ? 'text-brand-700' : ''}`}
+      >
+        {label}
+        {sortKey === column && (sortDesc ? <ChevronDown size={12} /> : <ChevronUp size={12} />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="flex items-center gap-1.5 text-sm text-slate-500 hover:text-brand-600 transition-colors">
+        <ArrowLeft size={16} /> Back
+      </button>
+
+      {/* Header */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+        <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-bold text-slate-800">{blog.title}</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              <a href={blog.url} target="_blank" rel="noopener noreferrer" className="hover:text-brand-600 hover:underline">
+                {blog.url.replace('https://', '').replace(/\/$/, '')}
+              </a>
+              <span className="text-slate-300"> • </span>
+              {PLATFORM_LABELS[blog.platform || 'blogger']}
+              <span className="text-slate-300"> • </span>
+              {blog.category}
+              <span className="text-slate-300"> • </span>
+              <span className={blog.status === BlogStatus.Active ? 'text-emerald-600' : blog.status === BlogStatus.Inactive ? 'text-amber-600' : 'text-red-600'}>
+                {blog.status}
+              </span>
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={() => onToggleFavorite(blog.id)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium border flex items-center gap-1.5 transition-all ${blog.isFavorite ? 'border-yellow-200 bg-yellow-50 text-yellow-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+            >
+              <Star size={14} fill={blog.isFavorite ? "currentColor" : "none"} /> {blog.isFavorite ? 'Favorite' : 'Add to favorites'}
+            </button>
+            <button
+              onClick={() => onRefresh(blog.id)}
+              className="px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-200 text-slate-600 hover:bg-slate-50 flex items-center gap-1.5 transition-all"
+            >
+              <RefreshCw size={14} /> Update
+            </button>
+            <a
+              href={blog.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-3 py-1.5 rounded-lg text-sm font-medium bg-brand-600 hover:bg-brand-700 text-white flex items-center gap-1.5 transition-all"
+            >
+              Visit <ExternalLink size={14} />
+            </a>
+          </div>
+        </div>
+
+        <div className={`mt-4 p-4 rounded-lg border ${classification.isFallback ? 'bg-amber-50/50 border-amber-200' : 'bg-brand-50/50 border-brand-100'}`}>
+          <div className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-brand-700 mb-1">
+            <Sparkles size={12} /> {blog.summary ? 'Summary' : 'Description'}
+            <button
+              onClick={() => onReclassify(blog.id)}
+              disabled={isReclassifying}
+              className="ml-auto normal-case tracking-normal font-medium flex items-center gap-1 text-brand-600 hover:text-brand-800 disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {isReclassifying ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} Re-classify
+            </button>
+          </div>
+          <p className="text-sm text-slate-700">{blog.summary || blog.description || "No description available."}</p>
+          <p className="text-[11px] text-slate-400 mt-2">
+            {classification.isFallback
+              ? <span className="text-amber-700 font-medium">The selected classifier failed, so these are offline keyword results.</span>
+              : <>Classified by {PROVIDER_LABELS[classification.provider]} ({classification.model}){classification.promptVersion > 0 ? `, v${classification.promptVersion}` : ''} on {new Date(classification.classifiedAt).toLocaleDateString()}</>}
+            {!classification.isFallback && classificationOutdated && <span className="text-amber-600"> • outdated</span>}
+            {classification.error && <span className="text-red-500" title={classification.error}> • last attempt failed: {classification.error}</span>}
+          </p>
+        </div>
+
+        {blog.health.consecutiveFailures > 0 && (
+          <div className="mt-4 p-3 rounded-lg bg-red-50 border border-red-100 text-sm text-red-700 flex items-start gap-2">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+            <span>
+              {blog.health.consecutiveFailures} failed refresh{blog.health.consecutiveFailures === 1 ? '' : 'es'}: {blog.health.lastError}
+            </span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3 mt-4">
+          {stats.map(s => (
+            <div key={s.label} className="bg-slate-50 rounded-lg p-3">
+              <p className="text-[10px] uppercase tracking-wide font-semibold text-slate-400">{s.label}</p>
+              <p className="text-lg font-bold text-slate-800">{s.value}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <BlogOrganizer
+        key={blog.id}
+        blog={blog}
+        categories={categories}
+        collections={collections}
+        onUpdate={onUpdateBlog}
+        onCreateCollection={onCreateCollection}
+      />
+
+      {/* Score Breakdown */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-semibold text-slate-900">Quality score breakdown</h3>
+          <span className="text-xs text-slate-400">{scoringProfile.name} profile • {breakdown.total} / 100</span>
+        </div>
+        <table className="w-full text-xs">
+          <thead className="text-slate-400">
+            <tr>
+              <th className="text-left font-semibold pb-2">Component</th>
+              <th className="text-right font-semibold pb-2">Value</th>
+              <th className="text-right font-semibold pb-2">Score</th>
+              <th className="text-right font-semibold pb-2">Weight</th>
+              <th className="font-semibold pb-2 w-1/3"></th>
+              <th className="text-right font-semibold pb-2">Points</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.components.map(c => (
+              <tr key={c.key} className={c.weight === 0 ? 'text-slate-300' : 'text-slate-600'}>
+                <td className="py-1">{c.label}</td>
+                <td className="py-1 text-right tabular-nums">{c.input}</td>
+                <td className="py-1 text-right tabular-nums">{c.normalized}</td>
+                <td className="py-1 text-right tabular-nums">{c.weight}%</td>
+                <td className="py-1 px-3">
+                  <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-brand-400 rounded-full" style={{ width: `${c.normalized}%` }} />
+                  </div>
+                </td>
+                <td className="py-1 text-right tabular-nums font-medium">{c.contribution}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <PageSignalsPanel signals={blog.signals} />
+
+      {/* Charts */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+          <h3 className="text-sm font-semibold text-slate-900 mb-4">Posts per month</h3>
+          <BarChart data={monthly} />
+        </div>
+
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-semibold text-slate-900">{METRIC_LABELS[metric]} per post over time</h3>
+            <div className="flex bg-slate-100 p-0.5 rounded-lg">
+              {(Object.keys(METRIC_LABELS) as PostMetric[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMetric(m)}
+                  className={`px-2 py-1 rounded-md text-xs font-medium transition-all ${metric === m ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {METRIC_LABELS[m]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <LineChart points={series} />
+        </div>
+
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+          <h3 className="text-sm font-semibold text-slate-900 mb-4">Tag distribution</h3>
+          {tags.length === 0 ? (
+            <div className="text-xs text-slate-400 py-10 text-center">No post labels found</div>
+          ) : (
+            <div className="space-y-1.5">
+              {tags.map(t => (
+                <div key={t.label} className="flex items-center gap-2 text-xs">
+                  <span className="w-32 truncate text-slate-600" title={t.label}>{t.label}</span>
+                  <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-brand-400 rounded-full" style={{ width: `${(t.count / maxTagCount) * 100}%` }} />
+                  </div>
+                  <span className="w-8 text-right tabular-nums text-slate-500">{t.count}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-semibold text-slate-900">History</h3>
+            <span className="text-xs text-slate-400">{blog.history.length} snapshot{blog.history.length === 1 ? '' : 's'} • 90d change</span>
+          </div>
+          <div className="space-y-2">
+            {TREND_ROWS.map(({ metric: trendMetric, label }) => {
+              const quarter = summarizeTrend(blog.history, trendMetric, 90);
+              return (
+                <div key={trendMetric} className="flex items-center gap-3 text-xs">
+                  <span className="w-36 text-slate-500">{label}</span>
+                  <TrendSparkline points={getTrendSeries(blog.history, trendMetric)} />
+                  <span className={`ml-auto tabular-nums ${quarter?.delta != null ? 'font-medium text-slate-700' : 'text-slate-400'}`}>
+                    {quarter?.delta != null ? `${quarter.delta > 0 ? '+' : ''}${quarter.delta}` : 'Not enough history'}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* Post Table */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-900">Fetched posts</h3>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-slate-400">
+              {posts.length} of {blog.stats.totalPosts}{analyzedCount > 0 ? ` • ${analyzedCount} analyzed` : ''}
+            </span>
+            <button
+              onClick={() => onAnalyzePosts(blog.id)}
+              disabled={isAnalyzingPosts}
+              className="px-2.5 py-1 rounded-lg text-xs font-medium border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-60 disabled:cursor-not-allowed flex items-center gap-1.5 transition-all"
+              title="Fetch the latest posts and summarize the ones not analyzed yet"
+            >
+              {isAnalyzingPosts ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />} Analyze posts
+            </button>
+          </div>
+        </div>
+        {posts.length === 0 ? (
+          <div className="text-sm text-slate-400 py-10 text-center">No posts stored for this blog yet. Update it to fetch them.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500">
+                <tr>
+                  {renderSortHeader('title', 'Title', 'left')}
+                  {renderSortHeader('pubDate', 'Published')}
+                  {renderSortHeader('wordCount', 'Words')}
+                  {renderSortHeader('imageCount', 'Images')}
+                  {renderSortHeader('commentCount', 'Comments')}
+                  {renderSortHeader('sentiment', 'Sentiment')}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {sorted.map((post, i) => (
+                  <tr key={`${post.guid}-${i}`} className="hover:bg-slate-50">
+                    <td className="px-3 py-2 max-w-md">
+                      <a href={post.link} target="_blank" rel="noopener noreferrer" className="text-slate-800 hover:text-brand-700 hover:underline line-clamp-1" title={post.title}>
+                        {post.title || "(untitled)"}
+                      </a>
+                      {post.analysis && (
+                        <>
+                          {post.analysis.summary && <p className="text-xs text-slate-500 line-clamp-2 mt-0.5">{post.analysis.summary}</p>}
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {post.analysis.topics.map((topic, i) => (
+                              <span key={i} className="px-1.5 py-0.5 rounded text-[10px] bg-slate-100 text-slate-600">{topic}</span>
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-500 whitespace-nowrap">
+                      {new Date(post.pubDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums text-slate-600">{post.wordCount}</td>
+                    <td className="px-3 py-2 text-right tabular-nums text-slate-600">{post.imageCount}</td>
+                    <td className="px-3 py-2 text-right tabular-nums text-slate-600">{post.commentCount}</td>
+                    <td className="px-3 py-2 text-right tabular-nums text-slate-600" title={post.analysis ? `${post.analysis.model}${post.analysis.isFallback ? ' (fallback after a failed model call)' : ''}, ${new Date(post.analysis.analyzedAt).toLocaleDateString()}` : undefined}>
+                      {post.analysis ? post.analysis.sentimentScore : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BlogDetail;
@@ -0,0 +1,155 @@
+import React, { useState } from "react";
+import { FolderPlus, Tag, X, Plus, StickyNote } from "lucide-react";
+import { BlogMetadata } from "../types";
+import { Collection } from "../services/organizationService";
+
+export type BlogOrganization = Partial<Pick<BlogMetadata, 'category' | 'manualTags' | 'collectionIds' | 'notes'>>;
+
+interface BlogOrganizerProps {
+  blog: BlogMetadata;
+  categories: string[];
+  collections: Collection[];
+  onUpdate: (id: string, changes: BlogOrganization) => void;
+  onCreateCollection: (name: string) => Collection;
+}
+
+// Mount with key={blog.id}: the notes draft is only read from the blog on mount
+const BlogOrganizer: React.FC<BlogOrganizerProps> = ({ blog, categories, collections, onUpdate, onCreateCollection }) => {
+  const [tagInput, setTagInput] = useState('');
+  const [collectionInput, setCollectionInput] = useState('');
+  const [notes, setNotes] = useState(blog.notes || '');
+
+  const addTags = () => {
+    const existing = new Set(blog.manualTags.map(t => t.toLowerCase()));
+    const added = tagInput.split(',').map(t => t.trim()).filter(t => t && !existing.has(t.toLowerCase()));
+    if (added.length > 0) {
+      onUpdate(blog.id, { manualTags: Array.from(new Set([...blog.manualTags, ...added])) });
+    }
+    setTagInput('');
+  };
+
+  const toggleCollection = (id: string) => {
+    const collectionIds = blog.collectionIds.includes(id)
+      ? blog.collectionIds.filter(c => c !== id)
+      : [...blog.collectionIds, id];
+    onUpdate(blog.id, { collectionIds });
+  };
+
+  const addToNewCollection = () => {
+    if (!collectionInput.trim()) return;
+    const collection = onCreateCollection(collectionInput);
+    onUpdate(blog.id, { collectionIds: [...blog.collectionIds, collection.id] });
+    setCollectionInput('');
+  };
+
+  const saveNotes = () => {
+    if (notes !== (blog.notes || '')) {
+      onUpdate(blog.id, { notes: notes.trim() ? notes : undefined });
+    }
+  };
+
+  const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400 mb-2 flex items-center gap-1.5";
+  const inputClass = "px-2 py-1 border border-slate-200 rounded text-sm focus:outline-none focus:border-brand-500";
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <h3 className="text-sm font-semibold text-slate-900 mb-4">Organize</h3>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-5">
+          <div>
+            <p className={labelClass}>Category</p>
+            <select
+              value={blog.category}
+              onChange={(e) => onUpdate(blog.id, { category: e.target.value })}
+              className={`${inputClass} w-full cursor-pointer bg-white`}
+            >
+              {/* Keep a category that was since renamed away selectable */}
+              {!categories.includes(blog.category) && <option value={blog.category}>{blog.category}</option>}
+              {categories.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <p className={labelClass}><FolderPlus size={12} /> Collections</p>
+            <div className="flex flex-wrap gap-1.5 mb-2">
+              {collections.length === 0 && <span className="text-xs text-slate-400">No collections yet.</span>}
+              {collections.map(c => {
+                const isMember = blog.collectionIds.includes(c.id);
+                return (
+                  <button
+                    key={c.id}
+                    onClick={() => toggleCollection(c.id)}
+                    className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-all ${isMember ? 'bg-brand-50 border-brand-300 text-brand-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                  >
+                    {c.name}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="flex gap-1.5">
+              <input
+                type="text"
+                placeholder="New collection"
+                value={collectionInput}
+                onChange={(e) => setCollectionInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addToNewCollection()}
+                className={`${inputClass} flex-1`}
+              />
+              <button
+                onClick={addToNewCollection}
+                disabled={!collectionInput.trim()}
+                className="px-2 rounded border border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Create and add"
+              >
+                <Plus size={14} />
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <p className={labelClass}><Tag size={12} /> Your tags</p>
+            <div className="flex flex-wrap gap-1.5 mb-2">
+              {blog.manualTags.map(tag => (
+                <span key={tag} className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded text-xs font-medium bg-brand-50 text-brand-700 border border-brand-200">
+                  {tag}
+                  <button
+                    onClick={() => onUpdate(blog.id, { manualTags: blog.manualTags.filter(t => t !== tag) })}
+                    className="text-brand-400 hover:text-red-600"
+                    title="Remove tag"
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <input
+              type="text"
+              placeholder="Add tags, separated by commas"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addTags()}
+              onBlur={addTags}
+              className={`${inputClass} w-full`}
+            />
+            {blog.tags.length + blog.postTopics.length > 0 && (
+              <p className="text-[11px] text-slate-400 mt-2">Automatic: {[...blog.tags, ...blog.postTopics].join(', ')}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-col">
+          <p className={labelClass}><StickyNote size={12} /> Private notes</p>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            onBlur={saveNotes}
+            placeholder="Only stored in this browser and in JSON backups."
+            className="flex-1 min-h-[10rem] p-3 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:border-brand-500 resize-y"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BlogOrganizer;
@@ -0,0 +1,214 @@
+import React, { useRef, useState } from "react";
+import { Upload, Loader2, CheckCircle2, XCircle, MinusCircle, X, FileText } from "lucide-react";
+import { BlogMetadata } from "../types";
+import { IMPORT_CONCURRENCY } from "../constants";
+import { curateBlog } from "../services/libraryService";
+import { ScoringProfile } from "../services/scoringService";
+import { ClassifierSettings } from "../services/classifierService";
+import { storePostText } from "../services/postSearchService";
+import { findDuplicate } from "../services/duplicateService";
+import { dedupeCandidates, detectImportFormat, ImportFormat, ImportResult, parseImport, runWithConcurrency } from "../services/importService";
+
+interface BulkImportProps {
+  existingBlogs: BlogMetadata[];
+  scoringProfile: ScoringProfile;
+  classifier: ClassifierSettings;
+  onBlogAdded: (blog: BlogMetadata) => void;
+}
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  opml: "OPML",
+  csv: "CSV",
+  list: "URL list"
+};
+
+const BulkImport: React.FC<BulkImportProps> = ({ existingBlogs, scoringProfile, classifier, onBlogAdded }) => {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [parseError, setParseError] = useState('');
+  const controller = useRef<AbortController | null>(null);
+
+  const format = text ? detectImportFormat(text, fileName) : null;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+    setFileName(file.name);
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    if (!text || !format) return;
+    setParseError('');
+    setResults([]);
+
+    let candidates;
+    try {
+      candidates = parseImport(text, format);
+    } catch (err: any) {
+      setParseError(err.message || "Could not read the import file.");
+      return;
+    }
+
+    if (candidates.length === 0) {
+      setParseError(`No blog URLs found in this ${FORMAT_LABELS[format]}.`);
+      return;
+    }
+
+    const { fresh, duplicates } = dedupeCandidates(candidates, existingBlogs.map(b => b.url));
+    setTotal(candidates.length);
+    setResults(duplicates.map(d => ({ url: d.url, title: d.label, outcome: 'duplicate' })));
+    setIsRunning(true);
+    controller.current = new AbortController();
+    const signal = controller.current.signal;
+    // Aliases (a custom domain and its blogspot address, say) only show up as duplicates after fetching
+    const added: BlogMetadata[] = [];
+
+    await runWithConcurrency(fresh, IMPORT_CONCURRENCY, async (candidate) => {
+      let result: ImportResult;
+      try {
+        let postText: Record<string, string> = {};
+        const blog = await curateBlog(candidate.url, { signal, scoringProfile, classifier, onPostText: (_, text) => { postText = text; } });
+        const existing = findDuplicate([...existingBlogs, ...added], blog);
+        if (existing) {
+          result = { url: candidate.url, title: existing.title, outcome: 'duplicate' };
+        } else {
+          added.push(blog);
+          storePostText(blog.id, postText);
+          onBlogAdded(blog);
+          result = { url: candidate.url, title: blog.title, outcome: 'added' };
+        }
+      } catch (err: any) {
+        result = { url: candidate.url, title: candidate.label, outcome: 'failed', error: err.message || "Failed to add blog" };
+      }
+      setResults(prev => [...prev, result]);
+    }, signal);
+
+    setIsRunning(false);
+    controller.current = null;
+  };
+
+  const handleCancel = () => {
+    controller.current?.abort();
+  };
+
+  const reset = () => {
+    setText('');
+    setFileName('');
+    setResults([]);
+    setTotal(0);
+    setParseError('');
+  };
+
+  const counts = {
+    added: results.filter(r => r.outcome === 'added').length,
+    duplicate: results.filter(r => r.outcome === 'duplicate').length,
+    failed: results.filter(r => r.outcome === 'failed').length
+  };
+  const finished = !isRunning && results.length > 0;
+  const notStarted = finished ? total - results.length : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden mt-6">
+      <div className="p-8">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-bold text-slate-800">Bulk Import</h3>
+          {format && (
+            <span className="text-xs font-medium px-2 py-1 bg-slate-100 text-slate-600 rounded">
+              Detected: {FORMAT_LABELS[format]}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-slate-500 mb-4">
+          Paste one URL per line, or load an OPML export from your feed reader or a CSV with a url column.
+          Blogs already in your library are skipped.
+        </p>
+
+        <textarea
+          value={text}
+          onChange={(e) => { setText(e.target.value); setFileName(''); }}
+          placeholder={"googleblog.blogspot.com\nhttps://example.substack.com"}
+          rows={6}
+          disabled={isRunning}
+          className="w-full px-4 py-3 rounded-lg border border-slate-200 focus:border-brand-500 focus:ring-2 focus:ring-brand-200 outline-none transition-all text-slate-700 text-sm font-mono"
+        />
+
+        <div className="flex items-center gap-2 mt-3">
+          <label className={`px-4 py-2 border border-slate-200 rounded-lg text-sm font-medium text-slate-600 flex items-center gap-2 transition-all ${isRunning ? 'opacity-50' : 'hover:bg-slate-50 cursor-pointer'}`}>
+            <FileText size={16} />
+            {fileName || 'Choose file'}
+            <input type="file" accept=".opml,.xml,.csv,.txt" onChange={handleFile} disabled={isRunning} className="hidden" />
+          </label>
+
+          {isRunning ? (
+            <button
+              onClick={handleCancel}
+              className="ml-auto px-4 py-2 border border-slate-200 hover:border-red-200 hover:text-red-600 text-slate-600 text-sm font-medium rounded-lg transition-all flex items-center gap-2"
+            >
+              <X size={16} /> Stop
+            </button>
+          ) : (
+            <>
+              {results.length > 0 && (
+                <button onClick={reset} className="ml-auto px-3 py-2 text-sm text-slate-500 hover:text-slate-700">
+                  Clear
+                </button>
+              )}
+              <button
+                onClick={handleImport}
+                disabled={!text}
+                className={`${results.length > 0 ? '' : 'ml-auto '}px-6 py-2 bg-brand-600 hover:bg-brand-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg transition-all shadow-md flex items-center gap-2`}
+              >
+                <Upload size={16} /> Import
+              </button>
+            </>
+          )}
+        </div>
+
+        {parseError && (
+          <p className="mt-4 text-sm text-red-600">{parseError}</p>
+        )}
+
+        {(isRunning || results.length > 0) && (
+          <div className="mt-6 pt-6 border-t border-slate-100">
+            <div className="flex items-center gap-3 text-sm mb-3">
+              {isRunning && <Loader2 className="animate-spin text-brand-600" size={16} />}
+              <span className="font-medium text-slate-700">{results.length} of {total} processed</span>
+              <span className="ml-auto flex gap-3 text-xs">
+                <span className="text-emerald-600">{counts.added} added</span>
+                <span className="text-slate-500">{counts.duplicate} duplicates</span>
+                <span className="text-red-600">{counts.failed} failed</span>
+                {notStarted > 0 && <span className="text-amber-600">{notStarted} not started</span>}
+              </span>
+            </div>
+            <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden mb-4">
+              <div className="h-full bg-brand-500 transition-all" style={{ width: `${total ? (results.length / total) * 100 : 0}%` }} />
+            </div>
+
+            <ul className="max-h-72 overflow-y-auto divide-y divide-slate-100 text-xs">
+              {results.map((r, i) => (
+                <li key={`${r.url}-${i}`} className="py-2 flex items-start gap-2">
+                  {r.outcome === 'added' && <CheckCircle2 size={14} className="text-emerald-500 shrink-0 mt-0.5" />}
+                  {r.outcome === 'duplicate' && <MinusCircle size={14} className="text-slate-400 shrink-0 mt-0.5" />}
+                  {r.outcome === 'failed' && <XCircle size={14} className="text-red-500 shrink-0 mt-0.5" />}
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-700 truncate">{r.title || r.url.replace('https://', '')}</p>
+                    {r.title && <p className="text-slate-400 truncate">{r.url.replace('https://', '')}</p>}
+                    {r.outcome === 'duplicate' && <p className="text-slate-400">Already in library or listed twice</p>}
+                    {r.error && <p className="text-red-600">{r.error}</p>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BulkImport;
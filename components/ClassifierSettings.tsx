@@ -0,0 +1,106 @@
+import React from "react";
+import { Bot } from "lucide-react";
+import { ClassifierProvider } from "../types";
+import { ClassifierSettings as ClassifierSettingsState, PROVIDER_LABELS } from "../services/classifierService";
+import { OpenAiEndpoint } from "../services/openAiService";
+
+interface ClassifierSettingsProps {
+  settings: ClassifierSettingsState;
+  onChange: (settings: ClassifierSettingsState) => void;
+}
+
+const PROVIDER_DESCRIPTIONS: Record<ClassifierProvider, string> = {
+  gemini: 'Uses gemini-2.5-flash with the GEMINI_API_KEY from .env.local.',
+  openai: 'Any server speaking the OpenAI chat completions API, such as Ollama, LM Studio or OpenAI itself.',
+  heuristic: 'Matches titles, descriptions and post labels against category keywords. Works offline; no summaries.'
+};
+
+const ENDPOINT_FIELDS: { key: keyof OpenAiEndpoint; label: string; placeholder: string; type?: string }[] = [
+  { key: 'baseUrl', label: 'Base URL', placeholder: 'http://localhost:11434/v1' },
+  { key: 'model', label: 'Model', placeholder: 'llama3.1' },
+  { key: 'apiKey', label: 'API key (optional)', placeholder: 'sk-...', type: 'password' },
+];
+
+const ClassifierSettings: React.FC<ClassifierSettingsProps> = ({ settings, onChange }) => (
+  <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+    <div className="flex items-center gap-2 mb-1">
+      <Bot size={18} className="text-brand-600" />
+      <h3 className="text-lg font-bold text-slate-800">Classifier</h3>
+    </div>
+    <p className="text-sm text-slate-500 mb-5">
+      Picks the category, tags, sentiment and summary of new blogs. If an AI provider fails, the offline classifier fills in and the blog is flagged for re-classification.
+    </p>
+
+    <div className="space-y-2">
+      {(Object.keys(PROVIDER_LABELS) as ClassifierProvider[]).map(provider => (
+        <label
+          key={provider}
+          className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all ${settings.provider === provider ? 'border-brand-300 bg-brand-50/50' : 'border-slate-200 hover:bg-slate-50'}`}
+        >
+          <input
+            type="radio"
+            name="classifier-provider"
+            checked={settings.provider === provider}
+            onChange={() => onChange({ ...settings, provider })}
+            className="mt-1 accent-brand-600"
+          />
+          <span>
+            <span className="block text-sm font-medium text-slate-700">
+              {PROVIDER_LABELS[provider]}
+              {provider === 'gemini' && !process.env.API_KEY && <span className="ml-2 text-xs text-amber-600">Key missing</span>}
+            </span>
+            <span className="block text-xs text-slate-500">{PROVIDER_DESCRIPTIONS[provider]}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+
+    {settings.provider === 'openai' && (
+      <div className="mt-4 space-y-2">
+        {ENDPOINT_FIELDS.map(({ key, label, placeholder, type }) => (
+          <div key={key} className="flex items-center justify-between gap-4 text-sm text-slate-600">
+            <span className="shrink-0">{label}</span>
+            <input
+              type={type || 'text'}
+              value={settings.openAi[key]}
+              placeholder={placeholder}
+              onChange={(e) => onChange({ ...settings, openAi: { ...settings.openAi, [key]: e.target.value } })}
+              className="w-72 px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:outline-none focus:border-brand-500"
+            />
+          </div>
+        ))}
+        <p className="text-xs text-slate-400">The key is stored in this browser only. Local servers must allow cross-origin requests (for Ollama, set OLLAMA_ORIGINS).</p>
+      </div>
+    )}
+
+    <div className="mt-6 pt-5 border-t border-slate-100">
+      <label className="flex items-start gap-3 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={settings.postAnalysis.enabled}
+          onChange={(e) => onChange({ ...settings, postAnalysis: { ...settings.postAnalysis, enabled: e.target.checked } })}
+          className="mt-1 accent-brand-600"
+        />
+        <span>
+          <span className="block text-sm font-medium text-slate-700">Analyze individual posts</span>
+          <span className="block text-xs text-slate-500">
+            Summarizes each post and extracts its topics and sentiment when blogs are added or refreshed. Posts already analyzed are only re-sent when their text changes; topics shared by several posts show up next to the blog's tags and follow its latest posts.
+          </span>
+        </span>
+      </label>
+      <div className={`flex items-center justify-between text-sm text-slate-600 mt-3 ml-7 ${settings.postAnalysis.enabled ? '' : 'opacity-50'}`}>
+        <span>New posts analyzed per refresh</span>
+        <input
+          type="number"
+          min={1}
+          value={settings.postAnalysis.postsPerRefresh}
+          disabled={!settings.postAnalysis.enabled}
+          onChange={(e) => onChange({ ...settings, postAnalysis: { ...settings.postAnalysis, postsPerRefresh: Math.max(1, Number(e.target.value) || 1) } })}
+          className="w-20 px-2 py-1 border border-slate-200 rounded text-right text-sm focus:outline-none focus:border-brand-500"
+        />
+      </div>
+    </div>
+  </div>
+);
+
+export default ClassifierSettings;
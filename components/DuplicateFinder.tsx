@@ -0,0 +1,90 @@
+import React, { useState } from "react";
+import { Copy, Merge, CheckCircle2 } from "lucide-react";
+import { BlogMetadata } from "../types";
+import { findDuplicateGroups } from "../services/duplicateService";
+
+interface DuplicateFinderProps {
+  blogs: BlogMetadata[];
+  onMerge: (keptId: string, duplicateIds: string[]) => void;
+}
+
+const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ blogs, onMerge }) => {
+  // Entry to keep per group, keyed by the group's oldest entry; defaults to that oldest entry
+  const [keptByGroup, setKeptByGroup] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState('');
+
+  const groups = findDuplicateGroups(blogs);
+
+  const mergeGroup = (group: BlogMetadata[]) => {
+    const keptId = keptByGroup[group[0].id] || group[0].id;
+    onMerge(keptId, group.filter(b => b.id !== keptId).map(b => b.id));
+  };
+
+  const handleMergeAll = () => {
+    const removed = groups.reduce((sum, g) => sum + g.length - 1, 0);
+    if (!confirm(`Merge ${groups.length} groups, removing ${removed} duplicate entries?`)) return;
+    groups.forEach(mergeGroup);
+    setMessage(`Merged ${groups.length} groups; ${removed} duplicate entries removed.`);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-sm border border-slate-200 p-8">
+      <div className="flex items-start justify-between gap-4 mb-1">
+        <h3 className="text-lg font-bold text-slate-800">Duplicates</h3>
+        {groups.length > 1 && (
+          <button
+            onClick={handleMergeAll}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-200 text-slate-600 hover:bg-slate-50 flex items-center gap-1.5 transition-all"
+          >
+            <Merge size={14} /> Merge all
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-slate-500 mb-6">
+        Entries count as the same blog when their addresses match after normalization (http/https, www, country domains, feed paths) or their feeds report the same blog id. Ids are recorded on each refresh, so refresh older entries to catch custom-domain aliases.
+      </p>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-slate-500 flex items-center gap-2">
+          <CheckCircle2 size={16} className="text-emerald-600" /> {message || 'No duplicates found.'}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => {
+            const keptId = keptByGroup[group[0].id] || group[0].id;
+            return (
+              <div key={group[0].id} className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+                <div className="space-y-2 mb-3">
+                  {group.map(blog => (
+                    <label key={blog.id} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={keptId === blog.id}
+                        onChange={() => setKeptByGroup({ ...keptByGroup, [group[0].id]: blog.id })}
+                        className="mt-1 accent-brand-600"
+                      />
+                      <span className="min-w-0">
+                        <span className="font-medium text-slate-700">{blog.title}</span>
+                        <span className="block text-xs text-slate-500 truncate">
+                          {blog.url} • added {new Date(blog.addedAt).toLocaleDateString()} • {blog.posts.length} posts stored
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                <button
+                  onClick={() => mergeGroup(group)}
+                  className="px-3 py-1.5 bg-brand-600 hover:bg-brand-700 text-white text-sm font-medium rounded-lg transition-all flex items-center gap-1.5"
+                >
+                  <Copy size={14} /> Merge into selected
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateFinder;
@@ -0,0 +1,226 @@
+import React, { useState } from "react";
+import { Bookmark, X, RotateCcw, ArrowDownWideNarrow, ArrowUpNarrowWide } from "lucide-react";
+import { Collection } from "../services/organizationService";
+import { BlogFilter, BlogSort, NumericRange, RANGE_FIELDS, RangeField, SavedSearch, SORT_FIELDS, SortField } from "../services/searchService";
+
+interface FilterPanelProps {
+  filter: BlogFilter;
+  sort: BlogSort;
+  languages: string[];
+  collections: Collection[];
+  savedSearches: SavedSearch[];
+  onFilterChange: (filter: BlogFilter) => void;
+  onSortChange: (sort: BlogSort) => void;
+  onReset: () => void;
+  onSaveSearch: (name: string) => void;
+  onApplySearch: (search: SavedSearch) => void;
+  onDeleteSearch: (id: string) => void;
+}
+
+const parseTagList = (value: string) => value.split(',').map(t => t.trim()).filter(Boolean);
+
+const parseBound = (value: string): number | undefined => value === '' || isNaN(Number(value)) ? undefined : Number(value);
+
+const FilterPanel: React.FC<FilterPanelProps> = ({
+  filter, sort, languages, collections, savedSearches,
+  onFilterChange, onSortChange, onReset, onSaveSearch, onApplySearch, onDeleteSearch
+}) => {
+  const [searchName, setSearchName] = useState('');
+  // Tag inputs keep their raw text so typing a comma doesn't get swallowed
+  const [includeText, setIncludeText] = useState(filter.includeTags.join(', '));
+  const [excludeText, setExcludeText] = useState(filter.excludeTags.join(', '));
+
+  const setRange = (field: RangeField, range: NumericRange) =>
+    onFilterChange({ ...filter, ranges: { ...filter.ranges, [field]: range } });
+
+  const handleSave = () => {
+    if (!searchName.trim()) return;
+    onSaveSearch(searchName.trim());
+    setSearchName('');
+  };
+
+  const handleApply = (search: SavedSearch) => {
+    setIncludeText(search.filter.includeTags.join(', '));
+    setExcludeText(search.filter.excludeTags.join(', '));
+    onApplySearch(search);
+  };
+
+  const handleReset = () => {
+    setIncludeText('');
+    setExcludeText('');
+    onReset();
+  };
+
+  const inputClass = "px-2 py-1 border border-slate-200 rounded text-sm focus:outline-none focus:border-brand-500 bg-white";
+  const labelClass = "block text-[10px] uppercase tracking-wide font-semibold text-slate-400 mb-1";
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-5 mb-6 space-y-5">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {RANGE_FIELDS.map(({ field, label }) => {
+          const range = filter.ranges[field] || {};
+          return (
+            <div key={field}>
+              <span className={labelClass}>{label}</span>
+              <div className="flex items-center gap-1.5">
+                <input
+                  type="number"
+                  placeholder="min"
+                  value={range.min ?? ''}
+                  onChange={(e) => setRange(field, { ...range, min: parseBound(e.target.value) })}
+                  className={`${inputClass} w-full`}
+                />
+                <span className="text-slate-300">–</span>
+                <input
+                  type="number"
+                  placeholder="max"
+                  value={range.max ?? ''}
+                  onChange={(e) => setRange(field, { ...range, max: parseBound(e.target.value) })}
+                  className={`${inputClass} w-full`}
+                />
+              </div>
+            </div>
+          );
+        })}
+
+        <div>
+          <span className={labelClass}>Last post between</span>
+          <div className="flex items-center gap-1.5">
+            <input
+              type="date"
+              value={filter.lastPostFrom || ''}
+              onChange={(e) => onFilterChange({ ...filter, lastPostFrom: e.target.value || undefined })}
+              className={`${inputClass} w-full`}
+            />
+            <span className="text-slate-300">–</span>
+            <input
+              type="date"
+              value={filter.lastPostTo || ''}
+              onChange={(e) => onFilterChange({ ...filter, lastPostTo: e.target.value || undefined })}
+              className={`${inputClass} w-full`}
+            />
+          </div>
+        </div>
+
+        <div>
+          <span className={labelClass}>Language</span>
+          <select
+            value={filter.language}
+            onChange={(e) => onFilterChange({ ...filter, language: e.target.value })}
+            className={`${inputClass} w-full cursor-pointer`}
+          >
+            <option value="All">Any language</option>
+            {languages.map(l => <option key={l} value={l}>{l}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <span className={labelClass}>Collection</span>
+          <select
+            value={filter.collectionId}
+            onChange={(e) => onFilterChange({ ...filter, collectionId: e.target.value })}
+            className={`${inputClass} w-full cursor-pointer`}
+          >
+            <option value="All">Any collection</option>
+            {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <span className={labelClass}>With all tags</span>
+          <input
+            type="text"
+            placeholder="e.g. python, tutorials"
+            value={includeText}
+            onChange={(e) => setIncludeText(e.target.value)}
+            onBlur={() => onFilterChange({ ...filter, includeTags: parseTagList(includeText) })}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+
+        <div>
+          <span className={labelClass}>Without tags</span>
+          <input
+            type="text"
+            placeholder="e.g. sponsored"
+            value={excludeText}
+            onChange={(e) => setExcludeText(e.target.value)}
+            onBlur={() => onFilterChange({ ...filter, excludeTags: parseTagList(excludeText) })}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-slate-100">
+        <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={filter.favoritesOnly}
+            onChange={(e) => onFilterChange({ ...filter, favoritesOnly: e.target.checked })}
+            className="accent-brand-600"
+          />
+          Favorites only
+        </label>
+
+        <div className="flex items-center gap-1.5 text-sm text-slate-600">
+          <span>Sort by</span>
+          <select
+            value={sort.field}
+            onChange={(e) => onSortChange({ ...sort, field: e.target.value as SortField })}
+            className={`${inputClass} cursor-pointer`}
+          >
+            {SORT_FIELDS.map(({ field, label }) => <option key={field} value={field}>{label}</option>)}
+          </select>
+          <button
+            onClick={() => onSortChange({ ...sort, descending: !sort.descending })}
+            className="p-1.5 rounded border border-slate-200 text-slate-500 hover:bg-slate-50"
+            title={sort.descending ? 'Descending' : 'Ascending'}
+          >
+            {sort.descending ? <ArrowDownWideNarrow size={14} /> : <ArrowUpNarrowWide size={14} />}
+          </button>
+        </div>
+
+        <button
+          onClick={handleReset}
+          className="flex items-center gap-1 text-sm text-slate-500 hover:text-brand-600 transition-colors"
+        >
+          <RotateCcw size={14} /> Reset
+        </button>
+
+        <div className="ml-auto flex items-center gap-1.5">
+          <input
+            type="text"
+            placeholder="Name this search"
+            value={searchName}
+            onChange={(e) => setSearchName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            className={`${inputClass} w-44`}
+          />
+          <button
+            onClick={handleSave}
+            disabled={!searchName.trim()}
+            className="px-3 py-1 rounded text-sm font-medium bg-brand-600 hover:bg-brand-700 text-white disabled:bg-slate-300 disabled:cursor-not-allowed flex items-center gap-1.5 transition-all"
+          >
+            <Bookmark size={14} /> Save
+          </button>
+        </div>
+      </div>
+
+      {savedSearches.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-400">Saved:</span>
+          {savedSearches.map(search => (
+            <span key={search.id} className="inline-flex items-center rounded-full bg-slate-100 text-slate-600 text-xs font-medium border border-slate-200">
+              <button onClick={() => handleApply(search)} className="pl-3 pr-1.5 py-1 hover:text-brand-700">{search.name}</button>
+              <button onClick={() => onDeleteSearch(search.id)} className="pr-2 py-1 text-slate-400 hover:text-red-600" title="Delete saved search">
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterPanel;
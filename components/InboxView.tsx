@@ -0,0 +1,128 @@
+import React, { useState } from "react";
+import { Inbox, ExternalLink, Bell, BellOff, CheckCheck, Circle, MessageSquare } from "lucide-react";
+import { BlogMetadata, InboxEntry } from "../types";
+import { notificationsSupported } from "../services/inboxService";
+
+interface InboxViewProps {
+  entries: InboxEntry[];
+  blogs: BlogMetadata[];
+  notificationsEnabled: boolean;
+  onToggleNotifications: () => void;
+  onSetRead: (ids: string[], isRead: boolean) => void;
+}
+
+type Scope = 'favorites' | 'all';
+
+const InboxView: React.FC<InboxViewProps> = ({ entries, blogs, notificationsEnabled, onToggleNotifications, onSetRead }) => {
+  const [scope, setScope] = useState<Scope>('all');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+
+  const blogsById = new Map<string, BlogMetadata>(blogs.map(b => [b.id, b]));
+  const visible = entries.filter(entry => {
+    const blog = blogsById.get(entry.blogId);
+    if (!blog) return false;
+    if (scope === 'favorites' && !blog.isFavorite) return false;
+    return !unreadOnly || !entry.isRead;
+  });
+  const unreadVisible = visible.filter(e => !e.isRead);
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-md text-sm font-medium transition-all ${active ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`;
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex bg-slate-100 p-1 rounded-lg">
+          <button onClick={() => setScope('all')} className={tabClass(scope === 'all')}>All Blogs</button>
+          <button onClick={() => setScope('favorites')} className={tabClass(scope === 'favorites')}>Favorites</button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={unreadOnly} onChange={(e) => setUnreadOnly(e.target.checked)} className="accent-brand-600" />
+          Unread only
+        </label>
+        <div className="ml-auto flex items-center gap-2">
+          {notificationsSupported() && (
+            <button
+              onClick={onToggleNotifications}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium border flex items-center gap-1.5 transition-all ${notificationsEnabled ? 'border-brand-200 bg-brand-50 text-brand-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+              title="Browser notifications when favorite blogs publish"
+            >
+              {notificationsEnabled ? <Bell size={14} /> : <BellOff size={14} />}
+              Favorite alerts
+            </button>
+          )}
+          <button
+            onClick={() => onSetRead(unreadVisible.map(e => e.id), true)}
+            disabled={unreadVisible.length === 0}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5 transition-all"
+          >
+            <CheckCheck size={14} /> Mark all read
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-center">
+          <div className="w-24 h-24 bg-slate-100 rounded-full flex items-center justify-center mb-4 text-slate-300">
+            <Inbox size={40} />
+          </div>
+          <h3 className="text-lg font-bold text-slate-700">Nothing new</h3>
+          <p className="text-slate-500 max-w-md mt-2">
+            Posts published since a blog's last check show up here after it is refreshed.
+          </p>
+        </div>
+      ) : (
+        <ul className="bg-white rounded-xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+          {visible.map(entry => {
+            const blog = blogsById.get(entry.blogId)!;
+            return (
+              <li key={entry.id} className={`p-4 flex items-start gap-3 ${entry.isRead ? '' : 'bg-brand-50/30'}`}>
+                <button
+                  onClick={() => onSetRead([entry.id], !entry.isRead)}
+                  className="mt-1.5 shrink-0"
+                  title={entry.isRead ? 'Mark as unread' : 'Mark as read'}
+                >
+                  <Circle size={10} className={entry.isRead ? 'text-slate-300' : 'text-brand-500'} fill={entry.isRead ? 'none' : 'currentColor'} />
+                </button>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 text-xs text-slate-500 mb-0.5">
+                    <span className="font-medium text-slate-600 truncate">{blog.title}</span>
+                    <span>•</span>
+                    <span className="shrink-0">{new Date(entry.post.pubDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                  </div>
+                  <a
+                    href={entry.post.link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={() => !entry.isRead && onSetRead([entry.id], true)}
+                    className={`block hover:text-brand-700 hover:underline ${entry.isRead ? 'text-slate-600' : 'font-semibold text-slate-800'}`}
+                  >
+                    {entry.post.title}
+                  </a>
+                  <p className="text-sm text-slate-500 line-clamp-2 mt-1">{entry.post.snippet}</p>
+                  <div className="flex items-center gap-3 text-xs text-slate-400 mt-2">
+                    <span>{entry.post.wordCount} words</span>
+                    {entry.post.commentCount > 0 && (
+                      <span className="flex items-center gap-1"><MessageSquare size={10} /> {entry.post.commentCount}</span>
+                    )}
+                    <a
+                      href={entry.post.link}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={() => !entry.isRead && onSetRead([entry.id], true)}
+                      className="ml-auto flex items-center gap-1 text-brand-600 font-medium hover:text-brand-700"
+                    >
+                      Read <ExternalLink size={10} />
+                    </a>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default InboxView;
@@ -0,0 +1,157 @@
+import React, { useState } from "react";
+import { Download, Upload, FileJson, FileSpreadsheet, Rss, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { BlogMetadata } from "../types";
+import { createBackup, downloadFile, exportCsv, exportOpml, LibraryBackup, parseBackup, restoreBackup, RestoreMode, restoreOrganization } from "../services/exportService";
+import { OrganizationSettings } from "../services/organizationService";
+
+interface LibraryDataProps {
+  blogs: BlogMetadata[];
+  organization: OrganizationSettings;
+  onRestore: (blogs: BlogMetadata[], organization: OrganizationSettings) => void;
+}
+
+const dateStamp = () => new Date().toISOString().slice(0, 10);
+
+const LibraryData: React.FC<LibraryDataProps> = ({ blogs, organization, onRestore }) => {
+  const [pendingBackup, setPendingBackup] = useState<LibraryBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const exports = [
+    {
+      label: 'OPML',
+      hint: 'Subscribe in any feed reader',
+      icon: Rss,
+      run: () => downloadFile(`blogspotter-${dateStamp()}.opml`, exportOpml(blogs), 'text/x-opml')
+    },
+    {
+      label: 'CSV',
+      hint: 'One row per blog with stats and scores',
+      icon: FileSpreadsheet,
+      run: () => downloadFile(`blogspotter-${dateStamp()}.csv`, exportCsv(blogs), 'text/csv')
+    },
+    {
+      label: 'JSON Backup',
+      hint: 'Everything, including history and collections; can be restored',
+      icon: FileJson,
+      run: () => downloadFile(`blogspotter-backup-${dateStamp()}.json`, createBackup(blogs, organization), 'application/json')
+    }
+  ];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    setMessage('');
+    try {
+      setPendingBackup(parseBackup(await file.text()));
+    } catch (err: any) {
+      setPendingBackup(null);
+      setError(err.message || "Could not read backup.");
+    }
+  };
+
+  const handleRestore = () => {
+    if (!pendingBackup) return;
+    if (mode === 'replace' && !confirm(`Replace your library of ${blogs.length} blogs with the ${pendingBackup.blogs.length} blogs in this backup?`)) {
+      return;
+    }
+    const restored = restoreBackup(blogs, pendingBackup, mode);
+    onRestore(restored, restoreOrganization(organization, pendingBackup, mode));
+    setMessage(mode === 'replace'
+      ? `Library replaced with ${restored.length} blogs.`
+      : `Merged backup: library now has ${restored.length} blogs (${restored.length - blogs.length} new).`);
+    setPendingBackup(null);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-slate-800 mb-2">Import & Export</h2>
+        <p className="text-slate-500">Take your library to a feed reader or spreadsheet, or back it up and restore it later.</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8">
+        <h3 className="text-lg font-bold text-slate-800 mb-1">Export Library</h3>
+        <p className="text-sm text-slate-500 mb-6">{blogs.length} blogs will be exported.</p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {exports.map(({ label, hint, icon: Icon, run }) => (
+            <button
+              key={label}
+              onClick={run}
+              disabled={blogs.length === 0}
+              className="p-4 border border-slate-200 rounded-lg text-left hover:border-brand-300 hover:bg-brand-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              <div className="flex items-center gap-2 font-medium text-slate-700 mb-1">
+                <Icon size={16} className="text-brand-600" /> {label}
+                <Download size={14} className="ml-auto text-slate-400" />
+              </div>
+              <p className="text-xs text-slate-500">{hint}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8">
+        <h3 className="text-lg font-bold text-slate-800 mb-1">Restore from Backup</h3>
+        <p className="text-sm text-slate-500 mb-6">Load a JSON backup created by BlogSpotter.</p>
+
+        <label className="inline-flex px-4 py-2 border border-slate-200 rounded-lg text-sm font-medium text-slate-600 items-center gap-2 hover:bg-slate-50 cursor-pointer transition-all">
+          <Upload size={16} /> Choose backup file
+          <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        </label>
+
+        {pendingBackup && (
+          <div className="mt-6 p-4 bg-slate-50 rounded-lg border border-slate-200">
+            <p className="text-sm text-slate-700 mb-4">
+              Backup from <span className="font-medium">{new Date(pendingBackup.exportedAt).toLocaleString()}</span> with{' '}
+              <span className="font-medium">{pendingBackup.blogs.length}</span> blogs.
+            </p>
+            <div className="space-y-2 mb-4">
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1 accent-brand-600" />
+                <span>
+                  <span className="font-medium text-slate-700">Merge</span>
+                  <span className="block text-xs text-slate-500">Add new blogs and combine existing ones: the latest fetched data, with tags, notes, collections and history from both copies.</span>
+                </span>
+              </label>
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1 accent-brand-600" />
+                <span>
+                  <span className="font-medium text-slate-700">Replace</span>
+                  <span className="block text-xs text-slate-500">Discard the current library and use the backup as-is.</span>
+                </span>
+              </label>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleRestore}
+                className="px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white text-sm font-medium rounded-lg transition-all shadow-md"
+              >
+                Restore
+              </button>
+              <button onClick={() => setPendingBackup(null)} className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 bg-red-50 border border-red-100 rounded-lg p-3 flex items-start gap-2 text-sm text-red-700">
+            <AlertTriangle className="shrink-0 mt-0.5" size={16} /> {error}
+          </div>
+        )}
+        {message && (
+          <div className="mt-4 bg-emerald-50 border border-emerald-100 rounded-lg p-3 flex items-start gap-2 text-sm text-emerald-700">
+            <CheckCircle2 className="shrink-0 mt-0.5" size={16} /> {message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryData;
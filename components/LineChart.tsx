@@ -0,0 +1,53 @@
+import React from "react";
+
+interface LineChartProps {
+  points: { label: string; value: number }[];
+  height?: number;
+  className?: string;
+}
+
+const WIDTH = 600;
+
+const LineChart: React.FC<LineChartProps> = ({ points, height = 160, className = "text-brand-500" }) => {
+  if (points.length < 2) {
+    return <div className="text-xs text-slate-400 py-10 text-center">Not enough data</div>;
+  }
+
+  const values = points.map(p => p.value);
+  const max = Math.max(...values, 1);
+  const padding = 4;
+  const coords = points.map((p, i) => ({
+    x: padding + (i / (points.length - 1)) * (WIDTH - padding * 2),
+    y: height - padding - (p.value / max) * (height - padding * 2),
+    point: p
+  }));
+  const avg = values.reduce((a, b) => a + b, 0) / values.length;
+  const avgY = height - padding - (avg / max) * (height - padding * 2);
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} preserveAspectRatio="none" className={`w-full ${className}`} style={{ height }}>
+        <line x1={0} x2={WIDTH} y1={avgY} y2={avgY} stroke="#cbd5e1" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+        <polyline
+          points={coords.map(c => `${c.x},${c.y}`).join(" ")}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+        {coords.map((c, i) => (
+          <circle key={i} cx={c.x} cy={c.y} r={3} fill="currentColor" vectorEffect="non-scaling-stroke">
+            <title>{`${c.point.label}: ${c.point.value}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+        <span>max {Math.round(max)}</span>
+        <span>avg {Math.round(avg * 10) / 10}</span>
+      </div>
+    </div>
+  );
+};
+
+export default LineChart;
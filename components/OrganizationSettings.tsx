@@ -0,0 +1,138 @@
+import React, { useState } from "react";
+import { FolderTree, Pencil, Trash2, Plus } from "lucide-react";
+import { BlogMetadata } from "../types";
+import { createCollection, OrganizationSettings as OrganizationSettingsState, validateCategoryName } from "../services/organizationService";
+
+interface OrganizationSettingsProps {
+  settings: OrganizationSettingsState;
+  blogs: BlogMetadata[];
+  onChange: (settings: OrganizationSettingsState) => void;
+  onRenameCategory: (from: string, to: string) => void;
+  onRemoveCategory: (category: string) => void;
+  onRemoveCollection: (id: string) => void;
+}
+
+const OrganizationSettings: React.FC<OrganizationSettingsProps> = ({ settings, blogs, onChange, onRenameCategory, onRemoveCategory, onRemoveCollection }) => {
+  const [categoryInput, setCategoryInput] = useState('');
+  const [collectionInput, setCollectionInput] = useState('');
+  const [error, setError] = useState('');
+
+  const categoryCount = (category: string) => blogs.filter(b => b.category === category).length;
+  const collectionCount = (id: string) => blogs.filter(b => b.collectionIds.includes(id)).length;
+
+  const run = (action: () => void) => {
+    try {
+      action();
+      setError('');
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleAddCategory = () => run(() => {
+    const name = validateCategoryName(settings, categoryInput);
+    onChange({ ...settings, customCategories: [...settings.customCategories, name] });
+    setCategoryInput('');
+  });
+
+  const handleRenameCategory = (category: string) => {
+    const name = prompt(`Rename "${category}" to:`, category);
+    if (name === null || name.trim() === category) return;
+    run(() => onRenameCategory(category, validateCategoryName(settings, name, category)));
+  };
+
+  const handleRemoveCategory = (category: string) => {
+    const count = categoryCount(category);
+    if (count > 0 && !confirm(`Delete "${category}"? Its ${count} blog${count === 1 ? '' : 's'} will move to Other.`)) return;
+    onRemoveCategory(category);
+  };
+
+  const handleAddCollection = () => {
+    if (!collectionInput.trim()) return;
+    onChange({ ...settings, collections: [...settings.collections, createCollection(collectionInput)] });
+    setCollectionInput('');
+  };
+
+  const handleRenameCollection = (id: string, current: string) => {
+    const name = prompt(`Rename "${current}" to:`, current);
+    if (!name?.trim()) return;
+    onChange({ ...settings, collections: settings.collections.map(c => c.id === id ? { ...c, name: name.trim() } : c) });
+  };
+
+  const handleRemoveCollection = (id: string, name: string) => {
+    if (!confirm(`Delete the "${name}" collection? The blogs in it are kept.`)) return;
+    onRemoveCollection(id);
+  };
+
+  const rowClass = "flex items-center justify-between gap-3 py-1.5 text-sm text-slate-600";
+  const iconButton = "p-1 rounded text-slate-400 hover:text-brand-600 hover:bg-slate-50";
+  const inputClass = "flex-1 px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:outline-none focus:border-brand-500";
+
+  const renderAddRow = (value: string, setValue: (v: string) => void, onAdd: () => void, placeholder: string) => (
+    <div className="flex gap-2 mt-3">
+      <input
+        type="text"
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && onAdd()}
+        className={inputClass}
+      />
+      <button
+        onClick={onAdd}
+        disabled={!value.trim()}
+        className="px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+      >
+        <Plus size={14} /> Add
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <FolderTree size={18} className="text-brand-600" />
+        <h3 className="text-lg font-bold text-slate-800">Categories & Collections</h3>
+      </div>
+      <p className="text-sm text-slate-500 mb-5">
+        Custom categories are assigned by hand from a blog's page and are never replaced by re-classification. A blog can belong to any number of collections.
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div>
+          <h4 className="text-sm font-semibold text-slate-900 mb-2">Custom categories</h4>
+          {settings.customCategories.length === 0 && <p className="text-xs text-slate-400">None yet.</p>}
+          {settings.customCategories.map(category => (
+            <div key={category} className={rowClass}>
+              <span className="truncate">{category} <span className="text-xs text-slate-400">({categoryCount(category)})</span></span>
+              <span className="flex shrink-0">
+                <button onClick={() => handleRenameCategory(category)} className={iconButton} title="Rename"><Pencil size={14} /></button>
+                <button onClick={() => handleRemoveCategory(category)} className={`${iconButton} hover:text-red-600`} title="Delete"><Trash2 size={14} /></button>
+              </span>
+            </div>
+          ))}
+          {renderAddRow(categoryInput, setCategoryInput, handleAddCategory, 'New category')}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-slate-900 mb-2">Collections</h4>
+          {settings.collections.length === 0 && <p className="text-xs text-slate-400">None yet.</p>}
+          {settings.collections.map(c => (
+            <div key={c.id} className={rowClass}>
+              <span className="truncate">{c.name} <span className="text-xs text-slate-400">({collectionCount(c.id)})</span></span>
+              <span className="flex shrink-0">
+                <button onClick={() => handleRenameCollection(c.id, c.name)} className={iconButton} title="Rename"><Pencil size={14} /></button>
+                <button onClick={() => handleRemoveCollection(c.id, c.name)} className={`${iconButton} hover:text-red-600`} title="Delete"><Trash2 size={14} /></button>
+              </span>
+            </div>
+          ))}
+          {renderAddRow(collectionInput, setCollectionInput, handleAddCollection, 'New collection')}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrganizationSettings;
@@ -0,0 +1,142 @@
+import React from "react";
+import { Radar, ExternalLink } from "lucide-react";
+import { PageSignals, ScrapeConfidence, ScrapedValue } from "../types";
+
+interface PageSignalsPanelProps {
+  signals?: PageSignals;
+}
+
+const CONFIDENCE_STYLES: Record<ScrapeConfidence, string> = {
+  high: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  medium: 'bg-amber-50 text-amber-700 border-amber-100',
+  low: 'bg-slate-100 text-slate-500 border-slate-200'
+};
+
+const COMMENT_SYSTEM_LABELS: Record<PageSignals['commentSystem']['value'], string> = {
+  blogger: 'Blogger',
+  disqus: 'Disqus',
+  wordpress: 'WordPress',
+  facebook: 'Facebook',
+  utterances: 'utterances',
+  giscus: 'giscus',
+  none: 'None found',
+  unknown: 'Unknown'
+};
+
+const Provenance: React.FC<{ scraped: ScrapedValue<unknown> }> = ({ scraped }) => (
+  <span className="text-[11px] text-slate-400 flex items-center gap-1.5 mt-0.5">
+    {scraped.source}
+    <span className={`px-1.5 rounded border font-medium ${CONFIDENCE_STYLES[scraped.confidence]}`}>{scraped.confidence}</span>
+  </span>
+);
+
+const PageSignalsPanel: React.FC<PageSignalsPanelProps> = ({ signals }) => {
+  const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400 mb-1";
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-900 flex items-center gap-1.5">
+          <Radar size={14} className="text-brand-600" /> Page signals
+        </h3>
+        {signals && <span className="text-xs text-slate-400">Scraped {new Date(signals.scrapedAt).toLocaleDateString()}</span>}
+      </div>
+
+      {!signals ? (
+        <p className="text-sm text-slate-500">Not scraped yet. Refresh the blog to read its homepage widgets.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 text-sm text-slate-700">
+          <div>
+            <p className={labelClass}>Followers</p>
+            {signals.followers ? (
+              <>
+                <p className="font-bold text-slate-800">{signals.followers.value.toLocaleString()}</p>
+                <Provenance scraped={signals.followers} />
+              </>
+            ) : (
+              <p className="text-slate-500">Unknown — no follower widget on the homepage</p>
+            )}
+          </div>
+
+          <div>
+            <p className={labelClass}>Comments</p>
+            <p className="font-bold text-slate-800">{COMMENT_SYSTEM_LABELS[signals.commentSystem.value]}</p>
+            <Provenance scraped={signals.commentSystem} />
+          </div>
+
+          <div>
+            <p className={labelClass}>Profile</p>
+            {signals.profileUrl ? (
+              <>
+                <a href={signals.profileUrl.value} target="_blank" rel="noopener noreferrer" className="text-brand-600 hover:underline inline-flex items-center gap-1">
+                  Blogger profile <ExternalLink size={12} />
+                </a>
+                <Provenance scraped={signals.profileUrl} />
+              </>
+            ) : (
+              <p className="text-slate-500">None found</p>
+            )}
+          </div>
+
+          <div>
+            <p className={labelClass}>Social profiles</p>
+            {signals.socialProfiles.length === 0 && <p className="text-slate-500">None linked</p>}
+            <div className="flex flex-wrap gap-1.5">
+              {signals.socialProfiles.map(s => (
+                <a
+                  key={s.network}
+                  href={s.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={s.url}
+                  className="px-2 py-0.5 rounded text-xs font-medium bg-slate-50 text-slate-600 border border-slate-200 hover:border-brand-300 hover:text-brand-700"
+                >
+                  {s.network}
+                </a>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className={labelClass}>Archive widget</p>
+            {signals.archiveCounts ? (
+              <>
+                <ul className="text-xs space-y-0.5 max-h-32 overflow-y-auto">
+                  {signals.archiveCounts.value.map(a => (
+                    <li key={a.label} className="flex justify-between gap-3">
+                      <span className="truncate">{a.label}</span>
+                      <span className="tabular-nums text-slate-500">{a.count}</span>
+                    </li>
+                  ))}
+                </ul>
+                <Provenance scraped={signals.archiveCounts} />
+              </>
+            ) : (
+              <p className="text-slate-500">None found</p>
+            )}
+          </div>
+
+          <div>
+            <p className={labelClass}>Popular posts</p>
+            {signals.popularPosts ? (
+              <>
+                <ol className="text-xs space-y-0.5 list-decimal list-inside">
+                  {signals.popularPosts.value.map(p => (
+                    <li key={p.url} className="truncate">
+                      <a href={p.url} target="_blank" rel="noopener noreferrer" className="hover:text-brand-600">{p.title}</a>
+                    </li>
+                  ))}
+                </ol>
+                <Provenance scraped={signals.popularPosts} />
+              </>
+            ) : (
+              <p className="text-slate-500">None found</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PageSignalsPanel;
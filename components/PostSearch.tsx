@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { FileSearch, Search, ExternalLink, Loader2 } from "lucide-react";
+import { BlogMetadata } from "../types";
+import { loadPostText } from "../services/storageService";
+import { buildPostIndex, highlightTerms, POST_SEARCH_LIMIT, queryTerms, searchPosts } from "../services/postSearchService";
+
+interface PostSearchProps {
+  blogs: BlogMetadata[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  onOpenBlog: (id: string) => void;
+}
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {highlightTerms(text, terms).map((segment, i) =>
+      segment.match
+        ? <mark key={i} className="bg-amber-100 text-inherit rounded px-0.5">{segment.text}</mark>
+        : <React.Fragment key={i}>{segment.text}</React.Fragment>
+    )}
+  </>
+);
+
+const PostSearch: React.FC<PostSearchProps> = ({ blogs, query, onQueryChange, onOpenBlog }) => {
+  const [postText, setPostText] = useState<Record<string, Record<string, string>> | null>(null);
+
+  // Read on every visit so bodies saved by refreshes since the last visit are searchable
+  useEffect(() => {
+    loadPostText()
+      .then(setPostText)
+      .catch(e => {
+        console.error("Failed to load post text", e);
+        setPostText({});
+      });
+  }, []);
+
+  const index = useMemo(() => postText ? buildPostIndex(blogs, postText) : null, [blogs, postText]);
+  const hits = useMemo(() => index ? searchPosts(index, query) : [], [index, query]);
+  const terms = queryTerms(query);
+  const blogsById = new Map<string, BlogMetadata>(blogs.map(b => [b.id, b]));
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <div className="relative group">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-brand-500 transition-colors" size={18} />
+        <input
+          type="text"
+          autoFocus
+          placeholder="Search post titles and text across all blogs..."
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          className="pl-10 pr-4 py-2.5 w-full bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-brand-500 focus:ring-2 focus:ring-brand-100 transition-all shadow-sm"
+        />
+      </div>
+
+      {!index ? (
+        <div className="flex items-center gap-2 text-sm text-slate-500 py-8 justify-center">
+          <Loader2 className="animate-spin" size={16} /> Building search index...
+        </div>
+      ) : terms.length === 0 || hits.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-center">
+          <div className="w-24 h-24 bg-slate-100 rounded-full flex items-center justify-center mb-4 text-slate-300">
+            <FileSearch size={40} />
+          </div>
+          <h3 className="text-lg font-bold text-slate-700">{terms.length === 0 ? 'Search your posts' : 'No matching posts'}</h3>
+          <p className="text-slate-500 max-w-md mt-2">
+            {index.docs.length.toLocaleString()} posts indexed. Full text is available for posts fetched since search was added; older posts match on their title and excerpt until their blog is refreshed.
+          </p>
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-slate-400">
+            {hits.length === POST_SEARCH_LIMIT ? `Top ${POST_SEARCH_LIMIT}` : hits.length} matching post{hits.length === 1 ? '' : 's'}
+          </p>
+          <ul className="bg-white rounded-xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+            {hits.map(hit => {
+              const blog = blogsById.get(hit.blogId)!;
+              return (
+                <li key={`${hit.blogId}-${hit.post.guid}`} className="p-4">
+                  <div className="flex items-center gap-2 text-xs text-slate-500 mb-0.5">
+                    <button
+                      onClick={() => onOpenBlog(blog.id)}
+                      className="font-medium text-slate-600 truncate hover:text-brand-700 hover:underline"
+                    >
+                      {blog.title}
+                    </button>
+                    <span>•</span>
+                    <span className="shrink-0">{new Date(hit.post.pubDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                  </div>
+                  <a
+                    href={hit.post.link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1.5 font-semibold text-slate-800 hover:text-brand-700 hover:underline"
+                  >
+                    <Highlighted text={hit.post.title} terms={terms} />
+                    <ExternalLink size={12} className="shrink-0 text-slate-400" />
+                  </a>
+                  <p className="text-sm text-slate-500 mt-1">
+                    <Highlighted text={hit.snippet} terms={terms} />
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PostSearch;
@@ -0,0 +1,143 @@
+import React, { useState } from "react";
+import { Download, Globe, Rss, LayoutList } from "lucide-react";
+import { BlogMetadata } from "../types";
+import { Collection } from "../services/organizationService";
+import { SavedSearch } from "../services/searchService";
+import { downloadFile } from "../services/exportService";
+import {
+  buildPublication,
+  collectFeedItems,
+  loadPublishSettings,
+  PUBLISH_FORMATS,
+  PublishFormat,
+  PublishSettings,
+  savePublishSettings,
+  selectPublishedBlogs
+} from "../services/publishService";
+
+interface PublishPanelProps {
+  blogs: BlogMetadata[];
+  collections: Collection[];
+  savedSearches: SavedSearch[];
+}
+
+const FORMAT_ICONS: Record<PublishFormat, typeof Rss> = {
+  atom: Rss,
+  rss: Rss,
+  html: LayoutList
+};
+
+const fileSlug = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'blogspotter';
+
+const PublishPanel: React.FC<PublishPanelProps> = ({ blogs, collections, savedSearches }) => {
+  const [settings, setSettings] = useState<PublishSettings>(loadPublishSettings);
+
+  const update = (changes: Partial<PublishSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    savePublishSettings(next);
+  };
+
+  const selected = selectPublishedBlogs(blogs, settings.source, savedSearches);
+  const itemCount = collectFeedItems(selected, settings.postsPerBlog, settings.maxItems).length;
+
+  const handleDownload = (format: PublishFormat) => {
+    const { extension, mimeType } = PUBLISH_FORMATS.find(f => f.format === format)!;
+    downloadFile(`${fileSlug(settings.title)}.${extension}`, buildPublication(format, selected, settings), mimeType);
+  };
+
+  const inputClass = "w-72 px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:outline-none focus:border-brand-500";
+  const numberClass = "w-20 px-2 py-1 border border-slate-200 rounded text-right text-sm focus:outline-none focus:border-brand-500";
+  const rowClass = "flex items-center justify-between gap-4 text-sm text-slate-600";
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-sm border border-slate-200 p-8">
+      <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+        <Globe size={18} className="text-brand-600" /> Publish
+      </h3>
+      <p className="text-sm text-slate-500 mb-6">
+        Turn a set of blogs into a feed of their recent posts or a directory page grouped by category. The files are static, so they can be uploaded anywhere.
+      </p>
+
+      <div className="space-y-2 mb-6">
+        <div className={rowClass}>
+          <span className="shrink-0">Blogs</span>
+          <select value={settings.source} onChange={e => update({ source: e.target.value })} className={inputClass}>
+            <option value="all">Whole library</option>
+            <option value="favorites">Favorites</option>
+            {collections.length > 0 && (
+              <optgroup label="Collections">
+                {collections.map(c => <option key={c.id} value={`collection:${c.id}`}>{c.name}</option>)}
+              </optgroup>
+            )}
+            {savedSearches.length > 0 && (
+              <optgroup label="Saved searches">
+                {savedSearches.map(s => <option key={s.id} value={`search:${s.id}`}>{s.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+        </div>
+        <div className={rowClass}>
+          <span className="shrink-0">Title</span>
+          <input value={settings.title} onChange={e => update({ title: e.target.value })} className={inputClass} />
+        </div>
+        <div className={rowClass}>
+          <span className="shrink-0">Description</span>
+          <input value={settings.description} onChange={e => update({ description: e.target.value })} className={inputClass} />
+        </div>
+        <div className={rowClass}>
+          <span className="shrink-0">Site address</span>
+          <input
+            value={settings.siteUrl}
+            onChange={e => update({ siteUrl: e.target.value.trim() })}
+            placeholder="https://example.com/best-of/"
+            className={inputClass}
+          />
+        </div>
+        <div className={rowClass}>
+          <span>Posts per blog</span>
+          <input
+            type="number"
+            min={1}
+            value={settings.postsPerBlog}
+            onChange={e => update({ postsPerBlog: Math.max(1, Number(e.target.value) || 1) })}
+            className={numberClass}
+          />
+        </div>
+        <div className={rowClass}>
+          <span>Posts per feed</span>
+          <input
+            type="number"
+            min={1}
+            value={settings.maxItems}
+            onChange={e => update({ maxItems: Math.max(1, Number(e.target.value) || 1) })}
+            className={numberClass}
+          />
+        </div>
+        <p className="text-xs text-slate-400">The site address becomes the feeds' id and link. Feeds use the posts stored at each blog's last refresh.</p>
+      </div>
+
+      <p className="text-sm text-slate-500 mb-3">
+        {selected.length} blogs selected; the feeds will have {itemCount} posts.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {PUBLISH_FORMATS.map(({ format, label }) => {
+          const Icon = FORMAT_ICONS[format];
+          return (
+            <button
+              key={format}
+              onClick={() => handleDownload(format)}
+              disabled={selected.length === 0}
+              className="p-4 border border-slate-200 rounded-lg text-left hover:border-brand-300 hover:bg-brand-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center gap-2 font-medium text-slate-700 text-sm"
+            >
+              <Icon size={16} className="text-brand-600" /> {label}
+              <Download size={14} className="ml-auto text-slate-400" />
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PublishPanel;
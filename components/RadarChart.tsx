@@ -0,0 +1,74 @@
+import React from "react";
+
+interface RadarChartProps {
+  axes: { label: string; description?: string }[];
+  // One polygon per series; values are 0-100 in the order of `axes`
+  series: { label: string; values: number[]; color: string }[];
+  size?: number;
+}
+
+const RINGS = [25, 50, 75, 100];
+const LABEL_MARGIN = 70;
+
+const RadarChart: React.FC<RadarChartProps> = ({ axes, series, size = 320 }) => {
+  if (axes.length < 3) {
+    return <div className="text-xs text-slate-400 py-10 text-center">Not enough data</div>;
+  }
+
+  const radius = size / 2;
+  const center = radius + LABEL_MARGIN;
+  const width = size + LABEL_MARGIN * 2;
+  // First axis points straight up, the rest follow clockwise
+  const pointAt = (axis: number, value: number) => {
+    const angle = (Math.PI * 2 * axis) / axes.length - Math.PI / 2;
+    const r = (Math.max(0, Math.min(100, value)) / 100) * radius;
+    return { x: center + r * Math.cos(angle), y: center + r * Math.sin(angle) };
+  };
+  const polygon = (values: number[]) => values.map((v, i) => { const p = pointAt(i, v); return `${p.x},${p.y}`; }).join(" ");
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${width}`} className="w-full max-w-md mx-auto block">
+        {RINGS.map(ring => (
+          <polygon key={ring} points={polygon(axes.map(() => ring))} fill="none" stroke="#e2e8f0" />
+        ))}
+        {axes.map((axis, i) => {
+          const end = pointAt(i, 100);
+          const label = pointAt(i, 118);
+          const anchor = Math.abs(label.x - center) < 1 ? "middle" : label.x > center ? "start" : "end";
+          return (
+            <g key={axis.label}>
+              <line x1={center} y1={center} x2={end.x} y2={end.y} stroke="#e2e8f0" />
+              <text x={label.x} y={label.y} textAnchor={anchor} dominantBaseline="middle" className="fill-slate-500 text-[11px] font-medium">
+                {axis.label}
+                {axis.description && <title>{axis.description}</title>}
+              </text>
+            </g>
+          );
+        })}
+        {series.map((s, i) => (
+          <polygon
+            key={i}
+            points={polygon(s.values)}
+            fill={s.color}
+            fillOpacity={0.12}
+            stroke={s.color}
+            strokeWidth={2}
+            strokeLinejoin="round"
+          >
+            <title>{`${s.label}: ${s.values.map((v, i) => `${axes[i].label} ${v}`).join(', ')}`}</title>
+          </polygon>
+        ))}
+      </svg>
+      <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 mt-2 text-xs text-slate-600">
+        {series.map((s, i) => (
+          <span key={i} className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: s.color }} /> {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RadarChart;
@@ -0,0 +1,52 @@
+import React from "react";
+import { RefreshPolicy } from "../services/schedulerService";
+
+interface RefreshSettingsProps {
+  policy: RefreshPolicy;
+  onChange: (policy: RefreshPolicy) => void;
+}
+
+const FIELDS: { key: keyof RefreshPolicy; label: string; unit: string; min: number }[] = [
+  { key: 'activeIntervalHours', label: 'Active blogs every', unit: 'h', min: 1 },
+  { key: 'inactiveIntervalHours', label: 'Inactive blogs every', unit: 'h', min: 1 },
+  { key: 'unreachableBaseHours', label: 'Retry failures after', unit: 'h', min: 1 },
+  { key: 'unreachableMaxHours', label: 'Max retry backoff', unit: 'h', min: 1 },
+  { key: 'concurrency', label: 'Parallel refreshes', unit: '', min: 1 }
+];
+
+const RefreshSettings: React.FC<RefreshSettingsProps> = ({ policy, onChange }) => (
+  <div className="mt-8">
+    <div className="flex items-center justify-between mb-3">
+      <h3 className="text-sm font-semibold text-slate-900">Auto-Refresh</h3>
+      <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={policy.enabled}
+          onChange={(e) => onChange({ ...policy, enabled: e.target.checked })}
+          className="accent-brand-600"
+        />
+        {policy.enabled ? 'On' : 'Off'}
+      </label>
+    </div>
+    <div className={`space-y-2 ${policy.enabled ? '' : 'opacity-50'}`}>
+      {FIELDS.map(({ key, label, unit, min }) => (
+        <div key={key} className="flex justify-between items-center text-xs text-slate-600">
+          <span>{label}</span>
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              min={min}
+              value={policy[key] as number}
+              disabled={!policy.enabled}
+              onChange={(e) => onChange({ ...policy, [key]: Math.max(min, Number(e.target.value) || min) })}
+              className="w-16 px-2 py-1 border border-slate-200 rounded text-right focus:outline-none focus:border-brand-500"
+            />
+            <span className="w-3 text-slate-400">{unit}</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default RefreshSettings;
@@ -0,0 +1,154 @@
+import React from "react";
+import { Copy, Trash2, SlidersHorizontal } from "lucide-react";
+import {
+  createCustomProfile,
+  DEFAULT_SCORING_PROFILE,
+  getActiveProfile,
+  getAllProfiles,
+  SCORE_COMPONENT_LABELS,
+  ScoreComponentKey,
+  ScoringCaps,
+  ScoringProfile,
+  ScoringSettings as ScoringSettingsState
+} from "../services/scoringService";
+
+interface ScoringSettingsProps {
+  settings: ScoringSettingsState;
+  onChange: (settings: ScoringSettingsState) => void;
+}
+
+const CAP_FIELDS: { key: keyof ScoringCaps; label: string; unit: string }[] = [
+  { key: 'wordsPerPost', label: 'Words per post', unit: 'words' },
+  { key: 'imagesPerPost', label: 'Images per post', unit: 'images' },
+  { key: 'totalPosts', label: 'Total posts', unit: 'posts' },
+  { key: 'commentsPerPost', label: 'Comments per post', unit: 'comments' },
+  { key: 'followers', label: 'Followers (log scale)', unit: 'followers' },
+  { key: 'yearsActive', label: 'Years active', unit: 'years' },
+  { key: 'pages', label: 'Static pages', unit: 'pages' },
+];
+
+const ScoringSettings: React.FC<ScoringSettingsProps> = ({ settings, onChange }) => {
+  const active = getActiveProfile(settings);
+  const weightSum = Object.values(active.weights).reduce((a, b) => a + b, 0);
+
+  const updateActive = (profile: ScoringProfile) => {
+    onChange({
+      ...settings,
+      customProfiles: settings.customProfiles.map(p => p.id === profile.id ? profile : p)
+    });
+  };
+
+  const handleDuplicate = () => {
+    const copy = createCustomProfile(active, `${active.name} (copy)`);
+    onChange({ activeProfileId: copy.id, customProfiles: [...settings.customProfiles, copy] });
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete the "${active.name}" scoring profile?`)) return;
+    onChange({
+      activeProfileId: DEFAULT_SCORING_PROFILE.id,
+      customProfiles: settings.customProfiles.filter(p => p.id !== active.id)
+    });
+  };
+
+  const inputClass = "w-20 px-2 py-1 border border-slate-200 rounded text-right text-sm focus:outline-none focus:border-brand-500 disabled:bg-slate-50 disabled:text-slate-400";
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <SlidersHorizontal size={18} className="text-brand-600" />
+        <h3 className="text-lg font-bold text-slate-800">Quality Score</h3>
+      </div>
+      <p className="text-sm text-slate-500 mb-5">
+        Choose how blogs are scored. Changing the profile re-scores the whole library from stored stats. Built-in profiles are read-only; duplicate one to edit it.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <select
+          value={active.id}
+          onChange={(e) => onChange({ ...settings, activeProfileId: e.target.value })}
+          className="px-3 py-2 bg-white border border-slate-200 rounded-lg text-slate-700 text-sm focus:outline-none focus:border-brand-500 cursor-pointer"
+        >
+          {getAllProfiles(settings).map(p => (
+            <option key={p.id} value={p.id}>{p.name}{p.builtIn ? ' (built-in)' : ''}</option>
+          ))}
+        </select>
+        {!active.builtIn && (
+          <input
+            type="text"
+            value={active.name}
+            onChange={(e) => updateActive({ ...active, name: e.target.value })}
+            className="px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:border-brand-500"
+            aria-label="Profile name"
+          />
+        )}
+        <button
+          onClick={handleDuplicate}
+          className="px-3 py-2 rounded-lg text-sm font-medium border border-slate-200 text-slate-600 hover:bg-slate-50 flex items-center gap-1.5 transition-all"
+        >
+          <Copy size={14} /> Duplicate
+        </button>
+        {!active.builtIn && (
+          <button
+            onClick={handleDelete}
+            className="px-3 py-2 rounded-lg text-sm font-medium border border-slate-200 text-slate-600 hover:bg-red-50 hover:text-red-600 hover:border-red-200 flex items-center gap-1.5 transition-all"
+          >
+            <Trash2 size={14} /> Delete
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div>
+          <h4 className="text-sm font-semibold text-slate-900 mb-3">Weights</h4>
+          <div className="space-y-2">
+            {(Object.keys(SCORE_COMPONENT_LABELS) as ScoreComponentKey[]).map(key => (
+              <div key={key} className="flex items-center justify-between text-sm text-slate-600">
+                <span>{SCORE_COMPONENT_LABELS[key]}</span>
+                <span className="flex items-center gap-2">
+                  <span className="text-xs text-slate-400 w-12 text-right">
+                    {weightSum > 0 ? `${Math.round((active.weights[key] / weightSum) * 100)}%` : '—'}
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={active.weights[key]}
+                    disabled={active.builtIn}
+                    onChange={(e) => updateActive({ ...active, weights: { ...active.weights, [key]: Math.max(0, Number(e.target.value) || 0) } })}
+                    className={inputClass}
+                  />
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400 mt-3">Weights are relative. Blogs without a follower count give the follower weight to comments.</p>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-slate-900 mb-3">Full marks at</h4>
+          <div className="space-y-2">
+            {CAP_FIELDS.map(({ key, label, unit }) => (
+              <div key={key} className="flex items-center justify-between text-sm text-slate-600">
+                <span>{label}</span>
+                <span className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    value={active.caps[key]}
+                    disabled={active.builtIn}
+                    onChange={(e) => updateActive({ ...active, caps: { ...active.caps, [key]: Math.max(1, Number(e.target.value) || 1) } })}
+                    className={inputClass}
+                  />
+                  <span className="text-xs text-slate-400 w-16">{unit}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400 mt-3">Consistency is already a 0-100 score and has no cap.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScoringSettings;
@@ -0,0 +1,34 @@
+import React from "react";
+import { TrendPoint } from "../services/historyService";
+
+interface TrendSparklineProps {
+  points: TrendPoint[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+const TrendSparkline: React.FC<TrendSparklineProps> = ({ points, width = 80, height = 20, className = "text-brand-500" }) => {
+  if (points.length < 2) {
+    return <span className="text-[10px] text-slate-300">—</span>;
+  }
+
+  const values = points.map(p => p.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+
+  const coords = points.map((p, i) => {
+    const x = (i / (points.length - 1)) * width;
+    const y = height - ((p.value - min) / range) * (height - 2) - 1;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={className}>
+      <polyline points={coords.join(" ")} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+export default TrendSparkline;
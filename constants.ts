@@ -1,3 +1,4 @@
+import { BlogPlatform } from "./types";
 import { LucideIcon, LayoutDashboard, Globe, Bookmark, PlusCircle, Activity, Coffee, Code, Camera, Music, BookOpen, Briefcase, Zap } from "lucide-react";
 
 export const CATEGORIES = [
@@ -34,4 +35,43 @@ export const CATEGORY_ICONS: Record<string, LucideIcon> = {
   "Other": Activity
 };
 
+// Post titles sent to the classifier
 export const MAX_RECENT_POSTS = 5;
+
+// Characters of each post's text sent to per-post analysis
+export const POST_TEXT_CHARS = 2000;
+// Posts per request during per-post analysis
+export const POST_ANALYSIS_BATCH_SIZE = 5;
+
+// Posts kept per blog for the detail view
+export const MAX_STORED_POSTS = 500;
+
+// Post GUIDs remembered per blog for new-post detection
+export const MAX_TRACKED_POSTS = 200;
+
+// Oldest inbox entries are dropped beyond this
+export const MAX_INBOX_ITEMS = 1000;
+
+export const MAX_HISTORY_SNAPSHOTS = 500;
+
+// Blogger serves at most 150 entries per alt=json request
+export const DEEP_SCAN_PAGE_SIZE = 150;
+
+// Consecutive refresh failures before a blog is marked Unreachable
+export const UNREACHABLE_AFTER_FAILURES = 3;
+
+// Blogs analyzed in parallel during a bulk import
+export const IMPORT_CONCURRENCY = 3;
+
+// Blogs shown side by side in the comparison view
+export const MIN_COMPARED_BLOGS = 2;
+export const MAX_COMPARED_BLOGS = 5;
+
+export const PLATFORM_LABELS: Record<BlogPlatform, string> = {
+  blogger: "Blogger",
+  wordpress: "WordPress",
+  ghost: "Ghost",
+  substack: "Substack",
+  medium: "Medium",
+  generic: "RSS/Atom"
+};
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BlogMetadata } from '../types';
+import { findStaleBlogs, RefreshPolicy } from '../services/schedulerService';
+
+// How often the scheduler looks for stale blogs
+const SCHEDULER_TICK_MS = 60 * 1000;
+
+export interface RefreshQueueStatus {
+  queued: string[];
+  active: string[];
+  completed: number;
+  failed: number;
+  isRunning: boolean;
+}
+
+// Runs blog refreshes with bounded concurrency and, when the policy allows it,
+// enqueues blogs whose refresh interval has elapsed.
+export const useRefreshQueue = (
+  blogs: BlogMetadata[],
+  refreshBlog: (id: string) => Promise<void>,
+  policy: RefreshPolicy,
+  isReady: boolean
+) => {
+  const [queued, setQueued] = useState<string[]>([]);
+  const [active, setActive] = useState<string[]>([]);
+  const [completed, setCompleted] = useState(0);
+  const [failed, setFailed] = useState(0);
+
+  // Latest values for async callbacks and the interval timer
+  const refreshRef = useRef(refreshBlog);
+  refreshRef.current = refreshBlog;
+  const blogsRef = useRef(blogs);
+  blogsRef.current = blogs;
+  const activeRef = useRef(active);
+  activeRef.current = active;
+
+  const isRunning = queued.length > 0 || active.length > 0;
+  const isRunningRef = useRef(isRunning);
+  isRunningRef.current = isRunning;
+
+  const enqueue = useCallback((ids: string[]) => {
+    // A fresh batch on an idle queue starts a new progress count
+    if (!isRunningRef.current) {
+      setCompleted(0);
+      setFailed(0);
+    }
+    setQueued(prev => [...prev, ...ids.filter((id, i) => !prev.includes(id) && !activeRef.current.includes(id) && ids.indexOf(id) === i)]);
+  }, []);
+
+  // Pump: start queued refreshes while there are free slots
+  useEffect(() => {
+    const slots = Math.max(1, policy.concurrency) - active.length;
+    if (slots <= 0 || queued.length === 0) return;
+
+    const next = queued.slice(0, slots);
+    setQueued(prev => prev.filter(id => !next.includes(id)));
+    setActive(prev => [...prev, ...next]);
+
+    next.forEach(id => {
+      refreshRef.current(id)
+        .then(() => setCompleted(c => c + 1))
+        // The refresh itself records the failure on the blog's health
+        .catch(() => setFailed(f => f + 1))
+        .finally(() => setActive(prev => prev.filter(a => a !== id)));
+    });
+  }, [queued, active, policy.concurrency]);
+
+  // Scheduler: check once when ready, then on every tick
+  useEffect(() => {
+    if (!isReady || !policy.enabled) return;
+
+    const tick = () => {
+      const stale = findStaleBlogs(blogsRef.current, policy);
+      if (stale.length > 0) enqueue(stale.map(b => b.id));
+    };
+
+    tick();
+    const timer = setInterval(tick, SCHEDULER_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isReady, policy, enqueue]);
+
+  const status: RefreshQueueStatus = { queued, active, completed, failed, isRunning };
+  return { status, enqueue };
+};
@@ -0,0 +1,185 @@
+import { lookup } from 'dns/promises';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { BlockList, isIP } from 'net';
+import type { Connect, Plugin } from 'vite';
+import { createHostThrottle } from './hostThrottle';
+
+export interface FetchRelayOptions {
+  // Mount point; the client calls `${path}?url=<encoded target>`
+  path?: string;
+  // Minimum gap between two upstream requests to the same host
+  minIntervalMs?: number;
+  cacheTtlMs?: number;
+  maxCacheEntries?: number;
+  timeoutMs?: number;
+  // When non-empty, only these hosts (and their subdomains) may be fetched
+  allowedHosts?: string[];
+}
+
+interface CachedResponse {
+  expiresAt: number;
+  status: number;
+  contentType: string;
+  // Where the request ended up after redirects
+  finalUrl: string;
+  body: Buffer;
+}
+
+const DEFAULTS: Required<FetchRelayOptions> = {
+  path: '/relay',
+  minIntervalMs: 1000,
+  cacheTtlMs: 10 * 60 * 1000,
+  maxCacheEntries: 500,
+  timeoutMs: 20000,
+  allowedHosts: []
+};
+
+const USER_AGENT = 'BlogSpotter/1.0 (+fetch relay)';
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local and other non-public ranges. The relay runs next to the
+// user's own services and routers, which it must never reach on a page's behalf.
+const PRIVATE_RANGES = new BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const).forEach(([network, prefix]) => PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4'));
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges by BlockList itself
+([
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const).forEach(([network, prefix]) => PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6'));
+
+// The client appends _t=<timestamp> for public proxies; it must not fragment the cache
+const cacheKeyFor = (target: URL): string => {
+  const copy = new URL(target.toString());
+  copy.searchParams.delete('_t');
+  return copy.toString();
+};
+
+const isHostAllowed = (host: string, allowedHosts: string[]): boolean => {
+  if (allowedHosts.length === 0) return true;
+  return allowedHosts.some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+};
+
+// Every address the name resolves to must be public, so a DNS entry cannot point the relay inward
+const isPublicHost = async (hostname: string): Promise<boolean> => {
+  // URL keeps the brackets around IPv6 literals
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const family = isIP(host);
+  const addresses = family ? [{ address: host, family }] : await lookup(host, { all: true, verbatim: true });
+  return addresses.length > 0 &&
+    addresses.every(({ address, family }) => !PRIVATE_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+};
+
+// Checks that apply to the requested URL and to every redirect after it; null when the target is fine
+const rejectTarget = async (target: URL, allowedHosts: string[]): Promise<{ status: number; reason: string } | null> => {
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    return { status: 400, reason: 'Only http and https targets are allowed.' };
+  }
+  const host = target.hostname.toLowerCase();
+  if (!isHostAllowed(host, allowedHosts)) {
+    return { status: 403, reason: `Host ${host} is not in the relay allow list.` };
+  }
+  if (!(await isPublicHost(host))) {
+    return { status: 403, reason: `Host ${host} is on a private network.` };
+  }
+  return null;
+};
+
+export const createFetchRelay = (userOptions: FetchRelayOptions = {}): Connect.NextHandleFunction => {
+  const options = { ...DEFAULTS, ...userOptions };
+  const cache = new Map<string, CachedResponse>();
+  const waitForSlot = createHostThrottle(options.minIntervalMs);
+
+  const remember = (key: string, entry: CachedResponse) => {
+    cache.delete(key);
+    cache.set(key, entry);
+    // Map iteration order is insertion order, so the first key is the oldest
+    while (cache.size > options.maxCacheEntries) {
+      cache.delete(cache.keys().next().value!);
+    }
+  };
+
+  const send = (res: ServerResponse, status: number, contentType: string, body: Buffer | string, cacheState: 'HIT' | 'MISS' | 'BYPASS', finalUrl?: string) => {
+    res.statusCode = status;
+    // No CORS headers: only the app itself, served from the same origin, may use the relay
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('X-Relay-Cache', cacheState);
+    if (finalUrl) res.setHeader('X-Final-Url', finalUrl);
+    res.end(body);
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse, next: Connect.NextFunction) => {
+    const requestUrl = new URL(req.url || '/', 'http://relay.local');
+    if (requestUrl.pathname !== options.path) return next();
+
+    if (req.method !== 'GET') {
+      return send(res, 405, 'text/plain', 'Only GET is supported.', 'BYPASS');
+    }
+
+    let target: URL;
+    try {
+      target = new URL(requestUrl.searchParams.get('url') || '');
+    } catch (e) {
+      return send(res, 400, 'text/plain', 'Missing or invalid url parameter.', 'BYPASS');
+    }
+
+    const key = cacheKeyFor(target);
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return send(res, cached.status, cached.contentType, cached.body, 'HIT', cached.finalUrl);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs);
+    try {
+      // Redirects are followed by hand so each hop goes through the same checks
+      let current = new URL(key);
+      let upstream: Response;
+      for (let hops = 0; ; hops++) {
+        const rejection = await rejectTarget(current, options.allowedHosts);
+        if (rejection) return send(res, rejection.status, 'text/plain', rejection.reason, 'BYPASS');
+
+        await waitForSlot(current.hostname.toLowerCase());
+        upstream = await fetch(current, {
+          headers: { 'User-Agent': USER_AGENT },
+          redirect: 'manual',
+          signal: controller.signal
+        });
+        const location = upstream.headers.get('location');
+        if (upstream.status < 300 || upstream.status >= 400 || !location) break;
+        await upstream.body?.cancel();
+        if (hops === MAX_REDIRECTS) {
+          return send(res, 502, 'text/plain', `Upstream fetch failed: more than ${MAX_REDIRECTS} redirects`, 'BYPASS');
+        }
+        current = new URL(location, current);
+      }
+
+      const body = Buffer.from(await upstream.arrayBuffer());
+      const contentType = upstream.headers.get('content-type') || 'application/octet-stream';
+      const finalUrl = current.toString();
+
+      // Errors are passed through but never cached, so a transient failure is retried next time
+      if (upstream.ok) {
+        remember(key, { expiresAt: Date.now() + options.cacheTtlMs, status: upstream.status, contentType, finalUrl, body });
+      }
+      send(res, upstream.status, contentType, body, 'MISS', finalUrl);
+    } catch (e: any) {
+      const reason = e.name === 'AbortError' ? `timed out after ${options.timeoutMs}ms` : e.message;
+      send(res, 502, 'text/plain', `Upstream fetch failed: ${reason}`, 'BYPASS');
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  };
+};
+
+// Mounts the relay on both `vite` (dev) and `vite preview`
+export const fetchRelayPlugin = (options: FetchRelayOptions = {}): Plugin => ({
+  name: 'blogspotter-fetch-relay',
+  configureServer(server) {
+    server.middlewares.use(createFetchRelay(options));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createFetchRelay(options));
+  }
+});
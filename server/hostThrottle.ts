@@ -0,0 +1,20 @@
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Spaces requests to the same host at least `minIntervalMs` apart. The returned function
+// resolves when the caller may send its request.
+export const createHostThrottle = (minIntervalMs: number) => {
+  // Tail of the per-host request chain; each request waits for the previous slot.
+  // Hosts leave the map once their last gap has elapsed, so it only holds busy hosts.
+  const hostQueues = new Map<string, Promise<void>>();
+
+  return (host: string): Promise<void> => {
+    const previous = hostQueues.get(host) || Promise.resolve();
+    const slot = previous.then(() => sleep(minIntervalMs));
+    hostQueues.set(host, slot);
+    slot.then(() => {
+      if (hostQueues.get(host) === slot) hostQueues.delete(host);
+    });
+    // The caller may go as soon as the previous request's gap has elapsed
+    return previous;
+  };
+};
@@ -0,0 +1,335 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { BlogMetadata } from '../types';
+import { analyzeBlogAndFetch, Fetcher, normalizeUrl } from '../services/rssService';
+import { analyzeFetchedPosts, applyRefresh, curateBlog } from '../services/libraryService';
+import { ClassifierSettings } from '../services/classifierService';
+import { ScoringProfile } from '../services/scoringService';
+import { findDuplicate } from '../services/duplicateService';
+import { markRefreshFailed } from '../services/healthService';
+import { BlogFilter, DEFAULT_FILTER, matchesFilter, RANGE_FIELDS, SORT_FIELDS, SortField, sortBlogs } from '../services/searchService';
+
+// Where the library is kept. Both calls are synchronous, so a read-modify-write never
+// interleaves with another request's.
+export interface LibraryStore {
+  read: () => BlogMetadata[];
+  write: (blogs: BlogMetadata[]) => void;
+}
+
+export interface LibraryApiOptions {
+  store: LibraryStore;
+  fetcher: Fetcher;
+  classifier: ClassifierSettings;
+  scoringProfile: ScoringProfile;
+  // Mount point for the routes below
+  basePath?: string;
+  // When set, every request needs `Authorization: Bearer <token>`. Without one, only requests
+  // addressed to localhost on the server's own port are answered.
+  token?: string;
+  // Web page origins (e.g. https://dashboard.example) allowed to read responses; none by default
+  allowedOrigins?: string[];
+}
+
+// Blogs in a list leave out their posts and history; fetch one blog for those
+export type BlogSummary = Omit<BlogMetadata, 'posts' | 'history' | 'knownGuids'>;
+
+export interface BlogListResponse {
+  total: number;
+  offset: number;
+  blogs: BlogSummary[];
+}
+
+interface ApiResponse {
+  status: number;
+  body?: unknown;
+}
+
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+const DEFAULT_LIMIT = 100;
+const MAX_BODY_BYTES = 64 * 1024;
+
+const ok = (body: unknown, status = 200): ApiResponse => ({ status, body });
+const fail = (status: number, error: string, extra: Record<string, unknown> = {}): ApiResponse => ({ status, body: { error, ...extra } });
+
+const summarize = ({ posts, history, knownGuids, ...summary }: BlogMetadata): BlogSummary => summary;
+
+// Notes are private, so they are only sent, and only searched, with ?notes=true
+const withoutNotes = ({ notes, ...blog }: BlogMetadata): BlogMetadata => blog;
+const visible = (blog: BlogMetadata, includeNotes: boolean) => includeNotes ? blog : withoutNotes(blog);
+
+// Hashing first gives both sides the same length, which timingSafeEqual needs
+const sameSecret = (given: string, expected: string) =>
+  timingSafeEqual(createHash('sha256').update(given).digest(), createHash('sha256').update(expected).digest());
+
+// A DNS-rebinding page reaches the server under its own host name, which shows in the Host header
+const isAddressedToLocalhost = (req: IncomingMessage): boolean => {
+  try {
+    const { hostname, port } = new URL(`http://${req.headers.host}`);
+    return LOOPBACK_HOSTNAMES.includes(hostname) && Number(port || 80) === req.socket.localPort;
+  } catch (e) {
+    return false;
+  }
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8').trim();
+      if (!text) return resolve({});
+      try {
+        resolve(JSON.parse(text));
+      } catch (e) {
+        reject(new Error('Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// --- Query Parsing ---
+
+const parseNumber = (params: URLSearchParams, name: string): number | undefined => {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) throw new Error(`${name} must be a number.`);
+  return value;
+};
+
+const parseCount = (params: URLSearchParams, name: string): number | undefined => {
+  const value = parseNumber(params, name);
+  if (value !== undefined && (!Number.isInteger(value) || value < 0)) throw new Error(`${name} must be a whole number of 0 or more.`);
+  return value;
+};
+
+// Maps query parameters onto the same filter the library view uses, e.g.
+// ?q=bread&category=Food%20%26%20Cooking&favorite=true&tag=Baking&qualityScoreMin=60
+export const parseBlogFilter = (params: URLSearchParams): BlogFilter => {
+  const ranges: BlogFilter['ranges'] = {};
+  RANGE_FIELDS.forEach(({ field }) => {
+    const min = parseNumber(params, `${field}Min`);
+    const max = parseNumber(params, `${field}Max`);
+    if (min !== undefined || max !== undefined) ranges[field] = { min, max };
+  });
+
+  return {
+    ...DEFAULT_FILTER,
+    text: params.get('q') || '',
+    category: params.get('category') || 'All',
+    status: params.get('status') || 'All',
+    language: params.get('language') || 'All',
+    favoritesOnly: params.get('favorite') === 'true',
+    collectionId: params.get('collection') || 'All',
+    ranges,
+    lastPostFrom: params.get('lastPostFrom') || undefined,
+    lastPostTo: params.get('lastPostTo') || undefined,
+    includeTags: params.getAll('tag'),
+    excludeTags: params.getAll('excludeTag')
+  };
+};
+
+// --- Handler ---
+
+export const createLibraryApi = (options: LibraryApiOptions) => {
+  const basePath = options.basePath || '/api';
+  const { store } = options;
+  const allowedOrigins = new Set(options.allowedOrigins || []);
+
+  const findBlog = (id: string) => store.read().find(b => b.id === id);
+
+  // Re-reads the library so changes made while a fetch was running are kept
+  const updateBlog = (id: string, update: (blog: BlogMetadata) => BlogMetadata): BlogMetadata | undefined => {
+    const blogs = store.read();
+    const current = blogs.find(b => b.id === id);
+    if (!current) return undefined;
+    const updated = update(current);
+    store.write(blogs.map(b => b.id === id ? updated : b));
+    return updated;
+  };
+
+  const listBlogs = (params: URLSearchParams, includeNotes: boolean): ApiResponse => {
+    const field = (params.get('sort') || 'addedAt') as SortField;
+    if (!SORT_FIELDS.some(s => s.field === field)) {
+      return fail(400, `Unknown sort field "${field}". Use ${SORT_FIELDS.map(s => s.field).join(', ')}.`);
+    }
+    let limit: number, offset: number, filter: BlogFilter;
+    try {
+      limit = parseCount(params, 'limit') ?? DEFAULT_LIMIT;
+      offset = parseCount(params, 'offset') ?? 0;
+      filter = parseBlogFilter(params);
+    } catch (e: any) {
+      return fail(400, e.message);
+    }
+
+    const blogs = store.read().map(b => visible(b, includeNotes));
+    const matching = sortBlogs(blogs.filter(b => matchesFilter(b, filter)), {
+      field,
+      descending: params.get('order') !== 'asc'
+    });
+    const response: BlogListResponse = {
+      total: matching.length,
+      offset,
+      blogs: matching.slice(offset, offset + limit).map(summarize)
+    };
+    return ok(response);
+  };
+
+  const addBlog = async (body: any, includeNotes: boolean): Promise<ApiResponse> => {
+    if (typeof body.url !== 'string' || !body.url.trim()) {
+      return fail(400, 'Send the blog address as {"url": "..."}.');
+    }
+    const cleanUrl = normalizeUrl(body.url);
+    const known = findDuplicate(store.read(), { url: cleanUrl });
+    if (known) return fail(409, `${cleanUrl} is already in the library.`, { id: known.id });
+
+    let blog: BlogMetadata;
+    try {
+      blog = await curateBlog(cleanUrl, {
+        deepScan: body.deepScan === true,
+        scoringProfile: options.scoringProfile,
+        classifier: options.classifier,
+        fetcher: options.fetcher
+      });
+    } catch (e: any) {
+      return fail(502, e.message || 'Could not analyze the blog.');
+    }
+
+    // Redirects and the feed's own id can reveal an alias, and another request may have added it meanwhile
+    const blogs = store.read();
+    const existing = findDuplicate(blogs, blog);
+    if (existing) return fail(409, `${cleanUrl} is the same blog as "${existing.title}".`, { id: existing.id });
+    store.write([blog, ...blogs]);
+    return ok(visible(blog, includeNotes), 201);
+  };
+
+  const refreshBlog = async (id: string, includeNotes: boolean): Promise<ApiResponse> => {
+    const blog = findBlog(id);
+    if (!blog) return fail(404, `No blog with id ${id}.`);
+
+    try {
+      const analysisData = await analyzeBlogAndFetch(blog.url, { deepScan: blog.deepScan, scoringProfile: options.scoringProfile, fetcher: options.fetcher });
+      const posts = await analyzeFetchedPosts(analysisData, blog.posts, options.classifier);
+      const updated = updateBlog(id, b => applyRefresh(b, analysisData, posts));
+      return updated ? ok(visible(updated, includeNotes)) : fail(404, `Blog ${id} was deleted during the refresh.`);
+    } catch (e: any) {
+      updateBlog(id, b => markRefreshFailed(b, e?.message || 'Unknown error'));
+      return fail(502, e.message || 'Could not refresh the blog.');
+    }
+  };
+
+  const setFavorite = (id: string, body: any, includeNotes: boolean): ApiResponse => {
+    if (body.isFavorite !== undefined && typeof body.isFavorite !== 'boolean') {
+      return fail(400, 'isFavorite must be true or false.');
+    }
+    // Without a value the flag is toggled
+    const updated = updateBlog(id, b => ({ ...b, isFavorite: body.isFavorite ?? !b.isFavorite }));
+    return updated ? ok(summarize(visible(updated, includeNotes))) : fail(404, `No blog with id ${id}.`);
+  };
+
+  const deleteBlog = (id: string): ApiResponse => {
+    const blogs = store.read();
+    if (!blogs.some(b => b.id === id)) return fail(404, `No blog with id ${id}.`);
+    store.write(blogs.filter(b => b.id !== id));
+    return { status: 204 };
+  };
+
+  const withBody = async (req: IncomingMessage, handle: (body: any) => ApiResponse | Promise<ApiResponse>): Promise<ApiResponse> => {
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (e: any) {
+      return fail(400, e.message);
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) return fail(400, 'Send a JSON object.');
+    return handle(body);
+  };
+
+  const route = async (req: IncomingMessage, url: URL): Promise<ApiResponse> => {
+    let segments: string[];
+    try {
+      segments = url.pathname.slice(basePath.length).split('/').filter(Boolean).map(decodeURIComponent);
+    } catch (e) {
+      return fail(400, 'The path has a malformed escape sequence.');
+    }
+    const [resource, id, action, ...rest] = segments;
+    const method = req.method || 'GET';
+    const includeNotes = url.searchParams.get('notes') === 'true';
+    if (resource !== 'blogs' || rest.length > 0) return fail(404, 'Not found.');
+
+    if (!id) {
+      if (method === 'GET') return listBlogs(url.searchParams, includeNotes);
+      if (method === 'POST') return withBody(req, body => addBlog(body, includeNotes));
+    } else if (!action) {
+      if (method === 'GET') {
+        const blog = findBlog(id);
+        return blog ? ok(visible(blog, includeNotes)) : fail(404, `No blog with id ${id}.`);
+      }
+      if (method === 'DELETE') return deleteBlog(id);
+    } else if (action === 'refresh') {
+      if (method === 'POST') return refreshBlog(id, includeNotes);
+    } else if (action === 'favorite') {
+      if (method === 'POST') return withBody(req, body => setFavorite(id, body, includeNotes));
+    } else {
+      return fail(404, 'Not found.');
+    }
+    return fail(405, `${method} is not supported here.`);
+  };
+
+  const send = (res: ServerResponse, { status, body }: ApiResponse) => {
+    res.statusCode = status;
+    if (body === undefined) return res.end();
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify(body));
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse, next?: () => void) => {
+    const url = new URL(req.url || '/', 'http://library.local');
+    if (url.pathname !== basePath && !url.pathname.startsWith(`${basePath}/`)) {
+      return next ? next() : send(res, fail(404, 'Not found.'));
+    }
+
+    if (!options.token && !isAddressedToLocalhost(req)) {
+      return send(res, fail(403, 'Without an API token the library is only served to localhost.'));
+    }
+
+    // Only dashboards on an allowed origin may read responses in the browser; see the write check below
+    const origin = req.headers.origin;
+    const corsAllowed = !!origin && allowedOrigins.has(origin);
+    res.setHeader('Vary', 'Origin');
+    if (corsAllowed) res.setHeader('Access-Control-Allow-Origin', origin);
+
+    // Preflight for dashboards that send a token; only reads are offered
+    if (req.method === 'OPTIONS') {
+      if (corsAllowed) {
+        res.setHeader('Access-Control-Allow-Methods', 'GET');
+        res.setHeader('Access-Control-Allow-Headers', 'Authorization');
+      }
+      return send(res, { status: 204 });
+    }
+    if (options.token && !sameSecret(req.headers.authorization || '', `Bearer ${options.token}`)) {
+      return send(res, fail(401, 'Missing or wrong API token.'));
+    }
+    // Browsers send an Origin with cross-site requests. Without this check any web page
+    // could post a form to the local server and change the library.
+    if (req.method !== 'GET' && req.headers.origin) {
+      return send(res, fail(403, 'Web pages may only read the library.'));
+    }
+
+    try {
+      send(res, await route(req, url));
+    } catch (e: any) {
+      console.error('Library API request failed', e);
+      send(res, fail(500, e.message || 'Internal error.'));
+    }
+  };
+};
@@ -0,0 +1,177 @@
+import { CATEGORIES } from "../constants";
+import { BlogPost, ClassificationProvenance, ClassificationResult, ClassifierProvider } from "../types";
+import { Schema, Type } from "@google/genai";
+import { GEMINI_MODEL, generateGeminiJson } from "./geminiService";
+import { generateOpenAiJson, OpenAiEndpoint } from "./openAiService";
+import { classifyHeuristically, HEURISTIC_MODEL } from "./heuristicClassifier";
+
+// Bump when the LLM prompt or expected reply changes so older classifications show as outdated
+// 2: shared prompt for all LLM providers
+export const CLASSIFIER_PROMPT_VERSION = 2;
+// The heuristic has no prompt; its keyword tables are versioned through HEURISTIC_MODEL
+const HEURISTIC_VERSION = 1;
+
+export const PROVIDER_LABELS: Record<ClassifierProvider, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  heuristic: 'Offline keywords'
+};
+
+export interface ClassifierSettings {
+  provider: ClassifierProvider;
+  openAi: OpenAiEndpoint;
+  // Optional second pass that summarizes each post; costs one request per batch of posts
+  postAnalysis: {
+    enabled: boolean;
+    postsPerRefresh: number;
+  };
+}
+
+export const DEFAULT_CLASSIFIER_SETTINGS: ClassifierSettings = {
+  // Without a Gemini key the offline classifier beats filing everything under "Other"
+  provider: process.env.API_KEY ? 'gemini' : 'heuristic',
+  openAi: {
+    baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+    model: process.env.OPENAI_MODEL || 'llama3.1',
+    apiKey: process.env.OPENAI_API_KEY || ''
+  },
+  postAnalysis: {
+    enabled: false,
+    postsPerRefresh: 20
+  }
+};
+
+const CLASSIFIER_STORAGE_KEY = 'blogspotter_classifier';
+
+export const loadClassifierSettings = (): ClassifierSettings => {
+  try {
+    const raw = localStorage.getItem(CLASSIFIER_STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      return {
+        provider: parsed.provider || DEFAULT_CLASSIFIER_SETTINGS.provider,
+        openAi: { ...DEFAULT_CLASSIFIER_SETTINGS.openAi, ...parsed.openAi },
+        postAnalysis: { ...DEFAULT_CLASSIFIER_SETTINGS.postAnalysis, ...parsed.postAnalysis }
+      };
+    }
+  } catch (e) {
+    // Fall through to defaults
+  }
+  return DEFAULT_CLASSIFIER_SETTINGS;
+};
+
+export const saveClassifierSettings = (settings: ClassifierSettings) => {
+  localStorage.setItem(CLASSIFIER_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Model name recorded in provenance for the given settings
+export const getClassifierModel = (settings: ClassifierSettings): string => {
+  if (settings.provider === 'gemini') return GEMINI_MODEL;
+  if (settings.provider === 'openai') return settings.openAi.model;
+  return HEURISTIC_MODEL;
+};
+
+const getPromptVersion = (provider: ClassifierProvider) =>
+  provider === 'heuristic' ? HEURISTIC_VERSION : CLASSIFIER_PROMPT_VERSION;
+
+// Sends a prompt to the configured LLM provider; the schema shapes Gemini's reply,
+// other providers rely on the prompt describing the JSON they should return
+export const generateJson = (prompt: string, geminiSchema: Schema, settings: ClassifierSettings): Promise<unknown> => {
+  if (settings.provider === 'gemini') return generateGeminiJson(prompt, geminiSchema);
+  if (settings.provider === 'openai') return generateOpenAiJson(prompt, settings.openAi);
+  throw new Error("The offline classifier has no language model.");
+};
+
+// --- Prompt & Reply Handling ---
+
+const BLOG_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    category: { type: Type.STRING, description: "One of the available categories that best fits the blog." },
+    tags: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "3-5 relevant tags/keywords for the blog content."
+    },
+    sentimentScore: { type: Type.NUMBER, description: "A score from 0 (negative) to 100 (positive) based on the content tone." },
+    language: { type: Type.STRING, description: "The primary language of the blog (e.g., English, Spanish)." },
+    summary: { type: Type.STRING, description: "A concise 1-sentence summary of what this blog is about." }
+  },
+  required: ["category", "tags", "sentimentScore", "language", "summary"]
+};
+
+const buildPrompt = (title: string, description: string, posts: BlogPost[]) => `
+    Analyze the following blog metadata and classify it.
+
+    Blog Title: ${title}
+    Blog Description: ${description}
+    Recent Post Titles: ${posts.map(p => p.title).join(", ")}
+
+    Available Categories: ${CATEGORIES.join(", ")}
+
+    Reply with a JSON object with these keys:
+    "category" (one of the available categories), "tags" (3-5 relevant keywords),
+    "sentimentScore" (0 negative to 100 positive), "language" (e.g. English, Spanish)
+    and "summary" (one sentence describing the blog).
+  `;
+
+// Models don't always follow the schema, so every field is checked before it reaches the library
+const normalizeReply = (reply: any): Omit<ClassificationResult, 'provenance'> => {
+  if (!reply || typeof reply !== 'object') {
+    throw new Error("Model reply was not a JSON object");
+  }
+  const category = CATEGORIES.find(c => c.toLowerCase() === String(reply.category || '').toLowerCase()) || "Other";
+  const sentiment = Number(reply.sentimentScore);
+  return {
+    category,
+    tags: Array.isArray(reply.tags) ? reply.tags.map(String).filter(Boolean).slice(0, 5) : [],
+    sentimentScore: isNaN(sentiment) ? 50 : Math.max(0, Math.min(100, Math.round(sentiment))),
+    language: typeof reply.language === 'string' && reply.language ? reply.language : "Unknown",
+    summary: typeof reply.summary === 'string' ? reply.summary : ""
+  };
+};
+
+// --- Classification ---
+
+export const classifyBlog = async (
+  title: string,
+  description: string,
+  posts: BlogPost[],
+  settings: ClassifierSettings = DEFAULT_CLASSIFIER_SETTINGS
+): Promise<ClassificationResult> => {
+  const provenance = (provider: ClassifierProvider, model: string): ClassificationProvenance => ({
+    provider,
+    model,
+    promptVersion: getPromptVersion(provider),
+    classifiedAt: new Date().toISOString(),
+    isFallback: false
+  });
+
+  if (settings.provider !== 'heuristic') {
+    try {
+      const prompt = buildPrompt(title, description, posts);
+      const reply = await generateJson(prompt, BLOG_SCHEMA, settings);
+      return { ...normalizeReply(reply), provenance: provenance(settings.provider, getClassifierModel(settings)) };
+    } catch (error: any) {
+      console.error(`${PROVIDER_LABELS[settings.provider]} Classification Error:`, error);
+      // Keyword results are better than "Other", but stay flagged so the blog can be re-classified
+      return {
+        ...classifyHeuristically(title, description, posts),
+        provenance: { ...provenance('heuristic', HEURISTIC_MODEL), isFallback: true, error: error?.message || "Could not analyze content." }
+      };
+    }
+  }
+
+  return { ...classifyHeuristically(title, description, posts), provenance: provenance('heuristic', HEURISTIC_MODEL) };
+};
+
+// Outdated means the active classifier would produce a different kind of result:
+// a newer prompt or another model of the same provider, or any LLM replacing keyword results.
+// Switching between LLM providers alone doesn't make earlier results outdated.
+export const isClassificationOutdated = (provenance: ClassificationProvenance, settings: ClassifierSettings): boolean => {
+  if (provenance.promptVersion === 0) return true;
+  if (provenance.provider === settings.provider) {
+    return provenance.model !== getClassifierModel(settings) || provenance.promptVersion < getPromptVersion(settings.provider);
+  }
+  return provenance.provider === 'heuristic';
+};
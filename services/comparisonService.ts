@@ -0,0 +1,54 @@
+import { BlogMetadata } from "../types";
+import { DEFAULT_SCORING_PROFILE, ScoreBreakdown, ScoreComponentKey, scoreBlog, ScoringProfile } from "./scoringService";
+
+export type ComparisonDimension = 'depth' | 'cadence' | 'consistency' | 'engagement' | 'longevity';
+
+export interface BlogComparison {
+  blog: BlogMetadata;
+  breakdown: ScoreBreakdown;
+  // 0-100 per radar axis
+  dimensions: Record<ComparisonDimension, number>;
+}
+
+// A blog posting at least this often gets the full cadence score
+const CADENCE_TARGET_DAYS = 7;
+
+export const COMPARISON_DIMENSIONS: { key: ComparisonDimension; label: string; description: string }[] = [
+  { key: 'depth', label: 'Depth', description: 'Words per post against the scoring profile\'s cap' },
+  { key: 'cadence', label: 'Cadence', description: 'How often it posts; weekly or more scores 100' },
+  { key: 'consistency', label: 'Consistency', description: 'How regular the gaps between posts are' },
+  { key: 'engagement', label: 'Engagement', description: 'Comments per post, averaged with followers when the count is known' },
+  { key: 'longevity', label: 'Longevity', description: 'Years active against the scoring profile\'s cap' }
+];
+
+const normalizedOf = (breakdown: ScoreBreakdown, key: ScoreComponentKey) =>
+  breakdown.components.find(c => c.key === key)?.normalized ?? 0;
+
+// Scores every blog with the same profile and clock, so the axes are comparable
+export const compareBlogs = (blogs: BlogMetadata[], profile: ScoringProfile = DEFAULT_SCORING_PROFILE, now: Date = new Date()): BlogComparison[] =>
+  blogs.map(blog => {
+    const breakdown = scoreBlog(blog.stats, profile, now);
+    const { avgDaysBetweenPosts, followersCount } = blog.stats;
+    const comments = normalizedOf(breakdown, 'comments');
+
+    return {
+      blog,
+      breakdown,
+      dimensions: {
+        depth: normalizedOf(breakdown, 'words'),
+        cadence: avgDaysBetweenPosts > 0 ? Math.round(Math.min(100, (CADENCE_TARGET_DAYS / avgDaysBetweenPosts) * 100)) : 0,
+        consistency: Math.round(blog.stats.consistencyScore),
+        // Unknown followers (-1) would drag engagement down for missing data, as in scoring
+        engagement: followersCount >= 0 ? Math.round((comments + normalizedOf(breakdown, 'followers')) / 2) : comments,
+        longevity: normalizedOf(breakdown, 'longevity')
+      }
+    };
+  });
+
+// Positions of the best value in a row; ties all count, and a row where every value is equal has no winner
+export const bestIndexes = (values: (number | null)[], higherIsBetter: boolean): number[] => {
+  const known = values.filter((v): v is number => v !== null);
+  if (known.length < 2 || known.every(v => v === known[0])) return [];
+  const best = higherIsBetter ? Math.max(...known) : Math.min(...known);
+  return values.flatMap((v, i) => v === best ? [i] : []);
+};
@@ -0,0 +1,97 @@
+import { MAX_STORED_POSTS, MAX_TRACKED_POSTS } from "../constants";
+import { BlogMetadata, BlogPost } from "../types";
+import { mergeHistory } from "./historyService";
+import { aggregatePostTopics } from "./postAnalysisService";
+import { normalizeUrl } from "./rssService";
+
+type BlogIdentity = Pick<BlogMetadata, 'url' | 'canonicalId'>;
+
+// Comparison form of a blog URL: normalized, without protocol or a leading www
+export const urlKey = (url: string): string =>
+  normalizeUrl(url).replace(/^https?:\/\/(www\.)?/i, '').toLowerCase();
+
+export const isSameBlog = (a: BlogIdentity, b: BlogIdentity): boolean =>
+  (!!a.canonicalId && a.canonicalId === b.canonicalId) || urlKey(a.url) === urlKey(b.url);
+
+export const findDuplicate = (blogs: BlogMetadata[], candidate: BlogIdentity & { id?: string }): BlogMetadata | undefined =>
+  blogs.find(b => b.id !== candidate.id && isSameBlog(b, candidate));
+
+// --- Detection ---
+
+// Groups of two or more entries for the same blog, oldest entry first. Grouping is transitive:
+// an entry sharing its URL with one member and its canonical id with another joins both.
+export const findDuplicateGroups = (blogs: BlogMetadata[]): BlogMetadata[][] => {
+  const parent = blogs.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+  const firstByKey = new Map<string, number>();
+  blogs.forEach((blog, i) => {
+    const keys = [`url:${urlKey(blog.url)}`, ...(blog.canonicalId ? [`id:${blog.canonicalId}`] : [])];
+    keys.forEach(key => {
+      const first = firstByKey.get(key);
+      if (first === undefined) firstByKey.set(key, i);
+      else parent[find(i)] = find(first);
+    });
+  });
+
+  const groups = new Map<number, BlogMetadata[]>();
+  blogs.forEach((blog, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), blog]);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => [...group].sort((a, b) => new Date(a.addedAt).getTime() - new Date(b.addedAt).getTime()));
+};
+
+// --- Merging ---
+
+const unionPosts = (lists: BlogPost[][]): BlogPost[] => {
+  const byGuid = new Map<string, BlogPost>();
+  // Earlier lists win, so the kept entry's analyzed posts survive
+  lists.flat().forEach(p => { if (!byGuid.has(p.guid)) byGuid.set(p.guid, p); });
+  return Array.from(byGuid.values())
+    .sort((a, b) => new Date(b.pubDate).getTime() - new Date(a.pubDate).getTime())
+    .slice(0, MAX_STORED_POSTS);
+};
+
+const union = (lists: string[][]) => Array.from(new Set(lists.flat()));
+
+// Folds duplicates into the kept entry. Fetched data comes from whichever copy was checked
+// most recently; everything the user added (tags, collections, notes, favorite) is combined.
+export const mergeBlogs = (kept: BlogMetadata, duplicates: BlogMetadata[]): BlogMetadata => {
+  const all = [kept, ...duplicates];
+  const freshest = all.reduce((a, b) => new Date(b.lastCheckedAt).getTime() > new Date(a.lastCheckedAt).getTime() ? b : a);
+
+  const posts = unionPosts(all.map(b => b.posts));
+
+  return {
+    ...freshest,
+    id: kept.id,
+    url: kept.url,
+    canonicalId: all.find(b => b.canonicalId)?.canonicalId,
+    posts,
+    postTopics: aggregatePostTopics(posts),
+    history: all.map(b => b.history).reduce(mergeHistory),
+    knownGuids: union(all.map(b => b.knownGuids)).slice(0, MAX_TRACKED_POSTS),
+    tags: union(all.map(b => b.tags)),
+    manualTags: union(all.map(b => b.manualTags)),
+    collectionIds: union(all.map(b => b.collectionIds)),
+    isFavorite: all.some(b => b.isFavorite),
+    deepScan: all.some(b => b.deepScan) || undefined,
+    // The same note on both copies (e.g. a restored backup) is kept once
+    notes: union(all.map(b => b.notes?.trim() ? [b.notes.trim()] : [])).join('\n\n') || undefined,
+    addedAt: all.map(b => b.addedAt).sort()[0]
+  };
+};
+
+// Replaces the kept entry with the merged one (in place) and drops the duplicates
+export const mergeDuplicatesInLibrary = (blogs: BlogMetadata[], keptId: string, duplicateIds: string[]): BlogMetadata[] => {
+  const kept = blogs.find(b => b.id === keptId);
+  if (!kept) return blogs;
+  const merged = mergeBlogs(kept, blogs.filter(b => duplicateIds.includes(b.id) && b.id !== keptId));
+  return blogs
+    .filter(b => !duplicateIds.includes(b.id) || b.id === keptId)
+    .map(b => b.id === keptId ? merged : b);
+};
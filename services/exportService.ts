@@ -0,0 +1,214 @@
+import { CATEGORIES } from "../constants";
+import { BlogMetadata } from "../types";
+import { isSameBlog, mergeBlogs } from "./duplicateService";
+import { OrganizationSettings } from "./organizationService";
+import { CURRENT_SCHEMA_VERSION, migrateLibrary } from "./storageService";
+
+export const BACKUP_FORMAT = 'blogspotter-backup';
+// 2: collections and custom categories
+export const BACKUP_VERSION = 2;
+
+export interface LibraryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  // Library schema the blogs were written with; older backups are migrated on restore
+  schemaVersion?: number;
+  exportedAt: string;
+  blogs: BlogMetadata[];
+  organization: OrganizationSettings;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// --- OPML ---
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Groups blogs into one folder per category, the layout most feed readers expect
+export const exportOpml = (blogs: BlogMetadata[], title = 'BlogSpotter Library'): string => {
+  const byCategory = new Map<string, BlogMetadata[]>();
+  blogs.forEach(blog => {
+    const group = byCategory.get(blog.category) || [];
+    group.push(blog);
+    byCategory.set(blog.category, group);
+  });
+
+  const folders = Array.from(byCategory.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([category, group]) => {
+      const outlines = group.map(blog =>
+        `      <outline type="rss" text="${escapeXml(blog.title)}" title="${escapeXml(blog.title)}" xmlUrl="${escapeXml(blog.feedUrl)}" htmlUrl="${escapeXml(blog.url)}"/>`
+      );
+      return [`    <outline text="${escapeXml(category)}" title="${escapeXml(category)}">`, ...outlines, '    </outline>'].join('\n');
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...folders,
+    '  </body>',
+    '</opml>',
+    ''
+  ].join('\n');
+};
+
+// --- CSV ---
+
+const CSV_COLUMNS: { header: string; value: (blog: BlogMetadata) => string | number | boolean }[] = [
+  { header: 'title', value: b => b.title },
+  { header: 'url', value: b => b.url },
+  { header: 'feedUrl', value: b => b.feedUrl },
+  { header: 'platform', value: b => b.platform || 'blogger' },
+  { header: 'category', value: b => b.category },
+  { header: 'tags', value: b => b.tags.join('; ') },
+  { header: 'manualTags', value: b => b.manualTags.join('; ') },
+  { header: 'status', value: b => b.status },
+  { header: 'isFavorite', value: b => b.isFavorite },
+  { header: 'qualityScore', value: b => b.qualityScore },
+  { header: 'sentimentScore', value: b => b.sentimentScore },
+  { header: 'language', value: b => b.language },
+  { header: 'summary', value: b => b.summary || '' },
+  { header: 'classifiedBy', value: b => b.classification.model },
+  { header: 'classifiedAt', value: b => b.classification.classifiedAt },
+  { header: 'classificationFailed', value: b => b.classification.isFallback },
+  { header: 'totalPosts', value: b => b.stats.totalPosts },
+  { header: 'totalPages', value: b => b.stats.totalPages },
+  { header: 'totalComments', value: b => b.stats.totalComments },
+  { header: 'avgCommentsPerPost', value: b => b.stats.avgCommentsPerPost },
+  { header: 'avgWordsPerPost', value: b => b.stats.avgWordsPerPost },
+  { header: 'avgWordsPerPage', value: b => b.stats.avgWordsPerPage },
+  { header: 'avgImagesPerPost', value: b => b.stats.avgImagesPerPost },
+  { header: 'avgDaysBetweenPosts', value: b => b.stats.avgDaysBetweenPosts },
+  { header: 'consistencyScore', value: b => b.stats.consistencyScore },
+  { header: 'followersCount', value: b => b.stats.followersCount },
+  { header: 'followersSource', value: b => b.signals?.followers?.source || '' },
+  { header: 'commentSystem', value: b => b.signals?.commentSystem.value || '' },
+  { header: 'firstPostDate', value: b => b.stats.firstPostDate },
+  { header: 'lastPostDate', value: b => b.stats.lastPostDate },
+  { header: 'addedAt', value: b => b.addedAt },
+  { header: 'lastCheckedAt', value: b => b.lastCheckedAt },
+  { header: 'consecutiveFailures', value: b => b.health.consecutiveFailures },
+  { header: 'lastError', value: b => b.health.lastError || '' }
+];
+
+const escapeCsv = (value: string | number | boolean): string => {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportCsv = (blogs: BlogMetadata[]): string => {
+  const header = CSV_COLUMNS.map(c => c.header).join(',');
+  const rows = blogs.map(blog => CSV_COLUMNS.map(c => escapeCsv(c.value(blog))).join(','));
+  return [header, ...rows].join('\r\n') + '\r\n';
+};
+
+// --- JSON Backup ---
+
+export const createBackup = (blogs: BlogMetadata[], organization: OrganizationSettings): string => {
+  const backup: LibraryBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    blogs,
+    organization
+  };
+  return JSON.stringify(backup, null, 2);
+};
+
+// Each step upgrades a backup from `version - 1` to `version`; the blogs are already migrated
+const BACKUP_MIGRATIONS: { version: number; migrate: (backup: any) => any }[] = [
+  {
+    version: 2,
+    // Names were never exported, so the collections the blogs belong to come back with placeholder names
+    migrate: backup => {
+      const collectionIds = Array.from(new Set<string>(backup.blogs.flatMap((b: BlogMetadata) => b.collectionIds)));
+      const categories = Array.from(new Set<string>(backup.blogs.map((b: BlogMetadata) => b.category)));
+      return {
+        ...backup,
+        organization: {
+          collections: collectionIds.map((id, i) => ({ id, name: `Restored collection ${i + 1}`, createdAt: backup.exportedAt })),
+          customCategories: categories.filter(c => c && !CATEGORIES.includes(c))
+        }
+      };
+    }
+  }
+];
+
+export const parseBackup = (text: string): LibraryBackup => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error("Backup file is not valid JSON.");
+  }
+
+  if (data?.format !== BACKUP_FORMAT || typeof data.version !== 'number') {
+    throw new Error("This file is not a BlogSpotter backup.");
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${data.version} is newer than this app supports (${BACKUP_VERSION}). Please update BlogSpotter.`);
+  }
+  if (!Array.isArray(data.blogs) || data.blogs.some((b: any) => !b?.id || !b?.url || !b?.stats)) {
+    throw new Error("Backup is missing blog records or they are malformed.");
+  }
+
+  return BACKUP_MIGRATIONS
+    .filter(m => m.version > data.version)
+    .reduce((backup, m) => m.migrate(backup), { ...data, blogs: migrateLibrary(data.blogs, data.schemaVersion ?? 0) });
+};
+
+// Merge matches blogs by id, then as the same blog (canonical id or equivalent URL), and combines the two copies
+// like the duplicate merge: fetched data comes from the more recently checked one, while tags, notes, collections,
+// favorites, posts and history from both sides are kept.
+export const restoreBackup = (current: BlogMetadata[], backup: LibraryBackup, mode: RestoreMode): BlogMetadata[] => {
+  if (mode === 'replace') return backup.blogs;
+
+  const result = [...current];
+  for (const incoming of backup.blogs) {
+    const index = result.findIndex(b => b.id === incoming.id || isSameBlog(b, incoming));
+    if (index === -1) {
+      result.push(incoming);
+      continue;
+    }
+
+    result[index] = mergeBlogs(result[index], [incoming]);
+  }
+  return result;
+};
+
+// Collections are matched by id and categories by name; in a merge the library's own names win
+export const restoreOrganization = (current: OrganizationSettings, backup: LibraryBackup, mode: RestoreMode): OrganizationSettings => {
+  if (mode === 'replace') return backup.organization;
+
+  const categoryKeys = new Set(current.customCategories.map(c => c.toLowerCase()));
+  return {
+    collections: [...current.collections, ...backup.organization.collections.filter(c => !current.collections.some(k => k.id === c.id))],
+    customCategories: [...current.customCategories, ...backup.organization.customCategories.filter(c => !categoryKeys.has(c.toLowerCase()))]
+  };
+};
+
+// --- Download ---
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,207 @@
+import { BlogPlatform } from "../types";
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+// A platform-neutral feed item; rssService turns these into BlogPosts
+export interface FeedEntry {
+  title: string;
+  link: string;
+  pubDate: string;
+  guid: string;
+  content: string;
+  commentCount: number;
+  tags: string[];
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string;
+  description: string;
+  siteUrl: string;
+  entries: FeedEntry[];
+}
+
+export interface DiscoveredFeed {
+  url: string;
+  type: string;
+  title: string;
+}
+
+const FEED_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/feed+json',
+  'application/json'
+];
+
+// Tried in order when a site's HTML does not advertise a feed
+export const COMMON_FEED_PATHS = ['/feed', '/rss', '/feed.xml', '/rss.xml', '/atom.xml', '/index.xml', '/feed.json'];
+
+// --- Platform Detection ---
+
+export const detectPlatform = (siteUrl: string, html: string): BlogPlatform => {
+  let host = '';
+  try {
+    host = new URL(siteUrl).hostname.toLowerCase();
+  } catch (e) { /* leave host empty */ }
+
+  const generator = (html.match(/<meta[^>]+name=["']generator["'][^>]*>/i)?.[0]
+    || html.match(/<meta[^>]+content=["'][^"']*["'][^>]+name=["']generator["'][^>]*>/i)?.[0]
+    || '').toLowerCase();
+
+  if (/\.blogspot\.[a-z.]+$/.test(host) || host.endsWith('blogger.com') || generator.includes('blogger')) return 'blogger';
+  if (host.endsWith('substack.com') || /substackcdn\.com/i.test(html)) return 'substack';
+  if (host === 'medium.com' || host.endsWith('.medium.com') || /cdn-client\.medium\.com/i.test(html)) return 'medium';
+  if (generator.includes('ghost')) return 'ghost';
+  if (generator.includes('wordpress') || /\/wp-content\//i.test(html)) return 'wordpress';
+  return 'generic';
+};
+
+// --- Discovery ---
+
+const readAttr = (tag: string, name: string): string => {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, 'i'));
+  return match ? match[1] : '';
+};
+
+// Finds <link rel="alternate"> feed declarations in a page's <head>
+export const discoverFeedLinks = (html: string, baseUrl: string): DiscoveredFeed[] => {
+  const feeds: DiscoveredFeed[] = [];
+  const linkTags = html.match(/<link\b[^>]*>/gi) || [];
+
+  for (const tag of linkTags) {
+    const rel = readAttr(tag, 'rel').toLowerCase().split(/\s+/);
+    const type = readAttr(tag, 'type').toLowerCase();
+    const href = readAttr(tag, 'href');
+    if (!rel.includes('alternate') || !FEED_TYPES.includes(type) || !href) continue;
+
+    try {
+      const url = new URL(href.replace(/&amp;/g, '&'), baseUrl).toString();
+      // Comment feeds are advertised alongside the main one; skip them
+      if (/comments\/feed|\/comments\/default/i.test(url)) continue;
+      if (!feeds.some(f => f.url === url)) {
+        feeds.push({ url, type, title: readAttr(tag, 'title') });
+      }
+    } catch (e) { /* ignore malformed hrefs */ }
+  }
+
+  return feeds;
+};
+
+// Medium and Substack publish their feeds at fixed, non-advertised locations
+export const getPlatformFeedUrl = (siteUrl: string, platform: BlogPlatform): string | null => {
+  const url = new URL(siteUrl);
+  if (platform === 'substack') return `${url.origin}/feed`;
+  if (platform === 'medium') {
+    const path = url.pathname.replace(/\/$/, '');
+    return url.hostname === 'medium.com' ? `${url.origin}/feed${path}` : `${url.origin}/feed`;
+  }
+  if (platform === 'ghost') return `${url.origin}/rss/`;
+  if (platform === 'wordpress') return `${url.origin}${url.pathname.replace(/\/$/, '')}/feed/`;
+  return null;
+};
+
+// --- Parsing ---
+
+const textOf = (parent: Element, selector: string): string => {
+  const el = parent.getElementsByTagName(selector)[0];
+  return el?.textContent?.trim() || '';
+};
+
+const parseRss = (doc: Document): ParsedFeed => {
+  const channel = doc.getElementsByTagName('channel')[0];
+  const items = Array.from(doc.getElementsByTagName('item'));
+
+  return {
+    format: 'rss',
+    title: channel ? textOf(channel, 'title') : '',
+    description: channel ? textOf(channel, 'description') : '',
+    siteUrl: channel ? textOf(channel, 'link') : '',
+    entries: items.map(item => {
+      const link = textOf(item, 'link');
+      const comments = textOf(item, 'slash:comments');
+      return {
+        title: textOf(item, 'title'),
+        link,
+        pubDate: textOf(item, 'pubDate') || textOf(item, 'dc:date'),
+        guid: textOf(item, 'guid') || link,
+        content: textOf(item, 'content:encoded') || textOf(item, 'description'),
+        commentCount: comments ? parseInt(comments, 10) || 0 : 0,
+        tags: Array.from(item.getElementsByTagName('category')).map(c => c.textContent?.trim() || '').filter(Boolean)
+      };
+    })
+  };
+};
+
+const atomLink = (parent: Element, rel = 'alternate'): string => {
+  const links = Array.from(parent.children).filter(el => el.localName === 'link');
+  const match = links.find(l => (l.getAttribute('rel') || 'alternate') === rel);
+  return match?.getAttribute('href') || '';
+};
+
+const parseAtom = (doc: Document): ParsedFeed => {
+  const feed = doc.documentElement;
+  const entries = Array.from(doc.getElementsByTagName('entry'));
+
+  return {
+    format: 'atom',
+    title: textOf(feed, 'title'),
+    description: textOf(feed, 'subtitle'),
+    siteUrl: atomLink(feed),
+    entries: entries.map(entry => {
+      const total = textOf(entry, 'thr:total');
+      return {
+        title: textOf(entry, 'title'),
+        link: atomLink(entry),
+        pubDate: textOf(entry, 'published') || textOf(entry, 'updated'),
+        guid: textOf(entry, 'id') || atomLink(entry),
+        content: textOf(entry, 'content') || textOf(entry, 'summary'),
+        commentCount: total ? parseInt(total, 10) || 0 : 0,
+        tags: Array.from(entry.getElementsByTagName('category')).map(c => c.getAttribute('term') || '').filter(Boolean)
+      };
+    })
+  };
+};
+
+const parseJsonFeed = (data: any): ParsedFeed => ({
+  format: 'json',
+  title: data.title || '',
+  description: data.description || '',
+  siteUrl: data.home_page_url || '',
+  entries: (data.items || []).map((item: any) => ({
+    title: item.title || '',
+    link: item.url || item.external_url || '',
+    pubDate: item.date_published || item.date_modified || '',
+    guid: String(item.id ?? item.url ?? ''),
+    content: item.content_html || item.content_text || item.summary || '',
+    commentCount: 0,
+    tags: item.tags || []
+  }))
+});
+
+// Sniffs the payload and dispatches to the RSS 2.0, Atom or JSON Feed parser
+export const parseFeed = (body: string): ParsedFeed => {
+  const trimmed = body.trim();
+
+  if (trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed);
+    if (typeof data.version === 'string' && data.version.includes('jsonfeed.org')) {
+      return parseJsonFeed(data);
+    }
+    throw new Error("Unrecognized JSON document. Expected a JSON Feed.");
+  }
+
+  if (/^<!doctype html|^<html/i.test(trimmed)) {
+    throw new Error("Received an HTML page instead of a feed.");
+  }
+
+  const doc = new DOMParser().parseFromString(trimmed, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("Feed is not well-formed XML.");
+  }
+
+  const root = doc.documentElement.localName;
+  if (root === 'rss' || root === 'RDF') return parseRss(doc);
+  if (root === 'feed') return parseAtom(doc);
+  throw new Error(`Unsupported feed format <${root}>.`);
+};
@@ -0,0 +1,26 @@
+import { UNREACHABLE_AFTER_FAILURES } from "../constants";
+import { BlogMetadata, BlogStatus, FetchHealth } from "../types";
+
+export const healthyAt = (at: string = new Date().toISOString()): FetchHealth => ({
+  consecutiveFailures: 0,
+  lastSuccessAt: at
+});
+
+// Records a failed refresh. Stats are left untouched so the last good data stays visible,
+// but after repeated failures the blog is flagged as Unreachable.
+export const markRefreshFailed = (blog: BlogMetadata, error: string, at: string = new Date().toISOString()): BlogMetadata => {
+  const consecutiveFailures = blog.health.consecutiveFailures + 1;
+  return {
+    ...blog,
+    status: consecutiveFailures >= UNREACHABLE_AFTER_FAILURES ? BlogStatus.Unreachable : blog.status,
+    health: {
+      ...blog.health,
+      consecutiveFailures,
+      lastError: error,
+      lastErrorAt: at
+    }
+  };
+};
+
+export const isFailing = (blog: BlogMetadata) =>
+  blog.status === BlogStatus.Unreachable || blog.health.consecutiveFailures > 0;
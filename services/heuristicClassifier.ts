@@ -0,0 +1,90 @@
+import { BlogPost, ClassificationResult } from "../types";
+
+export const HEURISTIC_MODEL = "keywords-v1";
+
+// Keyword stems per category; matched against word starts so "photo" covers "photography"
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  "Technology": ["tech", "software", "code", "coding", "program", "develop", "javascript", "python", "linux", "android", "google", "cloud", "data", "api", "web", "app", "computer", "ai", "machine learning", "security", "open source", "gadget", "devops"],
+  "Lifestyle": ["lifestyle", "fashion", "beauty", "home", "wellness", "fitness", "health", "parenting", "family", "garden", "diy", "style", "mindful"],
+  "Travel": ["travel", "trip", "journey", "destination", "hotel", "flight", "backpack", "adventure", "tour", "vacation", "itinerary", "road trip", "beach", "hiking"],
+  "Food & Cooking": ["food", "recipe", "cook", "kitchen", "bake", "baking", "dinner", "vegan", "restaurant", "cuisine", "dessert", "bread", "coffee", "wine"],
+  "Photography": ["photo", "camera", "lens", "portrait", "landscape", "lightroom", "exposure", "shoot", "film"],
+  "Art & Design": ["art", "design", "illustration", "paint", "drawing", "sketch", "typography", "craft", "gallery", "artist", "ux", "creative"],
+  "Personal": ["my life", "diary", "journal", "thoughts", "musings", "personal", "reflection", "memoir"],
+  "Business": ["business", "startup", "marketing", "finance", "invest", "money", "entrepreneur", "sales", "economy", "product", "management", "career", "leadership"],
+  "Education": ["education", "learn", "teach", "school", "student", "course", "tutorial", "university", "study", "science", "research", "history", "math"],
+  "Entertainment": ["movie", "music", "game", "gaming", "tv", "show", "series", "book review", "celebrity", "anime", "comic", "podcast", "concert", "album"]
+};
+
+const POSITIVE_WORDS = ["best", "great", "love", "amazing", "happy", "new", "easy", "beautiful", "success", "improve", "win", "fun", "enjoy", "awesome", "favorite"];
+const NEGATIVE_WORDS = ["worst", "bad", "hate", "fail", "problem", "broken", "sad", "angry", "crisis", "death", "war", "risk", "wrong", "terrible", "loss"];
+
+// Common function words per language; the one with the most hits wins
+const LANGUAGE_STOPWORDS: Record<string, string[]> = {
+  "English": ["the", "and", "of", "to", "in", "is", "for", "with", "how", "what", "your"],
+  "Spanish": ["el", "la", "los", "las", "de", "y", "en", "para", "con", "por", "una"],
+  "French": ["le", "la", "les", "des", "et", "en", "pour", "avec", "une", "sur", "du"],
+  "German": ["der", "die", "das", "und", "mit", "für", "ein", "eine", "ist", "auf", "zu"],
+  "Portuguese": ["o", "os", "as", "de", "e", "em", "para", "com", "uma", "do", "da"],
+  "Italian": ["il", "lo", "gli", "di", "e", "per", "con", "una", "del", "della", "che"]
+};
+
+const tokenize = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Phrases match anywhere, short keywords only as whole words ("ai" must not match "air")
+const countMatches = (text: string, tokens: string[], keyword: string) =>
+  keyword.includes(' ')
+    ? text.split(keyword).length - 1
+    : tokens.filter(t => keyword.length <= 3 ? t === keyword : t.startsWith(keyword)).length;
+
+// Classifies from keywords alone, so it works offline and without an API key
+export const classifyHeuristically = (
+  title: string,
+  description: string,
+  posts: BlogPost[]
+): Omit<ClassificationResult, 'provenance'> => {
+  // Title and description describe the whole blog, so they count for more than a single post
+  const weightedTexts: [string, number][] = [
+    [title, 3],
+    [description, 2],
+    ...posts.map(p => [`${p.title} ${p.tags.join(' ')}`, 1] as [string, number])
+  ];
+
+  const categoryScores = Object.entries(CATEGORY_KEYWORDS).map(([category, keywords]) => {
+    const score = weightedTexts.reduce((sum, [text, weight]) => {
+      const lower = text.toLowerCase();
+      const tokens = tokenize(text);
+      return sum + weight * keywords.reduce((n, k) => n + countMatches(lower, tokens, k), 0);
+    }, 0);
+    return { category, score };
+  }).sort((a, b) => b.score - a.score);
+
+  const category = categoryScores[0].score > 0 ? categoryScores[0].category : "Other";
+
+  const allText = weightedTexts.map(([text]) => text).join(' ').toLowerCase();
+  const allTokens = tokenize(allText);
+
+  // Tags: the blog's own labels by frequency, falling back to matched keywords
+  const tagCounts = new Map<string, number>();
+  posts.forEach(p => p.tags.forEach(t => tagCounts.set(t, (tagCounts.get(t) || 0) + 1)));
+  let tags = Array.from(tagCounts.entries()).sort((a, b) => b[1] - a[1]).map(([t]) => t).slice(0, 5);
+  if (tags.length === 0 && category !== "Other") {
+    tags = CATEGORY_KEYWORDS[category].filter(k => countMatches(allText, allTokens, k) > 0).slice(0, 5);
+  }
+
+  const positive = allTokens.filter(t => POSITIVE_WORDS.includes(t)).length;
+  const negative = allTokens.filter(t => NEGATIVE_WORDS.includes(t)).length;
+  const sentimentScore = positive + negative === 0
+    ? 50
+    : Math.round(50 + 50 * (positive - negative) / (positive + negative + 2));
+
+  const languageHits = Object.entries(LANGUAGE_STOPWORDS)
+    .map(([language, words]) => ({ language, hits: allTokens.filter(t => words.includes(t)).length }))
+    .sort((a, b) => b.hits - a.hits);
+  const language = languageHits[0].hits > 0 ? languageHits[0].language : "Unknown";
+
+  // No generated summary offline; the first sentence of the description is the closest thing
+  const summary = (description.match(/^.*?[.!?](\s|$)/)?.[0] || description).trim().slice(0, 200);
+
+  return { category, tags, sentimentScore, language, summary };
+};
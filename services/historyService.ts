@@ -0,0 +1,88 @@
+import { MAX_HISTORY_SNAPSHOTS } from "../constants";
+import { BlogMetadata, BlogSnapshot, BlogStats } from "../types";
+
+export type TrendMetric = 'followersCount' | 'totalComments' | 'avgDaysBetweenPosts' | 'qualityScore';
+
+export interface TrendPoint {
+  takenAt: string;
+  value: number;
+}
+
+export interface TrendSummary {
+  metric: TrendMetric;
+  current: number;
+  previous: number | null;
+  delta: number | null;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const createSnapshot = (
+  stats: BlogStats,
+  qualityScore: number,
+  status: BlogMetadata['status'],
+  takenAt: string = new Date().toISOString()
+): BlogSnapshot => ({
+  takenAt,
+  stats: { ...stats },
+  qualityScore,
+  status
+});
+
+// Appends a snapshot, keeping the history ordered oldest-first and bounded in size
+export const appendSnapshot = (history: BlogSnapshot[] = [], snapshot: BlogSnapshot): BlogSnapshot[] => {
+  const next = [...history, snapshot].sort(
+    (a, b) => new Date(a.takenAt).getTime() - new Date(b.takenAt).getTime()
+  );
+  return next.slice(-MAX_HISTORY_SNAPSHOTS);
+};
+
+// Union of two histories; a snapshot present in both (same takenAt) is kept once
+export const mergeHistory = (a: BlogSnapshot[], b: BlogSnapshot[]): BlogSnapshot[] => {
+  const byTime = new Map<string, BlogSnapshot>();
+  [...a, ...b].forEach(s => byTime.set(s.takenAt, s));
+  return Array.from(byTime.values())
+    .sort((x, y) => new Date(x.takenAt).getTime() - new Date(y.takenAt).getTime())
+    .slice(-MAX_HISTORY_SNAPSHOTS);
+};
+
+const readMetric = (snapshot: BlogSnapshot, metric: TrendMetric): number => {
+  if (metric === 'qualityScore') return snapshot.qualityScore;
+  return snapshot.stats[metric];
+};
+
+// Followers are -1 when unknown, including snapshots migrated from the old scraper's zeros
+const isKnown = (snapshot: BlogSnapshot, metric: TrendMetric) =>
+  metric !== 'followersCount' || snapshot.stats.followersCount >= 0;
+
+export const getTrendSeries = (history: BlogSnapshot[], metric: TrendMetric, sinceDays?: number): TrendPoint[] => {
+  const cutoff = sinceDays ? Date.now() - sinceDays * DAY_MS : 0;
+  return history
+    .filter(s => new Date(s.takenAt).getTime() >= cutoff)
+    // Unknown points would distort the line
+    .filter(s => isKnown(s, metric))
+    .map(s => ({ takenAt: s.takenAt, value: readMetric(s, metric) }));
+};
+
+// Compares the latest snapshot with the most recent one taken at least `periodDays` earlier.
+// When the history does not reach that far back there is no baseline and `delta` stays null.
+// When the latest snapshot has no value there is no trend, rather than one from stale points.
+export const summarizeTrend = (history: BlogSnapshot[], metric: TrendMetric, periodDays: number): TrendSummary | null => {
+  if (history.length > 0 && !isKnown(history[history.length - 1], metric)) return null;
+  const series = getTrendSeries(history, metric);
+  if (series.length === 0) return null;
+
+  const latest = series[series.length - 1];
+  const target = new Date(latest.takenAt).getTime() - periodDays * DAY_MS;
+  const baseline = [...series.slice(0, -1)].reverse().find(p => new Date(p.takenAt).getTime() <= target);
+  if (!baseline) {
+    return { metric, current: latest.value, previous: null, delta: null };
+  }
+
+  return {
+    metric,
+    current: latest.value,
+    previous: baseline.value,
+    delta: Math.round((latest.value - baseline.value) * 10) / 10
+  };
+};
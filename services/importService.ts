@@ -0,0 +1,170 @@
+import { normalizeUrl } from "./rssService";
+import { urlKey } from "./duplicateService";
+
+export type ImportFormat = 'opml' | 'csv' | 'list';
+
+export interface ImportCandidate {
+  url: string;
+  // Title supplied by the source file, if any (OPML outline text, CSV title column)
+  label?: string;
+}
+
+export type ImportOutcome = 'added' | 'duplicate' | 'failed';
+
+export interface ImportResult {
+  url: string;
+  outcome: ImportOutcome;
+  title?: string;
+  error?: string;
+}
+
+const URL_COLUMNS = ['url', 'htmlurl', 'website', 'site', 'link', 'blog', 'xmlurl', 'feed', 'feedurl'];
+const TITLE_COLUMNS = ['title', 'name', 'text'];
+
+// Feed readers often export only the feed URL; analysis wants the site itself
+export const siteUrlFromFeedUrl = (feedUrl: string): string => {
+  const stripped = feedUrl
+    .replace(/\/feeds\/posts\/(default|summary).*$/i, '')
+    .replace(/\/(feed|rss|atom)(\/(rss2?|atom))?\/?(\?.*)?$/i, '')
+    .replace(/\/(feed|rss|atom|index)\.(xml|json)$/i, '');
+  return stripped;
+};
+
+export const detectImportFormat = (text: string, fileName = ''): ImportFormat => {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.opml') || /<opml[\s>]/i.test(text.slice(0, 2000))) return 'opml';
+  if (lowerName.endsWith('.csv')) return 'csv';
+
+  const firstLine = text.trim().split(/\r?\n/)[0] || '';
+  const header = firstLine.toLowerCase().split(/[,;\t]/).map(h => h.trim().replace(/^"|"$/g, ''));
+  if (header.length > 1 && header.some(h => URL_COLUMNS.includes(h))) return 'csv';
+  return 'list';
+};
+
+const parseOpml = (text: string): ImportCandidate[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("The OPML file is not well-formed XML.");
+  }
+
+  return Array.from(doc.getElementsByTagName('outline'))
+    .map(outline => {
+      const htmlUrl = outline.getAttribute('htmlUrl');
+      const xmlUrl = outline.getAttribute('xmlUrl');
+      const url = htmlUrl || (xmlUrl ? siteUrlFromFeedUrl(xmlUrl) : '');
+      return { url, label: outline.getAttribute('title') || outline.getAttribute('text') || undefined };
+    })
+    // Folder outlines carry no URL
+    .filter(c => !!c.url);
+};
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes, and commas/newlines inside quotes
+const parseCsvRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row);
+      row = []; field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) { row.push(field); rows.push(row); }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const looksLikeUrl = (value: string) => /^(https?:\/\/)?[\w-]+(\.[\w-]+)+(\/\S*)?$/i.test(value.trim());
+
+const parseCsv = (text: string): ImportCandidate[] => {
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  const delimiter = [',', ';', '\t'].sort((a, b) => firstLine.split(b).length - firstLine.split(a).length)[0];
+  const rows = parseCsvRows(text, delimiter);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const urlIndex = URL_COLUMNS.map(c => header.indexOf(c)).find(i => i >= 0);
+  const titleIndex = TITLE_COLUMNS.map(c => header.indexOf(c)).find(i => i >= 0);
+
+  // Headerless CSV: take the first cell on each row that looks like a URL
+  if (urlIndex === undefined) {
+    return rows
+      .map(r => r.find(looksLikeUrl))
+      .filter((url): url is string => !!url)
+      .map(url => ({ url: url.trim() }));
+  }
+
+  const isFeedColumn = ['xmlurl', 'feed', 'feedurl'].includes(header[urlIndex]);
+  return rows.slice(1)
+    .map(r => {
+      const raw = (r[urlIndex] || '').trim();
+      return {
+        url: isFeedColumn ? siteUrlFromFeedUrl(raw) : raw,
+        label: titleIndex !== undefined ? r[titleIndex]?.trim() || undefined : undefined
+      };
+    })
+    .filter(c => looksLikeUrl(c.url));
+};
+
+const parseList = (text: string): ImportCandidate[] =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#') && looksLikeUrl(line))
+    .map(url => ({ url }));
+
+export const parseImport = (text: string, format: ImportFormat): ImportCandidate[] => {
+  if (format === 'opml') return parseOpml(text);
+  if (format === 'csv') return parseCsv(text);
+  return parseList(text);
+};
+
+// Splits candidates into new URLs and ones already in the library or repeated in the input
+export const dedupeCandidates = (candidates: ImportCandidate[], existingUrls: string[]) => {
+  const seen = new Set(existingUrls.map(urlKey));
+  const fresh: ImportCandidate[] = [];
+  const duplicates: ImportCandidate[] = [];
+
+  for (const candidate of candidates) {
+    const url = normalizeUrl(candidate.url);
+    if (seen.has(urlKey(url))) {
+      duplicates.push({ ...candidate, url });
+    } else {
+      seen.add(urlKey(url));
+      fresh.push({ ...candidate, url });
+    }
+  }
+
+  return { fresh, duplicates };
+};
+
+// Runs `worker` over `items` with at most `limit` in flight, stopping early if the signal aborts
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let nextIndex = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+};
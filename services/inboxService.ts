@@ -0,0 +1,77 @@
+import { MAX_INBOX_ITEMS, MAX_TRACKED_POSTS } from "../constants";
+import { BlogMetadata, BlogPost, InboxEntry } from "../types";
+
+const NOTIFICATIONS_STORAGE_KEY = 'blogspotter_notifications';
+
+// --- New Post Detection ---
+
+// A blog with no known GUIDs is being seen for the first time; its whole feed is
+// treated as already read instead of flooding the inbox.
+export const detectNewPosts = (knownGuids: string[], fetchedPosts: BlogPost[]): BlogPost[] => {
+  if (knownGuids.length === 0) return [];
+  const known = new Set(knownGuids);
+  return fetchedPosts.filter(p => p.guid && !known.has(p.guid));
+};
+
+export const mergeKnownGuids = (knownGuids: string[], fetchedPosts: BlogPost[]): string[] =>
+  Array.from(new Set([...fetchedPosts.map(p => p.guid).filter(Boolean), ...knownGuids])).slice(0, MAX_TRACKED_POSTS);
+
+export const inboxEntryId = (blogId: string, guid: string) => `${blogId}:${guid}`;
+
+export const createInboxEntries = (blogId: string, posts: BlogPost[], discoveredAt: string = new Date().toISOString()): InboxEntry[] =>
+  posts.map(post => ({
+    id: inboxEntryId(blogId, post.guid),
+    blogId,
+    post,
+    discoveredAt,
+    isRead: false
+  }));
+
+// Newest posts first
+export const sortInbox = (entries: InboxEntry[]): InboxEntry[] =>
+  [...entries].sort((a, b) => new Date(b.post.pubDate).getTime() - new Date(a.post.pubDate).getTime());
+
+// The oldest entries fall off once the inbox is full
+export const addToInbox = (inbox: InboxEntry[], entries: InboxEntry[]): InboxEntry[] => {
+  const existing = new Set(inbox.map(e => e.id));
+  return sortInbox([...inbox, ...entries.filter(e => !existing.has(e.id))]).slice(0, MAX_INBOX_ITEMS);
+};
+
+// Moves entries of merged-away blogs to the blog they were merged into, dropping posts it already has
+export const reassignInboxEntries = (inbox: InboxEntry[], fromIds: string[], toId: string): InboxEntry[] => {
+  const seen = new Set<string>();
+  return inbox
+    .map(e => fromIds.includes(e.blogId) ? { ...e, blogId: toId, id: inboxEntryId(toId, e.post.guid) } : e)
+    .filter(e => !seen.has(e.id) && !!seen.add(e.id));
+};
+
+// --- Browser Notifications ---
+
+export const loadNotificationsEnabled = (): boolean => localStorage.getItem(NOTIFICATIONS_STORAGE_KEY) === 'true';
+
+export const saveNotificationsEnabled = (enabled: boolean) => {
+  localStorage.setItem(NOTIFICATIONS_STORAGE_KEY, String(enabled));
+};
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+// One notification per blog and refresh, however many posts it published
+export const notifyNewPosts = (blog: BlogMetadata, posts: BlogPost[]) => {
+  if (posts.length === 0 || !notificationsSupported() || Notification.permission !== 'granted') return;
+
+  const body = posts.length === 1
+    ? posts[0].title
+    : `${posts.length} new posts, latest: ${posts[0].title}`;
+  const notification = new Notification(blog.title, { body, tag: `blogspotter-${blog.id}` });
+  notification.onclick = () => {
+    window.open(posts[0].link || blog.url, '_blank', 'noopener');
+    notification.close();
+  };
+};
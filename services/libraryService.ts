@@ -0,0 +1,159 @@
+import { MAX_RECENT_POSTS } from "../constants";
+import { BlogMetadata, BlogPost, ClassificationResult } from "../types";
+import { analyzeBlogAndFetch, AnalyzeOptions, BlogAnalysis, normalizeUrl } from "./rssService";
+import { classifyBlog, ClassifierSettings, DEFAULT_CLASSIFIER_SETTINGS, isClassificationOutdated } from "./classifierService";
+import { aggregatePostTopics, analyzePosts } from "./postAnalysisService";
+import { appendSnapshot, createSnapshot } from "./historyService";
+import { healthyAt } from "./healthService";
+import { mergeKnownGuids } from "./inboxService";
+import { isCustomCategory } from "./organizationService";
+
+export interface CurateOptions extends AnalyzeOptions {
+  // Called when analysis is done and classification starts
+  onClassifying?: () => void;
+  // Defaults to Gemini when a key is configured, otherwise the offline classifier
+  classifier?: ClassifierSettings;
+  // Receives the fetched post bodies once the entry is built, keyed by post GUID.
+  // Store them only once the entry is kept, so a rejected duplicate leaves nothing behind.
+  onPostText?: (blogId: string, postText: Record<string, string>) => void;
+}
+
+// Runs per-post analysis on a fresh fetch when it is enabled (or forced), and otherwise
+// carries earlier post analysis over so a refresh never drops it
+export const analyzeFetchedPosts = (
+  analysis: BlogAnalysis,
+  previousPosts: BlogPost[],
+  settings: ClassifierSettings,
+  force = false
+): Promise<BlogPost[]> =>
+  analyzePosts(
+    analysis.posts || [],
+    analysis.postText,
+    previousPosts,
+    settings,
+    settings.postAnalysis.enabled || force ? settings.postAnalysis.postsPerRefresh : 0
+  );
+
+// Runs the full add pipeline (deep analysis + classification) and builds a library entry
+export const curateBlog = async (blogUrl: string, options: CurateOptions = {}): Promise<BlogMetadata> => {
+  const cleanUrl = normalizeUrl(blogUrl);
+
+  // 1. Deep Analysis (Stats, Scraping, JSON Feed)
+  const analysisData = await analyzeBlogAndFetch(cleanUrl, options);
+
+  if (!analysisData.title) {
+    throw new Error("Could not parse blog data.");
+  }
+
+  options.onClassifying?.();
+  const classifier = options.classifier || DEFAULT_CLASSIFIER_SETTINGS;
+
+  // 2. Classify (Gemini, OpenAI-compatible or offline keywords)
+  const classification = await classifyBlog(
+    analysisData.title!,
+    analysisData.description || "",
+    (analysisData.posts || []).slice(0, MAX_RECENT_POSTS),
+    classifier
+  );
+  const posts = await analyzeFetchedPosts(analysisData, [], classifier);
+
+  // 3. Construct Object
+  // Combine analysis tags with classifier tags
+  const combinedTags = Array.from(new Set([...(analysisData.tags || []), ...classification.tags]));
+
+  const id = crypto.randomUUID();
+  options.onPostText?.(id, analysisData.postText);
+
+  return {
+    id,
+    url: analysisData.url || cleanUrl,
+    canonicalId: analysisData.canonicalId,
+    feedUrl: analysisData.feedUrl || cleanUrl + '/feeds/posts/default?alt=json',
+    platform: analysisData.platform,
+    title: analysisData.title!,
+    description: analysisData.description || "",
+    lastBuildDate: analysisData.lastBuildDate!,
+    posts,
+    status: analysisData.status!,
+    stats: analysisData.stats!,
+    signals: analysisData.signals,
+    qualityScore: analysisData.qualityScore!,
+
+    // AI Data
+    category: classification.category,
+    tags: combinedTags,
+    postTopics: aggregatePostTopics(posts),
+    manualTags: [],
+    sentimentScore: classification.sentimentScore,
+    language: classification.language,
+    summary: classification.summary || undefined,
+    classification: classification.provenance,
+
+    isFavorite: false,
+    collectionIds: [],
+    deepScan: options.deepScan,
+    addedAt: new Date().toISOString(),
+    lastCheckedAt: new Date().toISOString(),
+    history: [createSnapshot(analysisData.stats!, analysisData.qualityScore!, analysisData.status!)],
+    health: { consecutiveFailures: 0, lastSuccessAt: new Date().toISOString() },
+    knownGuids: mergeKnownGuids([], analysisData.fetchedPosts)
+  };
+};
+
+// --- Refresh ---
+
+// Folds a fresh analysis into an existing entry. Everything the user added (category, manual tags,
+// collections, notes) is kept, and the new numbers are appended to the history.
+export const applyRefresh = (blog: BlogMetadata, analysisData: BlogAnalysis, posts: BlogPost[]): BlogMetadata => ({
+  ...blog,
+  url: analysisData.url || blog.url,
+  canonicalId: analysisData.canonicalId || blog.canonicalId,
+  title: analysisData.title!,
+  description: analysisData.description || "",
+  feedUrl: analysisData.feedUrl || blog.feedUrl,
+  platform: analysisData.platform || blog.platform,
+  lastBuildDate: analysisData.lastBuildDate!,
+  posts,
+  status: analysisData.status!,
+  stats: analysisData.stats!,
+  signals: analysisData.signals,
+  qualityScore: analysisData.qualityScore!,
+  // Merge tags carefully
+  tags: Array.from(new Set([...blog.tags, ...(analysisData.tags || [])])),
+  // Follows the current posts, so topics the blog moved away from drop off
+  postTopics: aggregatePostTopics(posts),
+  lastCheckedAt: new Date().toISOString(),
+  knownGuids: mergeKnownGuids(blog.knownGuids, analysisData.fetchedPosts),
+  // A successful fetch clears any failure streak and its Unreachable status
+  health: { ...healthyAt(), lastError: blog.health.lastError, lastErrorAt: blog.health.lastErrorAt },
+  history: appendSnapshot(
+    blog.history,
+    createSnapshot(analysisData.stats!, analysisData.qualityScore!, analysisData.status!)
+  )
+});
+
+// --- Re-classification ---
+
+export const needsReclassification = (blog: BlogMetadata, settings: ClassifierSettings) =>
+  blog.classification.isFallback || isClassificationOutdated(blog.classification, settings);
+
+// Re-runs the classifier on the stored posts; nothing is refetched.
+// Throws when the classifier fails so the previous results are never replaced by placeholders.
+export const reclassifyBlog = async (blog: BlogMetadata, settings: ClassifierSettings): Promise<ClassificationResult> => {
+  const classification = await classifyBlog(blog.title, blog.description, blog.posts.slice(0, MAX_RECENT_POSTS), settings);
+  if (classification.provenance.isFallback) {
+    throw new Error(classification.provenance.error || "Classification failed.");
+  }
+  return classification;
+};
+
+// Custom categories are only ever chosen by hand, so the classifier never replaces one
+export const applyClassification = (blog: BlogMetadata, classification: ClassificationResult): BlogMetadata => ({
+  ...blog,
+  category: isCustomCategory(blog.category) ? blog.category : classification.category,
+  tags: Array.from(new Set([...blog.tags, ...classification.tags])),
+  sentimentScore: classification.sentimentScore,
+  language: classification.language,
+  summary: classification.summary || undefined,
+  classification: classification.provenance
+});
@@ -0,0 +1,47 @@
+export interface OpenAiEndpoint {
+  // e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama
+  baseUrl: string;
+  model: string;
+  // Optional; local servers usually don't need one
+  apiKey: string;
+}
+
+// Sends a prompt to any OpenAI-compatible chat completions endpoint and returns the parsed JSON reply
+export const generateOpenAiJson = async (prompt: string, endpoint: OpenAiEndpoint): Promise<unknown> => {
+  if (!endpoint.baseUrl || !endpoint.model) {
+    throw new Error("OpenAI-compatible endpoint is not configured.");
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (endpoint.apiKey) {
+    headers['Authorization'] = `Bearer ${endpoint.apiKey}`;
+  }
+
+  const response = await fetch(`${endpoint.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: endpoint.model,
+      messages: [
+        { role: 'system', content: 'You analyze blogs and their posts. Reply with a single JSON object and nothing else.' },
+        { role: 'user', content: prompt }
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0.2
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Endpoint returned ${response.status} ${response.statusText}`.trim());
+  }
+
+  const data = await response.json();
+  const content: string | undefined = data?.choices?.[0]?.message?.content;
+  if (!content) {
+    throw new Error("Empty response from the model");
+  }
+
+  // Some local models wrap JSON in a code fence despite the response format
+  const json = content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  return JSON.parse(json);
+};
@@ -0,0 +1,76 @@
+import { CATEGORIES } from "../constants";
+import { BlogMetadata } from "../types";
+
+const ORGANIZATION_STORAGE_KEY = 'blogspotter_organization';
+
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface OrganizationSettings {
+  collections: Collection[];
+  // Added by the user next to the built-in CATEGORIES
+  customCategories: string[];
+}
+
+export const loadOrganization = (): OrganizationSettings => {
+  try {
+    const raw = localStorage.getItem(ORGANIZATION_STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      return {
+        collections: Array.isArray(parsed.collections) ? parsed.collections : [],
+        customCategories: Array.isArray(parsed.customCategories) ? parsed.customCategories : []
+      };
+    }
+  } catch (e) {
+    // Fall through to defaults
+  }
+  return { collections: [], customCategories: [] };
+};
+
+export const saveOrganization = (settings: OrganizationSettings) => {
+  localStorage.setItem(ORGANIZATION_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// --- Categories ---
+
+export const getAllCategories = (settings: OrganizationSettings): string[] => [...CATEGORIES, ...settings.customCategories];
+
+export const isCustomCategory = (category: string) => !CATEGORIES.includes(category);
+
+// Trims the name and rejects blanks and case-insensitive clashes with any other category
+export const validateCategoryName = (settings: OrganizationSettings, name: string, current?: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Category name cannot be empty.");
+  }
+  if (getAllCategories(settings).some(c => c !== current && c.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`A category named "${trimmed}" already exists.`);
+  }
+  return trimmed;
+};
+
+export const renameCategory = (blogs: BlogMetadata[], from: string, to: string): BlogMetadata[] =>
+  blogs.map(b => b.category === from ? { ...b, category: to } : b);
+
+// --- Collections ---
+
+export const createCollection = (name: string): Collection => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  createdAt: new Date().toISOString()
+});
+
+export const removeCollection = (blogs: BlogMetadata[], collectionId: string): BlogMetadata[] =>
+  blogs.map(b => b.collectionIds.includes(collectionId) ? { ...b, collectionIds: b.collectionIds.filter(id => id !== collectionId) } : b);
+
+// --- Tags ---
+
+// Manual tags first, then automatic ones and post topics, each only once whatever its case
+export const getBlogTags = (blog: BlogMetadata): string[] => {
+  const seen = new Set<string>();
+  return [...blog.manualTags, ...blog.tags, ...blog.postTopics].filter(t => !seen.has(t.toLowerCase()) && !!seen.add(t.toLowerCase()));
+};
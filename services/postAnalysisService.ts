@@ -0,0 +1,150 @@
+import { Schema, Type } from "@google/genai";
+import { POST_ANALYSIS_BATCH_SIZE, POST_TEXT_CHARS } from "../constants";
+import { BlogPost, PostAnalysis } from "../types";
+import { ClassifierSettings, generateJson, getClassifierModel } from "./classifierService";
+import { classifyHeuristically, HEURISTIC_MODEL } from "./heuristicClassifier";
+
+const POSTS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    posts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.NUMBER, description: "The number of the post as given in the prompt." },
+          summary: { type: Type.STRING, description: "A concise 1-sentence summary of the post." },
+          topics: { type: Type.ARRAY, items: { type: Type.STRING }, description: "1-4 short topics the post covers." },
+          sentimentScore: { type: Type.NUMBER, description: "A score from 0 (negative) to 100 (positive) based on the post's tone." }
+        },
+        required: ["id", "summary", "topics", "sentimentScore"]
+      }
+    }
+  },
+  required: ["posts"]
+};
+
+// FNV-1a; only used to notice that a post's text changed, so collisions are harmless
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+const buildPrompt = (batch: { post: BlogPost; text: string }[]) => `
+    Analyze each of the following blog posts.
+
+    ${batch.map(({ post, text }, i) => `Post ${i + 1}
+    Title: ${post.title}
+    Text: ${text}`).join("\n\n    ")}
+
+    Reply with a JSON object with a "posts" array holding one entry per post, each with
+    "id" (the post number), "summary" (one sentence), "topics" (1-4 short topics)
+    and "sentimentScore" (0 negative to 100 positive).
+  `;
+
+const analyzeHeuristically = (post: BlogPost, text: string, contentHash: string, isFallback = false): PostAnalysis => {
+  const result = classifyHeuristically(post.title, text, []);
+  return {
+    summary: result.summary,
+    topics: [...post.tags, ...result.tags]
+      .filter((topic, i, all) => all.findIndex(t => t.toLowerCase() === topic.toLowerCase()) === i)
+      .slice(0, 4),
+    sentimentScore: result.sentimentScore,
+    contentHash,
+    provider: 'heuristic',
+    model: HEURISTIC_MODEL,
+    analyzedAt: new Date().toISOString(),
+    isFallback
+  };
+};
+
+const analyzeBatch = async (
+  batch: { post: BlogPost; text: string; contentHash: string }[],
+  settings: ClassifierSettings
+): Promise<PostAnalysis[]> => {
+  if (settings.provider === 'heuristic') {
+    return batch.map(({ post, text, contentHash }) => analyzeHeuristically(post, text, contentHash));
+  }
+
+  try {
+    const reply: any = await generateJson(buildPrompt(batch), POSTS_SCHEMA, settings);
+    const byId = new Map<number, any>((Array.isArray(reply?.posts) ? reply.posts : []).map((p: any) => [Number(p.id), p]));
+    const model = getClassifierModel(settings);
+    return batch.map(({ post, text, contentHash }, i) => {
+      const item = byId.get(i + 1);
+      // A post the model skipped falls back on its own instead of failing the batch
+      if (!item) return analyzeHeuristically(post, text, contentHash, true);
+      const sentiment = Number(item.sentimentScore);
+      return {
+        summary: typeof item.summary === 'string' ? item.summary : "",
+        topics: Array.isArray(item.topics) ? item.topics.map(String).filter(Boolean).slice(0, 4) : [],
+        sentimentScore: isNaN(sentiment) ? 50 : Math.max(0, Math.min(100, Math.round(sentiment))),
+        contentHash,
+        provider: settings.provider,
+        model,
+        analyzedAt: new Date().toISOString(),
+        isFallback: false
+      };
+    });
+  } catch (error) {
+    console.error("Post Analysis Error:", error);
+    return batch.map(({ post, text, contentHash }) => analyzeHeuristically(post, text, contentHash, true));
+  }
+};
+
+// Attaches analysis to posts. Earlier results are reused by GUID; up to `limit` of the newest
+// posts that are new, changed, analyzed by another classifier or left with a fallback are sent in batches.
+// With a limit of 0 this only carries earlier results over to freshly fetched posts.
+export const analyzePosts = async (
+  posts: BlogPost[],
+  postText: Record<string, string>,
+  previousPosts: BlogPost[],
+  settings: ClassifierSettings,
+  limit: number
+): Promise<BlogPost[]> => {
+  const cache = new Map(previousPosts.filter(p => p.analysis).map(p => [p.guid, p.analysis!]));
+  const model = getClassifierModel(settings);
+
+  const pending = posts
+    .map(post => {
+      const text = postText[post.guid]?.substring(0, POST_TEXT_CHARS);
+      const cached = cache.get(post.guid);
+      if (!text) return null;
+      const contentHash = hashText(text);
+      const isCurrent = cached && !cached.isFallback && cached.contentHash === contentHash && cached.provider === settings.provider && cached.model === model;
+      return isCurrent ? null : { post, text, contentHash };
+    })
+    .filter((item): item is { post: BlogPost; text: string; contentHash: string } => item !== null)
+    .slice(0, limit);
+
+  const fresh = new Map<string, PostAnalysis>();
+  for (let i = 0; i < pending.length; i += POST_ANALYSIS_BATCH_SIZE) {
+    const batch = pending.slice(i, i + POST_ANALYSIS_BATCH_SIZE);
+    const results = await analyzeBatch(batch, settings);
+    batch.forEach(({ post }, j) => fresh.set(post.guid, results[j]));
+  }
+
+  return posts.map(post => {
+    const analysis = fresh.get(post.guid) || cache.get(post.guid);
+    return analysis ? { ...post, analysis } : post;
+  });
+};
+
+// Topics shared by several posts describe the blog better than any single post's
+export const aggregatePostTopics = (posts: BlogPost[], limit = 10): string[] => {
+  const counts = new Map<string, { label: string; count: number }>();
+  posts.forEach(p => (p.analysis?.topics || []).forEach(topic => {
+    const key = topic.toLowerCase();
+    const entry = counts.get(key) || { label: topic, count: 0 };
+    counts.set(key, { ...entry, count: entry.count + 1 });
+  }));
+  return Array.from(counts.values())
+    .filter(t => t.count >= 2)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+    .map(t => t.label);
+};
@@ -0,0 +1,44 @@
+import { BlogPost } from "../types";
+
+export type PostMetric = 'wordCount' | 'imageCount' | 'commentCount';
+
+export interface BucketCount {
+  label: string;
+  count: number;
+}
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// Posts per calendar month across the fetched range, including empty months
+export const postsPerMonth = (posts: BlogPost[]): BucketCount[] => {
+  const dates = posts.map(p => new Date(p.pubDate)).filter(d => !isNaN(d.getTime()));
+  if (dates.length === 0) return [];
+
+  const counts = new Map<string, number>();
+  dates.forEach(d => counts.set(monthKey(d), (counts.get(monthKey(d)) || 0) + 1));
+
+  const first = new Date(Math.min(...dates.map(d => d.getTime())));
+  const last = new Date(Math.max(...dates.map(d => d.getTime())));
+  const buckets: BucketCount[] = [];
+  for (const cursor = new Date(first.getFullYear(), first.getMonth(), 1); cursor <= last; cursor.setMonth(cursor.getMonth() + 1)) {
+    const key = monthKey(cursor);
+    buckets.push({ label: key, count: counts.get(key) || 0 });
+  }
+  return buckets;
+};
+
+// Oldest first, so the series reads left to right
+export const postMetricSeries = (posts: BlogPost[], metric: PostMetric) =>
+  posts
+    .filter(p => !isNaN(new Date(p.pubDate).getTime()))
+    .sort((a, b) => new Date(a.pubDate).getTime() - new Date(b.pubDate).getTime())
+    .map(p => ({ label: p.title, date: p.pubDate, value: p[metric] }));
+
+export const tagDistribution = (posts: BlogPost[], limit = 15): BucketCount[] => {
+  const counts = new Map<string, number>();
+  posts.forEach(p => p.tags.forEach(t => counts.set(t, (counts.get(t) || 0) + 1)));
+  return Array.from(counts.entries())
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, limit);
+};
@@ -0,0 +1,167 @@
+import { BlogPost, BlogStats } from "../types";
+import { FeedEntry } from "./feedService";
+
+// Pure helpers behind analyzeBlogAndFetch: content metrics, feed entry mapping and the
+// aggregate stats. Nothing here touches the network, so it can be tested on fixtures.
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// --- Content Metrics ---
+
+export const countWords = (html: string): number => {
+  if (!html) return 0;
+  const text = html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  return text.length === 0 ? 0 : text.split(' ').length;
+};
+
+export const countImages = (html: string): number => {
+  if (!html) return 0;
+  return (html.match(/<img/gi) || []).length;
+};
+
+// The whole body, for search; per-post analysis cuts it to POST_TEXT_CHARS itself
+export const toPlainText = (html: string): string =>
+  html.replace(/<[^>]*>?/gm, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const parseDate = (dateStr: string): Date => {
+  return new Date(dateStr);
+};
+
+// --- Entry Mapping ---
+
+// Blogger GData (alt=json) post entry
+export const mapPostEntry = (entry: any): BlogPost => {
+  const content = entry.content?.$t || entry.summary?.$t || "";
+  const wordCount = countWords(content);
+  const imageCount = countImages(content);
+
+  let commentCount = 0;
+  if (entry.thr$total) {
+    commentCount = parseInt(entry.thr$total.$t, 10);
+  } else {
+    const replyLink = entry.link?.find((l: any) => l.rel === 'replies' && l.type === 'text/html');
+    if (replyLink && replyLink.title) {
+      const match = replyLink.title.match(/(\d+)/);
+      if (match) commentCount = parseInt(match[1], 10);
+    }
+  }
+
+  const tags = entry.category?.map((c: any) => c.term) || [];
+
+  return {
+    title: entry.title?.$t || "No Title",
+    link: entry.link?.find((l: any) => l.rel === 'alternate')?.href || "",
+    pubDate: entry.published?.$t,
+    guid: entry.id?.$t,
+    snippet: content.replace(/<[^>]*>?/gm, '').substring(0, 150) + "...",
+    wordCount,
+    imageCount,
+    commentCount,
+    tags
+  };
+};
+
+// Feeds carry dates in whatever format their software writes. A missing or unreadable one
+// counts as now, so one odd item never fails the whole feed.
+const feedEntryDate = (value: string): string => {
+  const date = value ? parseDate(value) : new Date();
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+};
+
+// RSS, Atom or JSON Feed entry, as parsed by feedService
+export const mapFeedEntry = (entry: FeedEntry): BlogPost => ({
+  title: entry.title || "No Title",
+  link: entry.link,
+  pubDate: feedEntryDate(entry.pubDate),
+  guid: entry.guid,
+  snippet: entry.content.replace(/<[^>]*>?/gm, '').substring(0, 150) + "...",
+  wordCount: countWords(entry.content),
+  imageCount: countImages(entry.content),
+  commentCount: entry.commentCount,
+  tags: entry.tags
+});
+
+// --- Aggregate Stats ---
+
+// Expects dates newest-first
+export const calculateConsistencyScore = (dates: Date[], now: Date = new Date()): number => {
+  if (dates.length < 3) return 50;
+
+  const gaps: number[] = [];
+  for (let i = 0; i < dates.length - 1; i++) {
+    const diffTime = Math.abs(dates[i].getTime() - dates[i+1].getTime());
+    const diffDays = diffTime / DAY_MS;
+    gaps.push(diffDays);
+  }
+
+  if (gaps.length === 0) return 0;
+
+  const mean = gaps.reduce((a, b) => a + b, 0) / gaps.length;
+  const variance = gaps.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / gaps.length;
+  const stdDev = Math.sqrt(variance);
+
+  // Coefficient of Variation
+  const cv = mean === 0 ? 0 : stdDev / mean;
+
+  let score = 100 - (cv * 66);
+
+  const daysSinceLastPost = (now.getTime() - dates[0].getTime()) / DAY_MS;
+  if (daysSinceLastPost > 90) score -= 20;
+  if (daysSinceLastPost > 365) score -= 40;
+
+  return Math.max(0, Math.min(100, Math.round(score)));
+};
+
+export interface StatsInput {
+  // Newest first
+  posts: BlogPost[];
+  totalPosts: number;
+  totalPages: number;
+  avgWordsPerPage: number;
+  creationDateStr: string | null;
+  followersCount: number;
+}
+
+export const buildStats = (input: StatsInput, now: Date = new Date()): BlogStats => {
+  const { posts, totalPosts, totalPages, avgWordsPerPage, creationDateStr, followersCount } = input;
+
+  const totalWords = posts.reduce((sum, p) => sum + p.wordCount, 0);
+  const totalImages = posts.reduce((sum, p) => sum + p.imageCount, 0);
+  const totalComments = posts.reduce((sum, p) => sum + p.commentCount, 0);
+
+  // Dates
+  const postDates = posts.map(p => parseDate(p.pubDate));
+  const lastPostDate = postDates.length > 0 ? postDates[0] : now;
+
+  let firstPostDate = now;
+  if (creationDateStr) {
+      firstPostDate = parseDate(creationDateStr);
+  } else if (postDates.length > 0) {
+      firstPostDate = postDates[postDates.length - 1];
+  }
+
+  // Consistency
+  const consistencyScore = calculateConsistencyScore(postDates, now);
+  const avgDaysBetweenPosts = postDates.length > 1
+    ? (postDates[0].getTime() - postDates[postDates.length - 1].getTime()) / (postDates.length - 1) / DAY_MS
+    : 0;
+
+  return {
+    totalPosts,
+    totalPages,
+    // Only extrapolate when we looked at a sample rather than the full archive
+    totalComments: totalPosts > posts.length && posts.length > 0
+       ? Math.round((totalComments / posts.length) * totalPosts)
+       : totalComments,
+    avgCommentsPerPost: posts.length ? Math.round((totalComments / posts.length) * 10) / 10 : 0,
+    avgWordsPerPost: posts.length ? Math.round(totalWords / posts.length) : 0,
+    avgWordsPerPage,
+    avgImagesPerPost: posts.length ? Math.round((totalImages / posts.length) * 10) / 10 : 0,
+    avgDaysBetweenPosts: Math.round(avgDaysBetweenPosts * 10) / 10,
+    consistencyScore,
+    followersCount,
+    firstPostDate: firstPostDate.toISOString(),
+    lastPostDate: lastPostDate.toISOString(),
+    sampleSize: posts.length
+  };
+};
@@ -0,0 +1,144 @@
+import { BlogMetadata, BlogPost } from "../types";
+import { savePostText } from "./storageService";
+
+// A term in a post title counts as much as this many occurrences in its body
+const TITLE_WEIGHT = 3;
+const SNIPPET_CHARS = 220;
+export const POST_SEARCH_LIMIT = 50;
+
+interface IndexedPost {
+  blogId: string;
+  post: BlogPost;
+  text: string;
+  length: number; // Weighted term count, for length normalization
+}
+
+export interface PostIndex {
+  docs: IndexedPost[];
+  // term -> doc position -> weighted term frequency
+  terms: Map<string, Map<number, number>>;
+}
+
+export interface PostSearchHit {
+  blogId: string;
+  post: BlogPost;
+  score: number;
+  snippet: string;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(WORD_PATTERN) || []).filter(t => t.length > 1);
+
+export const queryTerms = (query: string): string[] => Array.from(new Set(tokenize(query)));
+
+// Saves fetched post bodies for the index. Search is a convenience, so failures are only logged.
+export const storePostText = (blogId: string, postText: Record<string, string>) =>
+  savePostText(blogId, postText).catch(e => console.error("Failed to store post text", e));
+
+// --- Indexing ---
+
+// Indexes every stored post's title, plus its body where one was saved (or its feed snippet otherwise)
+export const buildPostIndex = (blogs: BlogMetadata[], postText: Record<string, Record<string, string>>): PostIndex => {
+  const docs: IndexedPost[] = [];
+  const terms = new Map<string, Map<number, number>>();
+
+  blogs.forEach(blog => blog.posts.forEach(post => {
+    const text = postText[blog.id]?.[post.guid] || post.snippet.replace(/\.\.\.$/, '');
+    const position = docs.length;
+    const frequencies = new Map<string, number>();
+    tokenize(post.title).forEach(t => frequencies.set(t, (frequencies.get(t) || 0) + TITLE_WEIGHT));
+    tokenize(text).forEach(t => frequencies.set(t, (frequencies.get(t) || 0) + 1));
+
+    let length = 0;
+    frequencies.forEach((tf, term) => {
+      length += tf;
+      if (!terms.has(term)) terms.set(term, new Map());
+      terms.get(term)!.set(position, tf);
+    });
+    docs.push({ blogId: blog.id, post, text, length });
+  }));
+
+  return { docs, terms };
+};
+
+// --- Querying ---
+
+// Doc frequencies for a query term. The last term also matches longer words starting with it,
+// so results appear while the user is still typing.
+const postingsFor = (index: PostIndex, term: string, isPrefix: boolean): Map<number, number> => {
+  if (!isPrefix) return index.terms.get(term) || new Map();
+  const merged = new Map<number, number>();
+  index.terms.forEach((postings, candidate) => {
+    if (!candidate.startsWith(term)) return;
+    postings.forEach((tf, doc) => merged.set(doc, (merged.get(doc) || 0) + tf));
+  });
+  return merged;
+};
+
+const buildSnippet = (text: string, terms: string[]): string => {
+  const lower = text.toLowerCase();
+  const first = terms
+    .map(t => lower.search(new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(t)}`, 'u')))
+    .filter(i => i >= 0)
+    .sort((a, b) => a - b)[0];
+  if (first === undefined || text.length <= SNIPPET_CHARS) return text.substring(0, SNIPPET_CHARS);
+
+  const start = Math.max(0, first - SNIPPET_CHARS / 4);
+  const end = Math.min(text.length, start + SNIPPET_CHARS);
+  return `${start > 0 ? '…' : ''}${text.substring(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+// Posts containing every query term, ranked by TF-IDF with length normalization
+export const searchPosts = (index: PostIndex, query: string, limit = POST_SEARCH_LIMIT): PostSearchHit[] => {
+  const terms = queryTerms(query);
+  if (terms.length === 0 || index.docs.length === 0) return [];
+
+  const postings = terms.map((term, i) => postingsFor(index, term, i === terms.length - 1));
+  const [smallest, ...rest] = [...postings].sort((a, b) => a.size - b.size);
+
+  const scores: { doc: number; score: number }[] = [];
+  smallest.forEach((_, doc) => {
+    if (!rest.every(p => p.has(doc))) return;
+    const length = Math.max(1, index.docs[doc].length);
+    const score = postings.reduce((sum, p) => {
+      const idf = Math.log(1 + index.docs.length / p.size);
+      return sum + idf * (p.get(doc)! / Math.sqrt(length));
+    }, 0);
+    scores.push({ doc, score });
+  });
+
+  return scores
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ doc, score }) => {
+      const { blogId, post, text } = index.docs[doc];
+      return { blogId, post, score, snippet: buildSnippet(text, terms) };
+    });
+};
+
+// --- Highlighting ---
+
+// Splits text into plain and matching runs; a word matches when it starts with a query term
+export const highlightTerms = (text: string, terms: string[]): HighlightSegment[] => {
+  if (terms.length === 0) return [{ text, match: false }];
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0].toLowerCase();
+    if (!terms.some(t => word.startsWith(t))) continue;
+    if (match.index! > last) segments.push({ text: text.substring(last, match.index), match: false });
+    segments.push({ text: match[0], match: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.substring(last), match: false });
+  return segments;
+};
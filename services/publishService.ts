@@ -0,0 +1,263 @@
+import { BlogMetadata, BlogPost } from "../types";
+import { escapeXml } from "./exportService";
+import { getBlogTags } from "./organizationService";
+import { matchesFilter, SavedSearch, sortBlogs } from "./searchService";
+
+const PUBLISH_STORAGE_KEY = 'blogspotter_publish';
+const DIRECTORY_TAG_LIMIT = 6;
+
+export type PublishFormat = 'atom' | 'rss' | 'html';
+
+export interface PublishSettings {
+  title: string;
+  description: string;
+  // Public address the files will be served from; used for feed ids and self links
+  siteUrl: string;
+  // 'all', 'favorites', 'collection:<id>' or 'search:<id>'
+  source: string;
+  postsPerBlog: number;
+  maxItems: number;
+}
+
+export interface FeedItem {
+  blog: BlogMetadata;
+  post: BlogPost;
+}
+
+export const DEFAULT_PUBLISH_SETTINGS: PublishSettings = {
+  title: 'Best of BlogSpotter',
+  description: 'Recent posts from our favorite blogs.',
+  siteUrl: '',
+  source: 'favorites',
+  postsPerBlog: 3,
+  maxItems: 50
+};
+
+export const PUBLISH_FORMATS: { format: PublishFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'atom', label: 'Atom feed', extension: 'atom', mimeType: 'application/atom+xml' },
+  { format: 'rss', label: 'RSS 2.0 feed', extension: 'rss', mimeType: 'application/rss+xml' },
+  { format: 'html', label: 'Directory page', extension: 'html', mimeType: 'text/html' }
+];
+
+export const loadPublishSettings = (): PublishSettings => {
+  try {
+    const raw = localStorage.getItem(PUBLISH_STORAGE_KEY);
+    if (raw) return { ...DEFAULT_PUBLISH_SETTINGS, ...JSON.parse(raw) };
+  } catch (e) {
+    // Fall through to defaults
+  }
+  return DEFAULT_PUBLISH_SETTINGS;
+};
+
+export const savePublishSettings = (settings: PublishSettings) => {
+  localStorage.setItem(PUBLISH_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Feeds are untrusted, so only http(s) addresses become links; a javascript: link in a published
+// page would run in the reader's browser
+const webUrl = (url: string | undefined): string | undefined => {
+  try {
+    return url && ['http:', 'https:'].includes(new URL(url).protocol) ? url : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// --- Selection ---
+
+// A saved search keeps its own sort; everything else is ranked by quality score
+export const selectPublishedBlogs = (blogs: BlogMetadata[], source: string, savedSearches: SavedSearch[] = []): BlogMetadata[] => {
+  const [kind, id] = source.split(/:(.*)/);
+  const byScore = (subset: BlogMetadata[]) => sortBlogs(subset, { field: 'qualityScore', descending: true });
+
+  if (kind === 'all') return byScore(blogs);
+  if (kind === 'favorites') return byScore(blogs.filter(b => b.isFavorite));
+  if (kind === 'collection') return byScore(blogs.filter(b => b.collectionIds.includes(id)));
+  if (kind === 'search') {
+    const search = savedSearches.find(s => s.id === id);
+    return search ? sortBlogs(blogs.filter(b => matchesFilter(b, search.filter)), search.sort) : [];
+  }
+  return [];
+};
+
+// Newest posts across the blogs, at most `postsPerBlog` from each so one prolific blog cannot fill the feed
+export const collectFeedItems = (blogs: BlogMetadata[], postsPerBlog: number, maxItems: number): FeedItem[] =>
+  blogs
+    .flatMap(blog => blog.posts
+      .filter(post => webUrl(post.link) && !isNaN(new Date(post.pubDate).getTime()))
+      .sort((a, b) => new Date(b.pubDate).getTime() - new Date(a.pubDate).getTime())
+      .slice(0, postsPerBlog)
+      .map(post => ({ blog, post })))
+    .sort((a, b) => new Date(b.post.pubDate).getTime() - new Date(a.post.pubDate).getTime())
+    .slice(0, maxItems);
+
+// --- Feeds ---
+
+const postSummary = (post: BlogPost) => post.analysis?.summary || post.snippet;
+
+const feedId = (settings: PublishSettings) =>
+  settings.siteUrl || `urn:blogspotter:${settings.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+
+const latestDate = (items: FeedItem[], now: Date) => items.length > 0 ? new Date(items[0].post.pubDate) : now;
+
+export const buildAtomFeed = (blogs: BlogMetadata[], settings: PublishSettings, now = new Date()): string => {
+  const items = collectFeedItems(blogs, settings.postsPerBlog, settings.maxItems);
+
+  const entries = items.map(({ blog, post }) => {
+    const published = new Date(post.pubDate).toISOString();
+    const blogUrl = webUrl(blog.url);
+    return [
+      '  <entry>',
+      `    <title>${escapeXml(post.title || 'Untitled')}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(post.link)}"/>`,
+      `    <id>${escapeXml(post.guid || post.link)}</id>`,
+      `    <published>${published}</published>`,
+      `    <updated>${published}</updated>`,
+      `    <author><name>${escapeXml(blog.title)}</name>${blogUrl ? `<uri>${escapeXml(blogUrl)}</uri>` : ''}</author>`,
+      ...post.tags.map(tag => `    <category term="${escapeXml(tag)}"/>`),
+      `    <summary>${escapeXml(postSummary(post))}</summary>`,
+      `    <source><id>${escapeXml(blog.canonicalId || blog.url)}</id><title>${escapeXml(blog.title)}</title>${blogUrl ? `<link rel="alternate" href="${escapeXml(blogUrl)}"/>` : ''}</source>`,
+      '  </entry>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(settings.title)}</title>`,
+    `  <subtitle>${escapeXml(settings.description)}</subtitle>`,
+    `  <id>${escapeXml(feedId(settings))}</id>`,
+    ...(webUrl(settings.siteUrl) ? [`  <link rel="alternate" href="${escapeXml(settings.siteUrl)}"/>`] : []),
+    `  <updated>${latestDate(items, now).toISOString()}</updated>`,
+    '  <generator>BlogSpotter</generator>',
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+};
+
+export const buildRssFeed = (blogs: BlogMetadata[], settings: PublishSettings, now = new Date()): string => {
+  const items = collectFeedItems(blogs, settings.postsPerBlog, settings.maxItems);
+
+  const entries = items.map(({ blog, post }) => {
+    const feedUrl = webUrl(blog.feedUrl);
+    return [
+      '    <item>',
+      `      <title>${escapeXml(post.title || 'Untitled')}</title>`,
+      `      <link>${escapeXml(post.link)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(post.guid || post.link)}</guid>`,
+      `      <pubDate>${new Date(post.pubDate).toUTCString()}</pubDate>`,
+      ...post.tags.map(tag => `      <category>${escapeXml(tag)}</category>`),
+      `      <description>${escapeXml(postSummary(post))}</description>`,
+      // The url attribute is required, so a blog without a web feed address gets no source
+      ...(feedUrl ? [`      <source url="${escapeXml(feedUrl)}">${escapeXml(blog.title)}</source>`] : []),
+      '    </item>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0">',
+    '  <channel>',
+    `    <title>${escapeXml(settings.title)}</title>`,
+    // RSS requires a channel link; without a site address the best blog stands in
+    `    <link>${escapeXml(webUrl(settings.siteUrl) || webUrl(blogs[0]?.url) || '')}</link>`,
+    `    <description>${escapeXml(settings.description)}</description>`,
+    `    <lastBuildDate>${latestDate(items, now).toUTCString()}</lastBuildDate>`,
+    '    <generator>BlogSpotter</generator>',
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+};
+
+// --- Directory Page ---
+
+const DIRECTORY_STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 860px; padding: 2rem 1rem; color: #1e293b; line-height: 1.5; }
+  header p, .meta, footer { color: #64748b; }
+  nav a { margin-right: 0.75rem; }
+  h2 { border-bottom: 1px solid #e2e8f0; padding-bottom: 0.25rem; margin-top: 2.5rem; }
+  article { margin: 1.25rem 0; }
+  article h3 { margin: 0; font-size: 1.1rem; }
+  .score { float: right; font-weight: 600; color: #0f766e; }
+  .meta, .tags, footer { font-size: 0.85rem; }
+  .tags span { background: #f1f5f9; border-radius: 4px; padding: 0 0.4rem; margin-right: 0.25rem; }
+  a { color: #0369a1; }
+`;
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+};
+
+const anchorFor = (category: string) => `category-${category.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+
+const renderDirectoryEntry = (blog: BlogMetadata): string => {
+  const latest = collectFeedItems([blog], 1, 1)[0]?.post;
+  const blogUrl = webUrl(blog.url);
+  const feedUrl = webUrl(blog.feedUrl);
+  const tags = getBlogTags(blog).slice(0, DIRECTORY_TAG_LIMIT);
+  const meta = [
+    blog.language,
+    `${blog.stats.totalPosts} posts`,
+    blog.stats.lastPostDate && `last post ${formatDate(blog.stats.lastPostDate)}`
+  ].filter(Boolean).join(' · ');
+
+  return [
+    '    <article>',
+    `      <span class="score" title="Quality score">${blog.qualityScore}/100</span>`,
+    `      <h3>${blogUrl ? `<a href="${escapeXml(blogUrl)}">${escapeXml(blog.title)}</a>` : escapeXml(blog.title)}</h3>`,
+    `      <p>${escapeXml(blog.summary || blog.description || '')}</p>`,
+    `      <p class="meta">${escapeXml(meta)}${feedUrl ? ` · <a href="${escapeXml(feedUrl)}">feed</a>` : ''}</p>`,
+    ...(latest ? [`      <p class="meta">Latest: <a href="${escapeXml(latest.link)}">${escapeXml(latest.title || 'Untitled')}</a></p>`] : []),
+    ...(tags.length > 0 ? [`      <p class="tags">${tags.map(t => `<span>${escapeXml(t)}</span>`).join('')}</p>`] : []),
+    '    </article>'
+  ].join('\n');
+};
+
+// A standalone page with one section per category, best-scoring blogs first
+export const buildDirectoryPage = (blogs: BlogMetadata[], settings: PublishSettings, now = new Date()): string => {
+  const byCategory = new Map<string, BlogMetadata[]>();
+  sortBlogs(blogs, { field: 'qualityScore', descending: true }).forEach(blog => {
+    byCategory.set(blog.category, [...(byCategory.get(blog.category) || []), blog]);
+  });
+  const categories = Array.from(byCategory.keys()).sort((a, b) => a.localeCompare(b));
+
+  const sections = categories.map(category => [
+    `  <section id="${anchorFor(category)}">`,
+    `    <h2>${escapeXml(category)}</h2>`,
+    ...byCategory.get(category)!.map(renderDirectoryEntry),
+    '  </section>'
+  ].join('\n'));
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '  <meta charset="utf-8">',
+    '  <meta name="viewport" content="width=device-width, initial-scale=1">',
+    `  <title>${escapeXml(settings.title)}</title>`,
+    `  <meta name="description" content="${escapeXml(settings.description)}">`,
+    `  <style>${DIRECTORY_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '  <header>',
+    `    <h1>${escapeXml(settings.title)}</h1>`,
+    `    <p>${escapeXml(settings.description)}</p>`,
+    `    <nav>${categories.map(c => `<a href="#${anchorFor(c)}">${escapeXml(c)}</a>`).join('')}</nav>`,
+    '  </header>',
+    ...sections,
+    `  <footer>${blogs.length} blogs · generated ${formatDate(now.toISOString())} with BlogSpotter</footer>`,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+};
+
+export const buildPublication = (format: PublishFormat, blogs: BlogMetadata[], settings: PublishSettings, now = new Date()): string => {
+  if (format === 'atom') return buildAtomFeed(blogs, settings, now);
+  if (format === 'rss') return buildRssFeed(blogs, settings, now);
+  return buildDirectoryPage(blogs, settings, now);
+};
@@ -1,26 +1,61 @@
 
-import { MAX_RECENT_POSTS } from "../constants";
-import { BlogPost, BlogStatus, BlogStats, BlogMetadata } from "../types";
+import { DEEP_SCAN_PAGE_SIZE, MAX_STORED_POSTS, MAX_TRACKED_POSTS } from "../constants";
+import { BlogPost, BlogStatus, BlogMetadata, BlogPlatform } from "../types";
+import { COMMON_FEED_PATHS, detectPlatform, discoverFeedLinks, FeedEntry, getPlatformFeedUrl, parseFeed, ParsedFeed } from "./feedService";
+import { buildStats, countWords, mapFeedEntry, mapPostEntry, parseDate, toPlainText } from "./postMetrics";
+import { followersCountOf, scrapePageSignals } from "./scrapeService";
+import { calculateQualityScore, ScoringProfile } from "./scoringService";
 
+// foo.blogspot.com, foo.blogspot.co.uk, foo.blogspot.de, ...
+const BLOGSPOT_HOST = /^([a-z0-9-]+)\.blogspot\.[a-z]{2,3}(\.[a-z]{2})?$/;
+
+// Blogger GData feeds, plus the paths feed discovery tries on other platforms
+const FEED_PATH = new RegExp(`(/feeds/.*|${[...COMMON_FEED_PATHS, '/feed/atom', '/feed/rss2'].map(p => p.replace('.', '\\.')).join('|')})$`, 'i');
+
+// Reduces a blog, post-list or feed URL to the blog's address: query, fragment, feed paths
+// and trailing slashes go, the host is lowercased and Blogspot country domains become blogspot.com.
 export const normalizeUrl = (url: string): string => {
   let cleanUrl = url.trim();
-  // Remove trailing slashes
-  while (cleanUrl.endsWith('/')) {
-    cleanUrl = cleanUrl.slice(0, -1);
-  }
-  
-  if (!cleanUrl.startsWith("http")) {
+  if (!/^https?:\/\//i.test(cleanUrl)) {
     cleanUrl = `https://${cleanUrl}`;
   }
-  
-  return cleanUrl;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(cleanUrl);
+  } catch (e) {
+    return cleanUrl.replace(/\/+$/, '');
+  }
+
+  const blogspot = parsed.hostname.toLowerCase().match(BLOGSPOT_HOST);
+  if (blogspot) {
+    // Blogger serves every blogspot blog from its root over https
+    return `https://${blogspot[1]}.blogspot.com`;
+  }
+
+  const path = parsed.pathname.replace(/\/+$/, '').replace(FEED_PATH, '').replace(/\/+$/, '');
+  return `${parsed.protocol}//${parsed.host.toLowerCase()}${path}`;
+};
+
+// The feed's alternate link names the blog's real address, but Blogger keeps reporting http://
+// for custom domains that are served over https. When the blog answered over https at that
+// same address, the https form wins.
+const resolveBlogUrl = (feedSiteUrl: string | undefined, finalUrl: string | undefined, cleanUrl: string): string => {
+  const url = normalizeUrl(feedSiteUrl || finalUrl || cleanUrl);
+  const secure = url.replace(/^http:/i, 'https:');
+  return [finalUrl, cleanUrl].some(u => u && normalizeUrl(u) === secure) ? secure : url;
 };
 
 // --- Proxy & Network Helpers ---
 
+// First-party relay served by the Vite dev/preview server (see server/fetchRelay.ts).
+// Empty when the app is hosted without it.
+const RELAY_URL = process.env.FETCH_RELAY_URL || "";
+
+// Public CORS proxies see every URL we track, so they are only used when opted in.
 // Ordered by reliability and speed. 
 // We rotate through these if one fails.
-const PROXIES = [
+const DEFAULT_PUBLIC_PROXIES = [
   "https://corsproxy.io/?",
   "https://api.allorigins.win/raw?url=",
   "https://api.codetabs.com/v1/proxy?quest=",
@@ -28,21 +63,73 @@ const PROXIES = [
   "https://cors-anywhere.herokuapp.com/" 
 ];
 
-const fetchWithProxy = async (targetUrl: string): Promise<Response> => {
+const PUBLIC_PROXIES = process.env.PUBLIC_PROXIES
+  ? process.env.PUBLIC_PROXIES.split(',').map(p => p.trim()).filter(Boolean)
+  : DEFAULT_PUBLIC_PROXIES;
+
+const USE_PUBLIC_PROXIES = process.env.USE_PUBLIC_PROXIES === 'true';
+
+export interface ScanProgress {
+  fetched: number;
+  total: number;
+}
+
+// Resolves one GET. The default goes through the relay and opt-in public proxies;
+// tests and non-browser callers pass their own.
+export type Fetcher = (url: string, signal?: AbortSignal) => Promise<Response>;
+
+export interface AnalyzeOptions {
+  // Walk the entire archive instead of sampling the latest posts
+  deepScan?: boolean;
+  onProgress?: (progress: ScanProgress) => void;
+  signal?: AbortSignal;
+  // Defaults to the built-in Balanced profile
+  scoringProfile?: ScoringProfile;
+  // Defaults to the proxy chain
+  fetcher?: Fetcher;
+}
+
+export type BlogAnalysis = Partial<BlogMetadata> & {
+  // Newest posts seen in this fetch (more than the stored `posts`), used to detect new posts
+  fetchedPosts: BlogPost[];
+  // Plain-text content of the fetched posts by GUID, for per-post analysis; never stored
+  postText: Record<string, string>;
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new Error("Scan cancelled.");
+  }
+};
+
+const fetchWithProxy = async (targetUrl: string, signal?: AbortSignal): Promise<Response> => {
   let lastError: any;
   
   // Add timestamp to prevent proxy caching of errors
+  // (the relay caches deliberately and only stores successful responses)
   const urlWithCacheBust = targetUrl.includes('?') 
     ? `${targetUrl}&_t=${Date.now()}` 
     : `${targetUrl}?_t=${Date.now()}`;
 
   const encodedTarget = encodeURIComponent(urlWithCacheBust);
 
-  for (const proxyBase of PROXIES) {
+  const proxies = [
+    ...(RELAY_URL ? [RELAY_URL] : []),
+    ...(USE_PUBLIC_PROXIES ? PUBLIC_PROXIES : [])
+  ];
+
+  if (proxies.length === 0) {
+    throw new Error("No fetch route configured. Run the app through the dev server relay or set USE_PUBLIC_PROXIES=true.");
+  }
+
+  for (const proxyBase of proxies) {
+    throwIfAborted(signal);
     try {
       // Construct URL based on proxy requirements
       // corsproxy.io generally works best with the full URL appended
-      let url = `${proxyBase}${encodedTarget}`;
+      let url = proxyBase === RELAY_URL
+        ? `${proxyBase}${encodeURIComponent(targetUrl)}`
+        : `${proxyBase}${encodedTarget}`;
       
       // Special handling if needed for specific proxies (most use the pattern above)
       if (proxyBase.includes("corsproxy.io")) {
@@ -52,10 +139,17 @@ const fetchWithProxy = async (targetUrl: string): Promise<Response> => {
 
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 20000); // Increased to 20s
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort);
       
       console.log(`Attempting fetch via ${proxyBase}...`);
-      const response = await fetch(url, { signal: controller.signal });
-      clearTimeout(timeoutId);
+      let response: Response;
+      try {
+        response = await fetch(url, { signal: controller.signal });
+      } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      }
       
       if (response.ok) {
         return response;
@@ -64,20 +158,32 @@ const fetchWithProxy = async (targetUrl: string): Promise<Response> => {
       console.warn(`Proxy ${proxyBase} returned status ${response.status}`);
       lastError = new Error(`Proxy returned status ${response.status}`);
     } catch (e: any) {
+      // A user cancellation should not fall through to the next proxy
+      throwIfAborted(signal);
       console.warn(`Proxy ${proxyBase} failed:`, e.message);
       lastError = e;
     }
   }
   
-  throw lastError || new Error("All proxies failed. Check your internet connection or try disabling ad-blockers.");
+  throw lastError || new Error("All proxies failed. Check your internet connection, the fetch relay, or try disabling ad-blockers.");
 };
 
-const fetchJsonFeed = async (baseUrl: string, type: 'posts' | 'pages', maxResults: number = 0, startIndex: number = 1) => {
+// Fetches through the caller's fetcher when given, treating non-2xx answers as failures like the proxy chain does
+const request = async (url: string, options: AnalyzeOptions): Promise<Response> => {
+  if (!options.fetcher) return fetchWithProxy(url, options.signal);
+  const response = await options.fetcher(url, options.signal);
+  if (!response.ok) {
+    throw new Error(`Request returned status ${response.status}`);
+  }
+  return response;
+};
+
+const fetchJsonFeed = async (baseUrl: string, type: 'posts' | 'pages', maxResults: number = 0, startIndex: number = 1, options: AnalyzeOptions = {}) => {
   // Use alt=json for rich metadata
   const feedUrl = `${baseUrl}/feeds/${type}/default?alt=json&max-results=${maxResults}&start-index=${startIndex}`;
   
   try {
-    const response = await fetchWithProxy(feedUrl);
+    const response = await request(feedUrl, options);
     // Clone response to safely check text before parsing JSON
     const clone = response.clone();
     try {
@@ -87,7 +193,7 @@ const fetchJsonFeed = async (baseUrl: string, type: 'posts' | 'pages', maxResult
        // If JSON parse fails, check if we got an HTML error page or similar
        const text = await clone.text();
        if (text.includes("<!DOCTYPE html>") || text.includes("<html")) {
-         throw new Error("Received HTML instead of JSON. The blog might not support the Blogger API or is not a Blogspot blog.");
+         throw new Error("Received HTML instead of JSON. The blog might not support the Blogger API.");
        }
        throw jsonError;
     }
@@ -97,258 +203,270 @@ const fetchJsonFeed = async (baseUrl: string, type: 'posts' | 'pages', maxResult
   }
 };
 
-const fetchHtml = async (baseUrl: string) => {
+// `finalUrl` is where redirects led; only the fetch relay reports it
+const fetchHtml = async (baseUrl: string, options: AnalyzeOptions): Promise<{ html: string; finalUrl: string | null }> => {
   try {
-    const response = await fetchWithProxy(baseUrl);
-    return await response.text();
+    const response = await request(baseUrl, options);
+    return { html: await response.text(), finalUrl: response.headers.get('X-Final-Url') };
   } catch (error) {
     console.warn(`Failed to fetch HTML for ${baseUrl}:`, error);
-    return ""; // Return empty string on failure to allow process to continue
+    return { html: "", finalUrl: null }; // Empty on failure to allow process to continue
   }
 };
 
-// --- Analysis Helpers ---
-
-const countWords = (html: string): number => {
-  if (!html) return 0;
-  const text = html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
-  return text.length === 0 ? 0 : text.split(' ').length;
-};
+// Pages through the posts feed with start-index/max-results until the whole archive is read
+const fetchAllPostEntries = async (
+  baseUrl: string,
+  firstPage: any,
+  totalPosts: number,
+  options: AnalyzeOptions
+): Promise<any[]> => {
+  const entries: any[] = [...(firstPage.entry || [])];
+  options.onProgress?.({ fetched: entries.length, total: totalPosts });
+
+  while (entries.length < totalPosts) {
+    throwIfAborted(options.signal);
+    const page = await fetchJsonFeed(baseUrl, 'posts', DEEP_SCAN_PAGE_SIZE, entries.length + 1, options);
+    const pageEntries = page?.entry || [];
+    // Blogger occasionally reports more results than it serves; stop on an empty page
+    if (pageEntries.length === 0) break;
+    entries.push(...pageEntries);
+    options.onProgress?.({ fetched: entries.length, total: totalPosts });
+  }
 
-const countImages = (html: string): number => {
-  if (!html) return 0;
-  return (html.match(/<img/gi) || []).length;
+  return entries;
 };
 
-const parseDate = (dateStr: string): Date => {
-  return new Date(dateStr);
+// --- Feed Adapters ---
+
+// What a platform adapter extracts before the shared stats pipeline runs
+interface FeedAnalysis {
+  platform: BlogPlatform;
+  feedUrl: string;
+  title: string;
+  description: string;
+  totalPosts: number;
+  totalPages: number;
+  avgWordsPerPage: number;
+  creationDateStr: string | null;
+  posts: BlogPost[];
+  postText: Record<string, string>;
+  // Address and identity the feed itself declares, when it does
+  siteUrl?: string;
+  canonicalId?: string;
+}
+
+// Blogger feed ids look like tag:blogger.com,1999:blog-1234567890 on every domain a blog answers on
+const bloggerCanonicalId = (feedId?: string): string | undefined => {
+  const match = feedId?.match(/blog-(\d+)/);
+  return match ? `blogger:${match[1]}` : undefined;
 };
 
-// --- Scraping Helpers ---
-
-const scrapeFollowers = (html: string): number => {
-  if (!html) return 0;
-  // Patterns common in Blogger templates
-  const patterns = [
-    /id="Followers1".*?<span class="item-count">(\d+)<\/span>/s, // Standard widget
-    /<div class="followers-count">(\d+)<\/div>/,
-    /Total Followers\s*:\s*(\d+)/i,
-    /(\d+)\s*followers/i,
-    /data-count="(\d+)"/
-  ];
+const analyzeBloggerFeed = async (cleanUrl: string, options: AnalyzeOptions): Promise<FeedAnalysis> => {
+  const { deepScan = false, signal } = options;
 
-  for (const pattern of patterns) {
-    const match = html.match(pattern);
-    if (match && match[1]) {
-      return parseInt(match[1], 10);
-    }
+  // Initial Fetch (Posts Batch 1) - CRITICAL
+  // If this fails, the blog is likely invalid or down.
+  const postsFeed = await fetchJsonFeed(cleanUrl, 'posts', deepScan ? DEEP_SCAN_PAGE_SIZE : 25, 1, options);
+  
+  if (!postsFeed) {
+      throw new Error("No feed data returned. The URL might not be a valid Blogspot blog.");
   }
-  return 0; 
-};
 
-// --- Scoring Logic ---
-
-const calculateConsistencyScore = (dates: Date[]): number => {
-  if (dates.length < 3) return 50; 
+  const totalPosts = parseInt(postsFeed.openSearch$totalResults?.$t || "0", 10);
+  
+  // Secondary Fetches (Optional - use try/catch blocks)
+  // We don't want the entire process to fail if we can't get history or pages.
+  let creationDateStr: string | null = null;
+  let pagesFeed: any = null;
 
-  const gaps: number[] = [];
-  for (let i = 0; i < dates.length - 1; i++) {
-    const diffTime = Math.abs(dates[i].getTime() - dates[i+1].getTime());
-    const diffDays = diffTime / (1000 * 60 * 60 * 24);
-    gaps.push(diffDays);
-  }
+  // Optional: Fetch Pages
+  try {
+      pagesFeed = await fetchJsonFeed(cleanUrl, 'pages', 10, 1, options);
+  } catch (e) { console.warn("Pages fetch failed, assuming 0 pages"); }
+  throwIfAborted(signal);
 
-  if (gaps.length === 0) return 0;
+  // Optional: Fetch Oldest Post (Creation Date)
+  // A deep scan reads the oldest post anyway, so the probe is only needed for samples.
+  try {
+      if (!deepScan && totalPosts > 0) {
+          const safeTotal = Math.min(totalPosts, 500); 
+          if (safeTotal > 1) {
+               const historyFeed = await fetchJsonFeed(cleanUrl, 'posts', 1, safeTotal, options);
+               creationDateStr = historyFeed.entry?.[0]?.published?.$t;
+          }
+      }
+  } catch (e) { console.warn("History fetch failed, using estimate"); }
+  throwIfAborted(signal);
 
-  const mean = gaps.reduce((a, b) => a + b, 0) / gaps.length;
-  const variance = gaps.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / gaps.length;
-  const stdDev = Math.sqrt(variance);
+  const entries = deepScan
+    ? await fetchAllPostEntries(cleanUrl, postsFeed, totalPosts, options)
+    : postsFeed.entry || [];
 
-  // Coefficient of Variation
-  const cv = mean === 0 ? 0 : stdDev / mean;
-  
-  let score = 100 - (cv * 66); 
-  
-  const daysSinceLastPost = (new Date().getTime() - dates[0].getTime()) / (1000 * 60 * 60 * 24);
-  if (daysSinceLastPost > 90) score -= 20;
-  if (daysSinceLastPost > 365) score -= 40;
+  const pageEntries = pagesFeed?.entry || [];
+  let totalPageWords = 0;
+  pageEntries.forEach((entry: any) => {
+      const content = entry.content?.$t || entry.summary?.$t || "";
+      totalPageWords += countWords(content);
+  });
+
+  return {
+    platform: 'blogger',
+    feedUrl: `${cleanUrl}/feeds/posts/default?alt=json`,
+    title: postsFeed.title?.$t || "Untitled Blog",
+    description: postsFeed.subtitle?.$t || "",
+    totalPosts,
+    totalPages: parseInt(pagesFeed?.openSearch$totalResults?.$t || "0", 10),
+    avgWordsPerPage: pageEntries.length > 0 ? Math.round(totalPageWords / pageEntries.length) : 0,
+    creationDateStr,
+    posts: entries.map(mapPostEntry),
+    postText: Object.fromEntries(entries.map((entry: any) => [entry.id?.$t, toPlainText(entry.content?.$t || entry.summary?.$t || "")])),
+    siteUrl: (postsFeed.link || []).find((l: any) => l.rel === 'alternate')?.href,
+    canonicalId: bloggerCanonicalId(postsFeed.id?.$t)
+  };
+};
 
-  return Math.max(0, Math.min(100, Math.round(score)));
+const fetchFeedDocument = async (feedUrl: string, options: AnalyzeOptions): Promise<ParsedFeed> => {
+  const response = await request(feedUrl, options);
+  return parseFeed(await response.text());
 };
 
-const calculateQualityScore = (stats: BlogStats): number => {
-  let score = 0;
+// WordPress serves older feed pages via ?paged=N, which lets us walk beyond the latest 10-20 items
+const fetchWordPressArchive = async (feedUrl: string, firstPage: ParsedFeed, options: AnalyzeOptions): Promise<FeedEntry[]> => {
+  const entries = [...firstPage.entries];
+  const seen = new Set(entries.map(e => e.guid));
+  options.onProgress?.({ fetched: entries.length, total: entries.length });
 
-  // 1. Content Depth (25%)
-  const avgWordsScore = Math.min(100, (stats.avgWordsPerPost / 800) * 100); 
-  const avgImgScore = Math.min(100, (stats.avgImagesPerPost / 3) * 100); 
-  score += (avgWordsScore * 0.15) + (avgImgScore * 0.10);
+  for (let page = 2; ; page++) {
+    throwIfAborted(options.signal);
+    let next: ParsedFeed;
+    try {
+      next = await fetchFeedDocument(`${feedUrl}${feedUrl.includes('?') ? '&' : '?'}paged=${page}`, options);
+    } catch (e) {
+      // Past the last page WordPress answers 404, which surfaces here as a proxy error
+      throwIfAborted(options.signal);
+      break;
+    }
+    const fresh = next.entries.filter(e => !seen.has(e.guid));
+    if (fresh.length === 0) break;
+    fresh.forEach(e => seen.add(e.guid));
+    entries.push(...fresh);
+    options.onProgress?.({ fetched: entries.length, total: entries.length });
+  }
 
-  // 2. Activity & Volume (25%)
-  const totalPostScore = Math.min(100, (stats.totalPosts / 100) * 100); 
-  const consistency = stats.consistencyScore;
-  score += (totalPostScore * 0.10) + (consistency * 0.15);
+  return entries;
+};
 
-  // 3. Engagement (30%)
-  const commentScore = Math.min(100, stats.avgCommentsPerPost * 10); 
-  const followerScore = stats.followersCount > 0 ? Math.min(100, Math.log10(stats.followersCount) * 25) : 0;
-  
-  if (stats.followersCount === 0) {
-      score += (commentScore * 0.30);
-  } else {
-      score += (commentScore * 0.20) + (followerScore * 0.10);
+const analyzeGenericFeed = async (
+  cleanUrl: string,
+  html: string,
+  platform: BlogPlatform,
+  options: AnalyzeOptions
+): Promise<FeedAnalysis> => {
+  const origin = new URL(cleanUrl).origin;
+  const candidates = Array.from(new Set([
+    ...discoverFeedLinks(html, cleanUrl).map(f => f.url),
+    getPlatformFeedUrl(cleanUrl, platform),
+    ...COMMON_FEED_PATHS.map(path => `${origin}${path}`)
+  ].filter((url): url is string => !!url)));
+
+  let feedUrl = '';
+  let feed: ParsedFeed | null = null;
+  for (const candidate of candidates) {
+    throwIfAborted(options.signal);
+    try {
+      feed = await fetchFeedDocument(candidate, options);
+      feedUrl = candidate;
+      break;
+    } catch (e) {
+      throwIfAborted(options.signal);
+      console.warn(`No usable feed at ${candidate}`);
+    }
   }
 
-  // 4. Longevity & Structure (20%)
-  const now = new Date();
-  const first = new Date(stats.firstPostDate);
-  const yearsActive = (now.getTime() - first.getTime()) / (1000 * 60 * 60 * 24 * 365);
-  const longevityScore = Math.min(100, yearsActive * 20); 
-  
-  const pagesScore = Math.min(100, stats.totalPages * 20); 
-  
-  score += (longevityScore * 0.10) + (pagesScore * 0.10);
+  if (!feed) {
+    throw new Error("No RSS, Atom or JSON feed found. Check that the site publishes a feed.");
+  }
 
-  return Math.round(score);
+  const entries = options.deepScan && platform === 'wordpress'
+    ? await fetchWordPressArchive(feedUrl, feed, options)
+    : feed.entries;
+
+  // Feeds are usually newest-first, but nothing guarantees it
+  const posts = entries
+    .map(mapFeedEntry)
+    .sort((a, b) => parseDate(b.pubDate).getTime() - parseDate(a.pubDate).getTime());
+
+  return {
+    platform,
+    feedUrl,
+    title: feed.title || "Untitled Blog",
+    description: feed.description,
+    // Feeds only expose their latest items, so this is a lower bound
+    totalPosts: posts.length,
+    totalPages: 0,
+    avgWordsPerPage: 0,
+    creationDateStr: null,
+    posts,
+    postText: Object.fromEntries(entries.map(entry => [entry.guid, toPlainText(entry.content)]))
+  };
 };
 
 // --- Main Service Function ---
 
-export const analyzeBlogAndFetch = async (blogUrl: string): Promise<Partial<BlogMetadata>> => {
+export const analyzeBlogAndFetch = async (blogUrl: string, options: AnalyzeOptions = {}): Promise<BlogAnalysis> => {
   const cleanUrl = normalizeUrl(blogUrl);
+  const { signal } = options;
   
   try {
-    // 1. Initial Fetch (Posts Batch 1) - CRITICAL
-    // We try to fetch the feed first. If this fails, the blog is likely invalid or down.
-    const postsFeed = await fetchJsonFeed(cleanUrl, 'posts', 25);
-    
-    if (!postsFeed) {
-        throw new Error("No feed data returned. The URL might not be a valid Blogspot blog.");
-    }
-
-    const title = postsFeed.title?.$t || "Untitled Blog";
-    const description = postsFeed.subtitle?.$t || "";
-    const totalPosts = parseInt(postsFeed.openSearch$totalResults?.$t || "0", 10);
-    
-    // 2. Secondary Fetches (Optional - use try/catch blocks)
-    // We don't want the entire process to fail if we can't get history or pages.
-    
-    let htmlContent = "";
-    let creationDateStr: string | null = null;
-    let pagesFeed: any = null;
-
-    // Optional: Fetch HTML for scraping followers
-    try {
-        htmlContent = await fetchHtml(cleanUrl);
-    } catch (e) { console.warn("HTML fetch failed, skipping scraping"); }
-
-    // Optional: Fetch Pages
-    try {
-        pagesFeed = await fetchJsonFeed(cleanUrl, 'pages', 10);
-    } catch (e) { console.warn("Pages fetch failed, assuming 0 pages"); }
-
-    // Optional: Fetch Oldest Post (Creation Date)
-    try {
-        if (totalPosts > 0) {
-            const safeTotal = Math.min(totalPosts, 500); 
-            if (safeTotal > 1) {
-                 const historyFeed = await fetchJsonFeed(cleanUrl, 'posts', 1, safeTotal);
-                 creationDateStr = historyFeed.entry?.[0]?.published?.$t;
-            }
-        }
-    } catch (e) { console.warn("History fetch failed, using estimate"); }
-
-
-    const totalPages = parseInt(pagesFeed?.openSearch$totalResults?.$t || "0", 10);
-
-    // 3. Process Posts
-    const entries = postsFeed.entry || [];
-    const processedPosts: BlogPost[] = entries.map((entry: any) => {
-      const content = entry.content?.$t || entry.summary?.$t || "";
-      const wordCount = countWords(content);
-      const imageCount = countImages(content);
-      
-      let commentCount = 0;
-      if (entry.thr$total) {
-        commentCount = parseInt(entry.thr$total.$t, 10);
-      } else {
-        const replyLink = entry.link?.find((l: any) => l.rel === 'replies' && l.type === 'text/html');
-        if (replyLink && replyLink.title) {
-          const match = replyLink.title.match(/(\d+)/);
-          if (match) commentCount = parseInt(match[1], 10);
+    // 1. Fetch the homepage: it identifies the platform and carries the follower widgets
+    const { html: htmlContent, finalUrl } = await fetchHtml(cleanUrl, options);
+    throwIfAborted(signal);
+    const detectedPlatform = detectPlatform(cleanUrl, htmlContent);
+
+    // 2. Blogger gets the rich GData feed; everything else goes through feed discovery.
+    // Without the homepage we cannot tell, so try Blogger first and fall back.
+    let feedAnalysis: FeedAnalysis;
+    if (detectedPlatform === 'blogger' || !htmlContent) {
+      try {
+        feedAnalysis = await analyzeBloggerFeed(cleanUrl, options);
+      } catch (bloggerError) {
+        if (detectedPlatform === 'blogger') throw bloggerError;
+        throwIfAborted(signal);
+        try {
+          feedAnalysis = await analyzeGenericFeed(cleanUrl, htmlContent, detectedPlatform, options);
+        } catch (e) {
+          throwIfAborted(signal);
+          throw bloggerError;
         }
       }
-
-      const tags = entry.category?.map((c: any) => c.term) || [];
-
-      return {
-        title: entry.title?.$t || "No Title",
-        link: entry.link?.find((l: any) => l.rel === 'alternate')?.href || "",
-        pubDate: entry.published?.$t,
-        guid: entry.id?.$t,
-        snippet: content.replace(/<[^>]*>?/gm, '').substring(0, 150) + "...",
-        wordCount,
-        imageCount,
-        commentCount,
-        tags
-      };
-    });
-
-    // 4. Process Pages
-    const pageEntries = pagesFeed?.entry || [];
-    let totalPageWords = 0;
-    pageEntries.forEach((entry: any) => {
-        const content = entry.content?.$t || entry.summary?.$t || "";
-        totalPageWords += countWords(content);
-    });
-    const avgWordsPerPage = pageEntries.length > 0 ? Math.round(totalPageWords / pageEntries.length) : 0;
-
-    // 5. Calculate Aggregate Stats
-    const totalWords = processedPosts.reduce((sum, p) => sum + p.wordCount, 0);
-    const totalImages = processedPosts.reduce((sum, p) => sum + p.imageCount, 0);
-    const totalComments = processedPosts.reduce((sum, p) => sum + p.commentCount, 0);
-    
-    // Dates
-    const postDates = processedPosts.map(p => parseDate(p.pubDate));
-    const lastPostDate = postDates.length > 0 ? postDates[0] : new Date();
-    
-    let firstPostDate = new Date();
-    if (creationDateStr) {
-        firstPostDate = parseDate(creationDateStr);
-    } else if (postDates.length > 0) {
-        firstPostDate = postDates[postDates.length - 1];
+    } else {
+      feedAnalysis = await analyzeGenericFeed(cleanUrl, htmlContent, detectedPlatform, options);
     }
 
-    // Consistency
-    const consistencyScore = calculateConsistencyScore(postDates);
-    const avgDaysBetweenPosts = postDates.length > 1 
-      ? (postDates[0].getTime() - postDates[postDates.length - 1].getTime()) / (postDates.length - 1) / (1000 * 60 * 60 * 24)
-      : 0;
-
-    // Followers
-    const followersCount = scrapeFollowers(htmlContent);
+    const { title, description, totalPosts, totalPages, avgWordsPerPage, creationDateStr } = feedAnalysis;
+    const processedPosts = feedAnalysis.posts;
 
-    const stats: BlogStats = {
+    // 3. Calculate Aggregate Stats
+    // Followers and other homepage widgets; a missing widget leaves followers unknown (-1), not zero
+    const signals = scrapePageSignals(htmlContent);
+    const stats = buildStats({
+      posts: processedPosts,
       totalPosts,
       totalPages,
-      totalComments: totalPosts > processedPosts.length && processedPosts.length > 0
-         ? Math.round((totalComments / processedPosts.length) * totalPosts) 
-         : totalComments, 
-      avgCommentsPerPost: processedPosts.length ? Math.round((totalComments / processedPosts.length) * 10) / 10 : 0,
-      avgWordsPerPost: processedPosts.length ? Math.round(totalWords / processedPosts.length) : 0,
       avgWordsPerPage,
-      avgImagesPerPost: processedPosts.length ? Math.round((totalImages / processedPosts.length) * 10) / 10 : 0,
-      avgDaysBetweenPosts: Math.round(avgDaysBetweenPosts * 10) / 10,
-      consistencyScore,
-      followersCount,
-      firstPostDate: firstPostDate.toISOString(),
-      lastPostDate: lastPostDate.toISOString()
-    };
+      creationDateStr,
+      followersCount: followersCountOf(signals)
+    });
+    const lastPostDate = parseDate(stats.lastPostDate);
 
-    // 6. Calculate Final Score
-    const qualityScore = calculateQualityScore(stats);
+    const storedPosts = processedPosts.slice(0, MAX_STORED_POSTS);
+    const fetchedPosts = processedPosts.slice(0, MAX_TRACKED_POSTS);
 
-    // 7. Determine Status
+    // 4. Calculate Final Score
+    const qualityScore = calculateQualityScore(stats, options.scoringProfile);
+
+    // 5. Determine Status
     let status = BlogStatus.Active;
     const sixMonthsAgo = new Date();
     sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
@@ -356,17 +474,26 @@ export const analyzeBlogAndFetch = async (blogUrl: string): Promise<Partial<Blog
       status = BlogStatus.Inactive;
     }
 
-    // 8. Aggregate Tags
+    // 6. Aggregate Tags
     const allTags = new Set<string>();
     processedPosts.forEach(p => p.tags.forEach(t => allTags.add(t)));
 
     return {
+      // Where the blog really lives: its feed's own link for Blogger, else wherever redirects ended
+      url: resolveBlogUrl(feedAnalysis.siteUrl, finalUrl, cleanUrl),
+      canonicalId: feedAnalysis.canonicalId,
       title,
       description,
+      feedUrl: feedAnalysis.feedUrl,
+      platform: feedAnalysis.platform,
       lastBuildDate: lastPostDate.toISOString(),
-      posts: processedPosts.slice(0, MAX_RECENT_POSTS),
+      posts: storedPosts,
+      fetchedPosts,
+      // Search indexes every stored post, so the text covers them all
+      postText: Object.fromEntries(storedPosts.map(p => [p.guid, feedAnalysis.postText[p.guid] || ''])),
       status,
       stats,
+      signals,
       qualityScore,
       tags: Array.from(allTags).slice(0, 15)
     };
@@ -374,6 +501,9 @@ export const analyzeBlogAndFetch = async (blogUrl: string): Promise<Partial<Blog
   } catch (error: any) {
     console.error("Analysis Error:", error);
     // Provide a more user-friendly error message if possible
+    if (signal?.aborted) {
+        throw new Error("Scan cancelled.");
+    }
     const msg = error.message.toLowerCase();
     if (msg.includes("failed to fetch") || msg.includes("network error")) {
         throw new Error("Network Error: Could not connect to the blog. Please try: 1. Disabling ad-blockers (they block proxies). 2. Verifying the URL.");
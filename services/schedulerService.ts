@@ -0,0 +1,69 @@
+import { BlogMetadata, BlogStatus } from "../types";
+
+export interface RefreshPolicy {
+  enabled: boolean;
+  activeIntervalHours: number;
+  inactiveIntervalHours: number;
+  // Failing blogs wait base * 2^(failures - 1) hours, capped at max
+  unreachableBaseHours: number;
+  unreachableMaxHours: number;
+  concurrency: number;
+}
+
+export const DEFAULT_REFRESH_POLICY: RefreshPolicy = {
+  enabled: true,
+  activeIntervalHours: 24,
+  inactiveIntervalHours: 24 * 7,
+  unreachableBaseHours: 1,
+  unreachableMaxHours: 24 * 7,
+  concurrency: 2
+};
+
+const POLICY_STORAGE_KEY = 'blogspotter_refresh_policy';
+const HOUR_MS = 1000 * 60 * 60;
+
+// --- Persistence (small settings stay in localStorage; the library lives in IndexedDB) ---
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? { ...fallback, ...JSON.parse(raw) } : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+export const loadRefreshPolicy = (): RefreshPolicy => readJson(POLICY_STORAGE_KEY, DEFAULT_REFRESH_POLICY);
+
+export const saveRefreshPolicy = (policy: RefreshPolicy) => {
+  localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+};
+
+// --- Staleness ---
+
+export const getRefreshIntervalHours = (blog: BlogMetadata, policy: RefreshPolicy): number => {
+  const failures = blog.health.consecutiveFailures;
+  if (failures > 0) {
+    return Math.min(policy.unreachableMaxHours, policy.unreachableBaseHours * Math.pow(2, failures - 1));
+  }
+  if (blog.status === BlogStatus.Inactive) return policy.inactiveIntervalHours;
+  return policy.activeIntervalHours;
+};
+
+export const getNextRefreshAt = (blog: BlogMetadata, policy: RefreshPolicy): Date => {
+  // After a failure, back off from the failed attempt rather than the last success
+  const from = blog.health.consecutiveFailures > 0 && blog.health.lastErrorAt ? blog.health.lastErrorAt : blog.lastCheckedAt;
+  return new Date(new Date(from).getTime() + getRefreshIntervalHours(blog, policy) * HOUR_MS);
+};
+
+// Stalest first, so a long queue works through the most outdated blogs before the rest
+export const findStaleBlogs = (
+  blogs: BlogMetadata[],
+  policy: RefreshPolicy,
+  now: Date = new Date()
+): BlogMetadata[] =>
+  blogs
+    .map(blog => ({ blog, due: getNextRefreshAt(blog, policy) }))
+    .filter(({ due }) => due.getTime() <= now.getTime())
+    .sort((a, b) => a.due.getTime() - b.due.getTime())
+    .map(({ blog }) => blog);
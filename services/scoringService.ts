@@ -0,0 +1,198 @@
+import { BlogMetadata, BlogStats } from "../types";
+
+export type ScoreComponentKey = 'words' | 'images' | 'volume' | 'consistency' | 'comments' | 'followers' | 'longevity' | 'pages';
+
+// Each component scores 0-100 once its input reaches the cap
+export interface ScoringCaps {
+  wordsPerPost: number;
+  imagesPerPost: number;
+  totalPosts: number;
+  commentsPerPost: number;
+  // Followers are scored on a log scale up to this count
+  followers: number;
+  yearsActive: number;
+  pages: number;
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  // Relative weights; they are normalized so they don't need to add up to 100
+  weights: Record<ScoreComponentKey, number>;
+  caps: ScoringCaps;
+  builtIn?: boolean;
+}
+
+export interface ScoreComponent {
+  key: ScoreComponentKey;
+  label: string;
+  // Raw input value, e.g. average words per post
+  input: number;
+  // 0-100 before weighting
+  normalized: number;
+  // Effective share of the total in percent, after redistribution
+  weight: number;
+  contribution: number;
+}
+
+export interface ScoreBreakdown {
+  total: number;
+  components: ScoreComponent[];
+}
+
+export const SCORE_COMPONENT_LABELS: Record<ScoreComponentKey, string> = {
+  words: 'Words per post',
+  images: 'Images per post',
+  volume: 'Post volume',
+  consistency: 'Consistency',
+  comments: 'Comments per post',
+  followers: 'Followers',
+  longevity: 'Years active',
+  pages: 'Static pages',
+};
+
+const DEFAULT_CAPS: ScoringCaps = {
+  wordsPerPost: 800,
+  imagesPerPost: 3,
+  totalPosts: 100,
+  commentsPerPost: 10,
+  followers: 10000,
+  yearsActive: 5,
+  pages: 5
+};
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: 'balanced',
+  name: 'Balanced',
+  weights: { words: 15, images: 10, volume: 10, consistency: 15, comments: 20, followers: 10, longevity: 10, pages: 10 },
+  caps: DEFAULT_CAPS,
+  builtIn: true
+};
+
+export const BUILT_IN_PROFILES: ScoringProfile[] = [
+  DEFAULT_SCORING_PROFILE,
+  {
+    id: 'long-form',
+    name: 'Long-form writing',
+    weights: { words: 35, images: 5, volume: 5, consistency: 20, comments: 10, followers: 5, longevity: 15, pages: 5 },
+    caps: { ...DEFAULT_CAPS, wordsPerPost: 1500 },
+    builtIn: true
+  },
+  {
+    id: 'community',
+    name: 'Community & engagement',
+    weights: { words: 5, images: 5, volume: 10, consistency: 15, comments: 40, followers: 20, longevity: 5, pages: 0 },
+    caps: { ...DEFAULT_CAPS, commentsPerPost: 20 },
+    builtIn: true
+  }
+];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const capped = (value: number, cap: number) => cap > 0 ? Math.min(100, Math.max(0, (value / cap) * 100)) : 0;
+
+// --- Scoring ---
+
+export const scoreBlog = (stats: BlogStats, profile: ScoringProfile = DEFAULT_SCORING_PROFILE, now: Date = new Date()): ScoreBreakdown => {
+  const { caps } = profile;
+  const yearsActive = Math.max(0, (now.getTime() - new Date(stats.firstPostDate).getTime()) / (DAY_MS * 365));
+  const followers = stats.followersCount;
+
+  const inputs: Record<ScoreComponentKey, { input: number; normalized: number }> = {
+    words: { input: stats.avgWordsPerPost, normalized: capped(stats.avgWordsPerPost, caps.wordsPerPost) },
+    images: { input: stats.avgImagesPerPost, normalized: capped(stats.avgImagesPerPost, caps.imagesPerPost) },
+    volume: { input: stats.totalPosts, normalized: capped(stats.totalPosts, caps.totalPosts) },
+    consistency: { input: stats.consistencyScore, normalized: stats.consistencyScore },
+    comments: { input: stats.avgCommentsPerPost, normalized: capped(stats.avgCommentsPerPost, caps.commentsPerPost) },
+    followers: {
+      input: followers,
+      normalized: followers > 0 && caps.followers > 1 ? capped(Math.log10(followers), Math.log10(caps.followers)) : 0
+    },
+    longevity: { input: Math.round(yearsActive * 10) / 10, normalized: capped(yearsActive, caps.yearsActive) },
+    pages: { input: stats.totalPages, normalized: capped(stats.totalPages, caps.pages) }
+  };
+
+  // Most blogs don't expose a follower count, so when it is unknown (-1) its weight moves
+  // to comments instead of penalizing them for missing data. A widget showing zero still counts.
+  const weights = { ...profile.weights };
+  if (followers < 0) {
+    weights.comments += weights.followers;
+    weights.followers = 0;
+  }
+  const weightSum = Object.values(weights).reduce((a, b) => a + b, 0);
+
+  const components = (Object.keys(SCORE_COMPONENT_LABELS) as ScoreComponentKey[]).map(key => {
+    const share = weightSum > 0 ? weights[key] / weightSum : 0;
+    return {
+      key,
+      label: SCORE_COMPONENT_LABELS[key],
+      input: inputs[key].input,
+      normalized: Math.round(inputs[key].normalized),
+      weight: Math.round(share * 1000) / 10,
+      contribution: Math.round(inputs[key].normalized * share * 10) / 10
+    };
+  });
+
+  const total = components.reduce((sum, c) => sum + inputs[c.key].normalized * (weightSum > 0 ? weights[c.key] / weightSum : 0), 0);
+  return { total: Math.round(total), components };
+};
+
+export const calculateQualityScore = (stats: BlogStats, profile?: ScoringProfile): number => scoreBlog(stats, profile).total;
+
+// Recomputes every blog's score from its stored stats; nothing is refetched. History snapshots
+// are rescored as of the day they were taken, so score trends don't jump at a profile switch.
+export const rescoreLibrary = (blogs: BlogMetadata[], profile: ScoringProfile): BlogMetadata[] =>
+  blogs.map(blog => {
+    const qualityScore = calculateQualityScore(blog.stats, profile);
+    let historyChanged = false;
+    const history = blog.history.map(snapshot => {
+      const score = scoreBlog(snapshot.stats, profile, new Date(snapshot.takenAt)).total;
+      if (score === snapshot.qualityScore) return snapshot;
+      historyChanged = true;
+      return { ...snapshot, qualityScore: score };
+    });
+    if (qualityScore === blog.qualityScore && !historyChanged) return blog;
+    return { ...blog, qualityScore, history: historyChanged ? history : blog.history };
+  });
+
+// --- Persistence ---
+
+const PROFILES_STORAGE_KEY = 'blogspotter_scoring_profiles';
+
+export interface ScoringSettings {
+  activeProfileId: string;
+  // User-defined profiles; the built-in ones are never stored
+  customProfiles: ScoringProfile[];
+}
+
+export const loadScoringSettings = (): ScoringSettings => {
+  try {
+    const raw = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      return {
+        activeProfileId: parsed.activeProfileId || DEFAULT_SCORING_PROFILE.id,
+        customProfiles: Array.isArray(parsed.customProfiles) ? parsed.customProfiles : []
+      };
+    }
+  } catch (e) {
+    // Fall through to defaults
+  }
+  return { activeProfileId: DEFAULT_SCORING_PROFILE.id, customProfiles: [] };
+};
+
+export const saveScoringSettings = (settings: ScoringSettings) => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getAllProfiles = (settings: ScoringSettings): ScoringProfile[] => [...BUILT_IN_PROFILES, ...settings.customProfiles];
+
+export const getActiveProfile = (settings: ScoringSettings): ScoringProfile =>
+  getAllProfiles(settings).find(p => p.id === settings.activeProfileId) || DEFAULT_SCORING_PROFILE;
+
+export const createCustomProfile = (base: ScoringProfile, name: string): ScoringProfile => ({
+  id: crypto.randomUUID(),
+  name,
+  weights: { ...base.weights },
+  caps: { ...base.caps }
+});
@@ -0,0 +1,137 @@
+import { CommentSystem, PageSignals, ScrapeConfidence, ScrapedValue } from "../types";
+
+// Blogger's own widgets quote attributes with ' while themes and other platforms use ",
+// often on the same page, so every attribute below matches either quote with ['"]
+
+// Tried in order; the first match wins, so dedicated widgets come before loose page text
+const FOLLOWER_PATTERNS: { pattern: RegExp; source: string; confidence: ScrapeConfidence }[] = [
+  { pattern: /id=['"]Followers\d*['"].*?<span class=['"]item-count['"]>([\d,.]+k?)<\/span>/is, source: 'Blogger Followers widget', confidence: 'high' },
+  { pattern: /Join ([\d,]+) other (?:followers|subscribers)/i, source: 'WordPress follow widget', confidence: 'high' },
+  { pattern: /<div class=['"]followers-count['"]>([\d,.]+k?)<\/div>/i, source: 'Followers count element', confidence: 'medium' },
+  { pattern: /Total Followers\s*:\s*([\d,.]+k?)/i, source: '"Total Followers" text', confidence: 'medium' },
+  { pattern: /([\d,.]+k?)\s+subscribers/i, source: 'Subscriber count text', confidence: 'medium' },
+  { pattern: /follow[^>]*data-count=['"](\d+)['"]/i, source: 'Follow button count', confidence: 'low' },
+  { pattern: /([\d,.]+k?)\s*followers/i, source: 'Follower mention in page text', confidence: 'low' },
+];
+
+const SOCIAL_NETWORKS: { network: string; pattern: RegExp }[] = [
+  { network: 'X / Twitter', pattern: /^https?:\/\/(www\.)?(twitter|x)\.com\/(?!share|intent|home)[A-Za-z0-9_]+\/?$/i },
+  { network: 'Facebook', pattern: /^https?:\/\/(www\.)?facebook\.com\/(?!sharer|share|dialog|plugins)[A-Za-z0-9.\-]+\/?$/i },
+  { network: 'Instagram', pattern: /^https?:\/\/(www\.)?instagram\.com\/[A-Za-z0-9_.]+\/?$/i },
+  { network: 'YouTube', pattern: /^https?:\/\/(www\.)?youtube\.com\/(channel\/|c\/|user\/|@)[A-Za-z0-9_\-]+\/?$/i },
+  { network: 'LinkedIn', pattern: /^https?:\/\/(www\.)?linkedin\.com\/(in|company)\/[A-Za-z0-9_\-]+\/?$/i },
+  { network: 'Pinterest', pattern: /^https?:\/\/(www\.)?pinterest\.[a-z.]+\/(?!pin\/create)[A-Za-z0-9_]+\/?$/i },
+  { network: 'GitHub', pattern: /^https?:\/\/(www\.)?github\.com\/[A-Za-z0-9\-]+\/?$/i },
+  { network: 'TikTok', pattern: /^https?:\/\/(www\.)?tiktok\.com\/@[A-Za-z0-9_.]+\/?$/i },
+];
+
+// Checked in order; third-party systems first because Blogger markup stays in templates that embed them
+const COMMENT_SYSTEMS: { system: CommentSystem; pattern: RegExp; source: string }[] = [
+  { system: 'disqus', pattern: /disqus\.com\/embed\.js|id=['"]disqus_thread['"]/i, source: 'Disqus embed' },
+  { system: 'facebook', pattern: /class=['"]fb-comments['"]/i, source: 'Facebook comments plugin' },
+  { system: 'utterances', pattern: /utteranc\.es\/client\.js/i, source: 'utterances script' },
+  { system: 'giscus', pattern: /giscus\.app\/client\.js/i, source: 'giscus script' },
+  { system: 'blogger', pattern: /blogger\.com\/comment|comment-editor|class=['"]comments['"][^>]*id=['"]comments['"]/i, source: 'Blogger comment form' },
+  { system: 'wordpress', pattern: /id=['"]respond['"]|wp-comments-post\.php/i, source: 'WordPress comment form' },
+];
+
+// "1,234", "1.2k" and "12K" all appear in widgets
+const parseCount = (text: string): number => {
+  const clean = text.replace(/,/g, '').toLowerCase();
+  return clean.endsWith('k') ? Math.round(parseFloat(clean) * 1000) : parseInt(clean, 10);
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').trim();
+
+// The markup of one Blogger widget, bounded by the next widget's start
+const widgetSection = (html: string, idPrefix: string): string | null => {
+  const start = html.search(new RegExp(`id=['"]${idPrefix}\\d*['"]`));
+  if (start === -1) return null;
+  const next = html.slice(start + 1).search(/class=['"]widget /);
+  return html.slice(start, next === -1 ? start + 20000 : start + 1 + next);
+};
+
+// --- Extractors ---
+
+const scrapeFollowers = (html: string): ScrapedValue<number> | undefined => {
+  for (const { pattern, source, confidence } of FOLLOWER_PATTERNS) {
+    const match = html.match(pattern);
+    const value = match ? parseCount(match[1]) : NaN;
+    if (!isNaN(value)) return { value, source, confidence };
+  }
+  return undefined;
+};
+
+const scrapeProfile = (html: string): ScrapedValue<string> | undefined => {
+  const match = html.match(/https?:\/\/(?:www\.)?blogger\.com\/profile\/(\d+)/i);
+  if (!match) return undefined;
+  return {
+    value: `https://www.blogger.com/profile/${match[1]}`,
+    source: widgetSection(html, 'Profile') ? 'Blogger Profile widget' : 'Profile link',
+    confidence: 'high'
+  };
+};
+
+const scrapeArchiveCounts = (html: string): PageSignals['archiveCounts'] => {
+  const section = widgetSection(html, 'BlogArchive');
+  if (!section) return undefined;
+  const counts = Array.from(section.matchAll(/class=['"]post-count-link['"][^>]*>([^<]+)<\/a>\s*<span class=['"]post-count['"][^>]*>\((\d+)\)/g))
+    .map(m => ({ label: decodeEntities(m[1]), count: parseInt(m[2], 10) }));
+  return counts.length > 0 ? { value: counts, source: 'Blogger Blog Archive widget', confidence: 'high' } : undefined;
+};
+
+const scrapePopularPosts = (html: string): PageSignals['popularPosts'] => {
+  const section = widgetSection(html, 'PopularPosts');
+  if (!section) return undefined;
+  const seen = new Set<string>();
+  const posts = Array.from(section.matchAll(/class=['"](?:item-title|post-title[^'"]*)['"][^>]*>\s*(?:<h3[^>]*>\s*)?<a href=['"]([^'"]+)['"][^>]*>([^<]+)<\/a>/g))
+    .map(m => ({ url: m[1], title: decodeEntities(m[2]) }))
+    .filter(p => !seen.has(p.url) && !!seen.add(p.url));
+  return posts.length > 0 ? { value: posts, source: 'Blogger Popular Posts widget', confidence: 'high' } : undefined;
+};
+
+const scrapeSocialProfiles = (html: string): PageSignals['socialProfiles'] => {
+  const found = new Map<string, string>();
+  for (const match of html.matchAll(/href=['"](https?:\/\/[^'"]+)['"]/gi)) {
+    const url = decodeEntities(match[1]);
+    const network = SOCIAL_NETWORKS.find(n => n.pattern.test(url));
+    // The first link per network is usually the author's; later ones tend to be share buttons or embeds
+    if (network && !found.has(network.network)) found.set(network.network, url);
+  }
+  return Array.from(found.entries()).map(([network, url]) => ({ network, url }));
+};
+
+const detectCommentSystem = (html: string): ScrapedValue<CommentSystem> => {
+  const match = COMMENT_SYSTEMS.find(c => c.pattern.test(html));
+  return match
+    ? { value: match.system, source: match.source, confidence: 'medium' }
+    : { value: 'none', source: 'No comment form found', confidence: 'low' };
+};
+
+// --- Public API ---
+
+// Reads homepage widgets and links. Without a homepage nothing is known, which is
+// reported as missing values rather than zeros.
+export const scrapePageSignals = (html: string): PageSignals => {
+  if (!html) {
+    return {
+      socialProfiles: [],
+      commentSystem: { value: 'unknown', source: 'Homepage could not be fetched', confidence: 'low' },
+      scrapedAt: new Date().toISOString()
+    };
+  }
+
+  return {
+    followers: scrapeFollowers(html),
+    profileUrl: scrapeProfile(html),
+    archiveCounts: scrapeArchiveCounts(html),
+    popularPosts: scrapePopularPosts(html),
+    socialProfiles: scrapeSocialProfiles(html),
+    commentSystem: detectCommentSystem(html),
+    scrapedAt: new Date().toISOString()
+  };
+};
+
+// The value stored in BlogStats, where -1 stands for unknown
+export const followersCountOf = (signals: PageSignals): number => signals.followers?.value ?? -1;
@@ -0,0 +1,169 @@
+import { BlogMetadata } from "../types";
+import { isFailing } from "./healthService";
+import { getBlogTags } from "./organizationService";
+
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+export type RangeField = 'qualityScore' | 'sentimentScore' | 'followersCount' | 'avgDaysBetweenPosts';
+
+export interface BlogFilter {
+  text: string;
+  category: string; // 'All' or a category
+  status: string; // 'All', a BlogStatus or 'Failing'
+  language: string; // 'All' or a language
+  favoritesOnly: boolean;
+  collectionId: string; // 'All' or a collection id
+  ranges: Partial<Record<RangeField, NumericRange>>;
+  // Inclusive ISO dates (yyyy-mm-dd) bounding the newest post
+  lastPostFrom?: string;
+  lastPostTo?: string;
+  // Matched case-insensitively against whole tags
+  includeTags: string[];
+  excludeTags: string[];
+}
+
+export type SortField = 'addedAt' | 'title' | 'qualityScore' | 'sentimentScore' | 'followersCount' | 'avgDaysBetweenPosts' | 'lastPostDate' | 'totalPosts';
+
+export interface BlogSort {
+  field: SortField;
+  descending: boolean;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filter: BlogFilter;
+  sort: BlogSort;
+}
+
+export const DEFAULT_FILTER: BlogFilter = {
+  text: '',
+  category: 'All',
+  status: 'All',
+  language: 'All',
+  favoritesOnly: false,
+  collectionId: 'All',
+  ranges: {},
+  includeTags: [],
+  excludeTags: []
+};
+
+export const DEFAULT_SORT: BlogSort = { field: 'addedAt', descending: true };
+
+export const RANGE_FIELDS: { field: RangeField; label: string }[] = [
+  { field: 'qualityScore', label: 'Quality score' },
+  { field: 'sentimentScore', label: 'Sentiment' },
+  { field: 'followersCount', label: 'Followers' },
+  { field: 'avgDaysBetweenPosts', label: 'Days between posts' },
+];
+
+export const SORT_FIELDS: { field: SortField; label: string }[] = [
+  { field: 'addedAt', label: 'Date added' },
+  { field: 'title', label: 'Title' },
+  { field: 'qualityScore', label: 'Quality score' },
+  { field: 'sentimentScore', label: 'Sentiment' },
+  { field: 'followersCount', label: 'Followers' },
+  { field: 'avgDaysBetweenPosts', label: 'Days between posts' },
+  { field: 'lastPostDate', label: 'Last post' },
+  { field: 'totalPosts', label: 'Total posts' },
+];
+
+// null when the value is unknown (followers are stored as -1 when no widget was found)
+const readRangeField = (blog: BlogMetadata, field: RangeField): number | null => {
+  if (field === 'qualityScore' || field === 'sentimentScore') return blog[field];
+  if (field === 'followersCount' && blog.stats.followersCount < 0) return null;
+  return blog.stats[field];
+};
+
+// An unknown value never satisfies a bound
+const inRange = (value: number | null, range?: NumericRange) =>
+  !range || (range.min === undefined && range.max === undefined) ||
+  (value !== null && (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max));
+
+// --- Filtering ---
+
+export const matchesFilter = (blog: BlogMetadata, filter: BlogFilter): boolean => {
+  const text = filter.text.trim().toLowerCase();
+  const blogTags = getBlogTags(blog);
+  if (text && !(
+    blog.title.toLowerCase().includes(text) ||
+    blog.description.toLowerCase().includes(text) ||
+    blogTags.some(t => t.toLowerCase().includes(text)) ||
+    (blog.notes || '').toLowerCase().includes(text)
+  )) return false;
+
+  if (filter.category !== 'All' && blog.category !== filter.category) return false;
+  if (filter.status !== 'All' && (filter.status === 'Failing' ? !isFailing(blog) : blog.status !== filter.status)) return false;
+  if (filter.language !== 'All' && blog.language !== filter.language) return false;
+  if (filter.favoritesOnly && !blog.isFavorite) return false;
+  if (filter.collectionId !== 'All' && !blog.collectionIds.includes(filter.collectionId)) return false;
+
+  if (!RANGE_FIELDS.every(({ field }) => inRange(readRangeField(blog, field), filter.ranges[field]))) return false;
+
+  const lastPost = blog.stats.lastPostDate.slice(0, 10);
+  if (filter.lastPostFrom && lastPost < filter.lastPostFrom) return false;
+  if (filter.lastPostTo && lastPost > filter.lastPostTo) return false;
+
+  const tags = new Set(blogTags.map(t => t.toLowerCase()));
+  if (!filter.includeTags.every(t => tags.has(t.toLowerCase()))) return false;
+  if (filter.excludeTags.some(t => tags.has(t.toLowerCase()))) return false;
+
+  return true;
+};
+
+// Number of structured conditions beyond the text box, category and status, for the filter badge
+export const countAdvancedConditions = (filter: BlogFilter): number =>
+  (filter.language !== 'All' ? 1 : 0) +
+  (filter.favoritesOnly ? 1 : 0) +
+  (filter.collectionId !== 'All' ? 1 : 0) +
+  Object.values(filter.ranges).filter(r => r && (r.min !== undefined || r.max !== undefined)).length +
+  (filter.lastPostFrom ? 1 : 0) +
+  (filter.lastPostTo ? 1 : 0) +
+  filter.includeTags.length +
+  filter.excludeTags.length;
+
+// --- Sorting ---
+
+const sortValue = (blog: BlogMetadata, field: SortField): string | number | null => {
+  switch (field) {
+    case 'title': return blog.title.toLowerCase();
+    case 'addedAt': return new Date(blog.addedAt).getTime();
+    case 'lastPostDate': return new Date(blog.stats.lastPostDate).getTime();
+    case 'totalPosts': return blog.stats.totalPosts;
+    default: return readRangeField(blog, field);
+  }
+};
+
+// Unknown values go last in either direction
+export const sortBlogs = (blogs: BlogMetadata[], sort: BlogSort): BlogMetadata[] =>
+  [...blogs].sort((a, b) => {
+    const va = sortValue(a, sort.field);
+    const vb = sortValue(b, sort.field);
+    if (va === null || vb === null) return (va === null ? 1 : 0) - (vb === null ? 1 : 0);
+    const order = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+    return sort.descending ? -order : order;
+  });
+
+// --- Saved Searches ---
+
+const SAVED_SEARCHES_STORAGE_KEY = 'blogspotter_saved_searches';
+
+export const loadSavedSearches = (): SavedSearch[] => {
+  try {
+    const raw = localStorage.getItem(SAVED_SEARCHES_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    // Filters saved by older builds may lack newer fields
+    return Array.isArray(parsed)
+      ? parsed.map((s: SavedSearch) => ({ ...s, filter: { ...DEFAULT_FILTER, ...s.filter }, sort: { ...DEFAULT_SORT, ...s.sort } }))
+      : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveSavedSearches = (searches: SavedSearch[]) => {
+  localStorage.setItem(SAVED_SEARCHES_STORAGE_KEY, JSON.stringify(searches));
+};
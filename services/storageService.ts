@@ -0,0 +1,410 @@
+import { BlogMetadata, BlogPost, BlogSnapshot, InboxEntry } from "../types";
+import { sortInbox } from "./inboxService";
+
+const DB_NAME = 'blogspotter';
+// IndexedDB structure version (object stores and indexes). Bump alongside a change in `upgradeDatabase`.
+const DB_VERSION = 3;
+
+const LEGACY_STORAGE_KEY = 'blogspotter_data';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+type StoredBlog = Omit<BlogMetadata, 'posts' | 'history'>;
+type StoredPost = BlogPost & { blogId: string; position: number };
+type StoredSnapshot = BlogSnapshot & { blogId: string };
+type StoredPostText = { blogId: string; guid: string; text: string };
+
+// --- Data Migrations ---
+
+// Each migration upgrades the library from `version - 1` to `version`.
+// They run in order on load, so records written by any older build end up in the current shape.
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (blogs: any[]) => any[];
+  // Removes data an older build kept outside the library; runs once, when the stored library is upgraded
+  cleanUp?: () => void;
+}
+
+// Placeholder tags the classifier used to store instead of failing visibly
+const LEGACY_FALLBACK_TAGS = ['Unclassified', 'Auto-Tag-Error'];
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Start an empty history for entries saved before snapshots existed',
+    migrate: blogs => blogs.map(b => ({ ...b, history: b.history || [] }))
+  },
+  {
+    version: 2,
+    description: 'Mark entries saved before feed adapters as Blogger blogs',
+    migrate: blogs => blogs.map(b => ({ ...b, platform: b.platform || 'blogger' }))
+  },
+  {
+    version: 3,
+    description: 'Track fetch health, treating the last check as the last success',
+    migrate: blogs => blogs.map(b => ({
+      ...b,
+      health: b.health || { consecutiveFailures: 0, lastSuccessAt: b.lastCheckedAt }
+    }))
+  },
+  {
+    version: 4,
+    description: 'Add known post GUIDs; left empty so the next refresh seeds them without flooding the inbox',
+    migrate: blogs => blogs.map(b => ({ ...b, knownGuids: b.knownGuids || [] }))
+  },
+  {
+    version: 5,
+    description: 'Record classification provenance and flag the placeholder results stored when Gemini failed',
+    migrate: blogs => blogs.map(b => {
+      if (b.classification) return b;
+      const isFallback = (b.tags || []).some((t: string) => LEGACY_FALLBACK_TAGS.includes(t));
+      return {
+        ...b,
+        tags: (b.tags || []).filter((t: string) => !LEGACY_FALLBACK_TAGS.includes(t)),
+        summary: isFallback ? undefined : b.summary,
+        classification: { model: 'unknown', promptVersion: 0, classifiedAt: b.addedAt, isFallback }
+      };
+    })
+  },
+  {
+    version: 6,
+    description: 'Record the classifier provider; everything before pluggable providers came from Gemini',
+    migrate: blogs => blogs.map(b => ({
+      ...b,
+      classification: { provider: 'gemini', ...b.classification }
+    }))
+  },
+  {
+    version: 7,
+    description: 'Add manual tags and collection membership',
+    migrate: blogs => blogs.map(b => ({ ...b, manualTags: b.manualTags || [], collectionIds: b.collectionIds || [] }))
+  },
+  {
+    version: 8,
+    description: 'Treat stored zero follower counts as unknown; the old scraper returned 0 when it found no widget',
+    migrate: blogs => {
+      const unknownIfZero = (stats: any) => stats.followersCount === 0 ? { ...stats, followersCount: -1 } : stats;
+      return blogs.map(b => ({
+        ...b,
+        stats: unknownIfZero(b.stats),
+        history: (b.history || []).map((s: any) => ({ ...s, stats: unknownIfZero(s.stats) }))
+      }));
+    }
+  },
+  {
+    version: 9,
+    description: 'Drop the refresh failure log that per-blog health replaced',
+    migrate: blogs => blogs,
+    cleanUp: () => localStorage.removeItem('blogspotter_refresh_failures')
+  },
+  {
+    version: 10,
+    description: 'Move topics shared by analyzed posts out of the tags into their own list',
+    migrate: blogs => blogs.map(b => {
+      // Same rule the post analysis used when it merged them: shared by two or more posts, top ten
+      const counts = new Map<string, { label: string; count: number }>();
+      (b.posts || []).forEach((p: any) => (p.analysis?.topics || []).forEach((topic: string) => {
+        const entry = counts.get(topic.toLowerCase()) || { label: topic, count: 0 };
+        counts.set(topic.toLowerCase(), { ...entry, count: entry.count + 1 });
+      }));
+      const postTopics = Array.from(counts.values())
+        .filter(t => t.count >= 2)
+        .sort((x, y) => y.count - x.count)
+        .slice(0, 10)
+        .map(t => t.label);
+      const topicKeys = new Set(postTopics.map(t => t.toLowerCase()));
+      return { ...b, tags: (b.tags || []).filter((t: string) => !topicKeys.has(t.toLowerCase())), postTopics };
+    })
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const migrateLibrary = (blogs: any[], fromVersion: number): BlogMetadata[] =>
+  MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .reduce((acc, m) => {
+      console.log(`Applying storage migration ${m.version}: ${m.description}`);
+      return m.migrate(acc);
+    }, blogs) as BlogMetadata[];
+
+const cleanUpAfterMigration = (fromVersion: number) =>
+  MIGRATIONS.filter(m => m.version > fromVersion).forEach(m => m.cleanUp?.());
+
+// --- IndexedDB Helpers ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Storage transaction aborted."));
+  });
+
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore('blogs', { keyPath: 'id' });
+    db.createObjectStore('posts', { keyPath: ['blogId', 'guid'] }).createIndex('byBlog', 'blogId');
+    db.createObjectStore('snapshots', { keyPath: ['blogId', 'takenAt'] }).createIndex('byBlog', 'blogId');
+    db.createObjectStore('meta');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore('inbox', { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore('postText', { keyPath: ['blogId', 'guid'] });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error("Storage is blocked by another open BlogSpotter tab. Close it and reload."));
+    });
+  }
+  return dbPromise;
+};
+
+// Compound keys sort arrays after strings, so [id] .. [id, []] spans every key for one blog
+const blogKeyRange = (blogId: string) => IDBKeyRange.bound([blogId], [blogId, []]);
+
+const isQuotaError = (error: any) =>
+  error?.name === 'QuotaExceededError' || error?.name === 'NS_ERROR_DOM_QUOTA_REACHED';
+
+const friendlyError = (error: any): Error => {
+  if (isQuotaError(error)) {
+    return new Error("Browser storage is full. Your latest changes are kept in memory only; export a backup and remove unused blogs to free space.");
+  }
+  return error instanceof Error ? error : new Error(String(error));
+};
+
+// --- Public API ---
+
+// Last-written object per blog id. State updates are immutable, so an unchanged
+// reference means the blog does not need to be rewritten.
+let lastSaved = new Map<string, BlogMetadata>();
+
+const readAll = async (db: IDBDatabase): Promise<{ blogs: BlogMetadata[]; schemaVersion: number | undefined }> => {
+  const tx = db.transaction(['blogs', 'posts', 'snapshots', 'meta'], 'readonly');
+  const [storedBlogs, storedPosts, storedSnapshots, schemaVersion] = await Promise.all([
+    requestToPromise<StoredBlog[]>(tx.objectStore('blogs').getAll()),
+    requestToPromise<StoredPost[]>(tx.objectStore('posts').getAll()),
+    requestToPromise<StoredSnapshot[]>(tx.objectStore('snapshots').getAll()),
+    requestToPromise<number | undefined>(tx.objectStore('meta').get(SCHEMA_VERSION_KEY))
+  ]);
+
+  const postsByBlog = new Map<string, StoredPost[]>();
+  storedPosts.forEach(p => postsByBlog.set(p.blogId, [...(postsByBlog.get(p.blogId) || []), p]));
+  const snapshotsByBlog = new Map<string, StoredSnapshot[]>();
+  storedSnapshots.forEach(s => snapshotsByBlog.set(s.blogId, [...(snapshotsByBlog.get(s.blogId) || []), s]));
+
+  const blogs = storedBlogs
+    .sort((a, b) => ((a as any).position ?? 0) - ((b as any).position ?? 0))
+    .map(({ position, ...blog }: any) => ({
+      ...blog,
+      posts: (postsByBlog.get(blog.id) || [])
+        .sort((a, b) => a.position - b.position)
+        .map(({ blogId, position, ...post }) => post),
+      // Snapshot keys end in takenAt, so getAll already returns them oldest-first
+      history: (snapshotsByBlog.get(blog.id) || []).map(({ blogId, ...snapshot }) => snapshot)
+    }));
+
+  return { blogs, schemaVersion };
+};
+
+const writeBlogs = async (db: IDBDatabase, blogs: BlogMetadata[], schemaVersion?: number) => {
+  const tx = db.transaction(['blogs', 'posts', 'snapshots', 'postText', 'meta'], 'readwrite');
+  const done = transactionDone(tx);
+  const blogStore = tx.objectStore('blogs');
+  const postStore = tx.objectStore('posts');
+  const snapshotStore = tx.objectStore('snapshots');
+  const postTextStore = tx.objectStore('postText');
+
+  const currentIds = new Set(blogs.map(b => b.id));
+  lastSaved.forEach((_, id) => {
+    if (!currentIds.has(id)) {
+      blogStore.delete(id);
+      postStore.delete(blogKeyRange(id));
+      snapshotStore.delete(blogKeyRange(id));
+      postTextStore.delete(blogKeyRange(id));
+    }
+  });
+
+  blogs.forEach((blog, position) => {
+    const previous = lastSaved.get(blog.id);
+    const { posts, history, ...rest } = blog;
+    // Library order is stored on the record so reordering alone still persists
+    blogStore.put({ ...rest, position });
+    if (previous === blog) return;
+
+    if (!previous || previous.posts !== posts) {
+      postStore.delete(blogKeyRange(blog.id));
+      posts.forEach((post, i) => postStore.put({ ...post, guid: post.guid || post.link || `${i}`, blogId: blog.id, position: i }));
+    }
+    if (!previous || previous.history !== history) {
+      snapshotStore.delete(blogKeyRange(blog.id));
+      history.forEach(snapshot => snapshotStore.put({ ...snapshot, blogId: blog.id }));
+    }
+  });
+
+  if (schemaVersion !== undefined) {
+    tx.objectStore('meta').put(schemaVersion, SCHEMA_VERSION_KEY);
+  }
+
+  await done;
+  lastSaved = new Map(blogs.map(b => [b.id, b]));
+};
+
+const readAndMigrate = async (): Promise<BlogMetadata[]> => {
+  const db = await openDatabase();
+  const { blogs, schemaVersion } = await readAll(db);
+
+  if (schemaVersion === undefined) {
+    // First run on IndexedDB: pick up whatever the localStorage build left behind
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    const legacyBlogs: any[] = legacy ? JSON.parse(legacy) : [];
+    const migrated = migrateLibrary(legacyBlogs, 0);
+    try {
+      await writeBlogs(db, migrated, CURRENT_SCHEMA_VERSION);
+    } catch (e) {
+      throw friendlyError(e);
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    cleanUpAfterMigration(0);
+    return migrated;
+  }
+
+  lastSaved = new Map(blogs.map(b => [b.id, b]));
+  if (schemaVersion < CURRENT_SCHEMA_VERSION) {
+    const migrated = migrateLibrary(blogs, schemaVersion);
+    // Force a full rewrite: migrated objects are new references
+    try {
+      await writeBlogs(db, migrated, CURRENT_SCHEMA_VERSION);
+    } catch (e) {
+      throw friendlyError(e);
+    }
+    cleanUpAfterMigration(schemaVersion);
+    return migrated;
+  }
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error("Your library was saved by a newer version of BlogSpotter. Please update the app.");
+  }
+
+  return blogs;
+};
+
+let loadPromise: Promise<BlogMetadata[]> | null = null;
+
+// Loads the library, importing the old localStorage copy on first run and applying pending migrations.
+// Shared between callers so a double-mounted effect cannot run the first-run import twice.
+export const loadLibrary = (): Promise<BlogMetadata[]> => {
+  if (!loadPromise) {
+    loadPromise = readAndMigrate();
+    loadPromise.then(
+      blogs => pruneOrphanedPostText(new Set(blogs.map(b => b.id))).catch(e => console.warn("Could not prune stored post text", e)),
+      () => { loadPromise = null; }
+    );
+  }
+  return loadPromise;
+};
+
+// Saves are chained so each diff is computed against the previous completed write
+let saveQueue: Promise<void> = Promise.resolve();
+
+export const saveLibrary = (blogs: BlogMetadata[]): Promise<void> => {
+  const run = saveQueue.then(async () => {
+    try {
+      const db = await openDatabase();
+      await writeBlogs(db, blogs);
+    } catch (e) {
+      throw friendlyError(e);
+    }
+  });
+  // A failed save must not block the ones after it
+  saveQueue = run.catch(() => undefined);
+  return run;
+};
+
+
+// --- Inbox ---
+
+export const loadInbox = async (): Promise<InboxEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction('inbox', 'readonly');
+  // The store returns entries in id order
+  return sortInbox(await requestToPromise<InboxEntry[]>(tx.objectStore('inbox').getAll()));
+};
+
+// The inbox is capped in size, so it is rewritten as a whole
+export const saveInbox = async (entries: InboxEntry[]): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction('inbox', 'readwrite');
+    const done = transactionDone(tx);
+    const store = tx.objectStore('inbox');
+    store.clear();
+    entries.forEach(entry => store.put(entry));
+    await done;
+  } catch (e) {
+    throw friendlyError(e);
+  }
+};
+
+
+// --- Post Text ---
+
+// Plain-text post bodies for full-text search. Kept apart from the library so loading
+// and diffing blogs never pays for them. Each fetch replaces the blog's text, so posts that
+// left the stored window drop out with it.
+export const savePostText = async (blogId: string, postText: Record<string, string>): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction('postText', 'readwrite');
+    const done = transactionDone(tx);
+    const store = tx.objectStore('postText');
+    store.delete(blogKeyRange(blogId));
+    Object.entries(postText)
+      .filter(([guid, text]) => guid && text)
+      .forEach(([guid, text]) => store.put({ blogId, guid, text }));
+    await done;
+  } catch (e) {
+    throw friendlyError(e);
+  }
+};
+
+// Drops text kept for blogs that are not in the library, such as a blog rejected as a duplicate
+// after it was fetched
+const pruneOrphanedPostText = async (blogIds: Set<string>): Promise<void> => {
+  const db = await openDatabase();
+  const keys = await requestToPromise(db.transaction('postText', 'readonly').objectStore('postText').getAllKeys());
+  const orphaned = new Set((keys as [string, string][]).map(([blogId]) => blogId).filter(id => !blogIds.has(id)));
+  if (orphaned.size === 0) return;
+
+  const tx = db.transaction('postText', 'readwrite');
+  const done = transactionDone(tx);
+  orphaned.forEach(id => tx.objectStore('postText').delete(blogKeyRange(id)));
+  await done;
+};
+
+// Post text grouped by blog id, then by post GUID
+export const loadPostText = async (): Promise<Record<string, Record<string, string>>> => {
+  const db = await openDatabase();
+  const tx = db.transaction('postText', 'readonly');
+  const records = await requestToPromise<StoredPostText[]>(tx.objectStore('postText').getAll());
+  const byBlog: Record<string, Record<string, string>> = {};
+  records.forEach(({ blogId, guid, text }) => {
+    (byBlog[blogId] = byBlog[blogId] || {})[guid] = text;
+  });
+  return byBlog;
+};
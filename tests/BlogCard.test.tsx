@@ -0,0 +1,125 @@
+// @vitest-environment jsdom
+import React from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import BlogCard from "../components/BlogCard";
+import { BlogMetadata, BlogStatus } from "../types";
+
+const blog = (overrides: Partial<BlogMetadata> = {}): BlogMetadata => ({
+  id: "blog-1",
+  url: "https://cooking-notes.blogspot.com",
+  feedUrl: "https://cooking-notes.blogspot.com/feeds/posts/default?alt=json",
+  platform: "blogger",
+  title: "Cooking Notes",
+  description: "Weeknight recipes from a small kitchen",
+  lastBuildDate: "2024-06-20T08:00:00.000Z",
+  category: "Food & Cooking",
+  tags: ["Baking", "Soups", "Bread", "Weeknight"],
+  postTopics: [],
+  manualTags: [],
+  status: BlogStatus.Active,
+  isFavorite: false,
+  collectionIds: [],
+  sentimentScore: 80,
+  qualityScore: 64,
+  language: "English",
+  classification: { provider: "heuristic", model: "keywords", promptVersion: 1, classifiedAt: "2024-06-20T08:00:00.000Z", isFallback: false },
+  addedAt: "2024-06-01T00:00:00.000Z",
+  lastCheckedAt: "2024-06-20T08:00:00.000Z",
+  posts: [],
+  stats: {
+    totalPosts: 40,
+    totalPages: 2,
+    totalComments: 80,
+    avgCommentsPerPost: 2,
+    avgWordsPerPost: 7,
+    avgWordsPerPage: 5,
+    avgImagesPerPost: 1,
+    avgDaysBetweenPosts: 14,
+    consistencyScore: 100,
+    followersCount: 128,
+    firstPostDate: "2019-03-01T08:00:00.000Z",
+    lastPostDate: "2024-06-20T08:00:00.000Z",
+    sampleSize: 3
+  },
+  history: [],
+  health: { consecutiveFailures: 0 },
+  knownGuids: [],
+  ...overrides
+});
+
+const renderCard = (entry: BlogMetadata) => {
+  const handlers = { onToggleFavorite: vi.fn(), onRefresh: vi.fn(), onDelete: vi.fn(), onOpen: vi.fn() };
+  render(<BlogCard blog={entry} {...handlers} />);
+  return handlers;
+};
+
+describe("BlogCard", () => {
+  afterEach(cleanup);
+
+  it("shows the title, address, status and score", () => {
+    renderCard(blog());
+
+    expect(screen.getByText("Cooking Notes")).toBeTruthy();
+    expect(screen.getByText(/cooking-notes\.blogspot\.com/)).toBeTruthy();
+    expect(screen.getByText("Active")).toBeTruthy();
+    expect(screen.getByTitle("Algorithmic Quality Score").textContent).toContain("64");
+  });
+
+  it("shows a follower badge only for known, non-zero counts", () => {
+    renderCard(blog());
+    expect(screen.getByTitle("Scraped Followers").textContent).toContain("128");
+    cleanup();
+
+    renderCard(blog({ stats: { ...blog().stats, followersCount: -1 } }));
+    expect(screen.queryByTitle("Scraped Followers")).toBeNull();
+  });
+
+  it("lists manual tags first and collapses the rest", () => {
+    renderCard(blog({ manualTags: ["Favourite"] }));
+
+    const tags = screen.getAllByText(/^(Favourite|Baking|Soups|Bread|Weeknight)$/).map(el => el.textContent?.trim());
+    expect(tags).toEqual(["Favourite", "Baking", "Soups"]);
+    expect(screen.getByText("+2")).toBeTruthy();
+  });
+
+  it("warns about failed refreshes", () => {
+    renderCard(blog({ health: { consecutiveFailures: 2, lastError: "Proxy returned status 503" } }));
+
+    expect(screen.getByText("2 failed refreshes")).toBeTruthy();
+    expect(screen.getByText("Proxy returned status 503")).toBeTruthy();
+    expect(screen.getByText(/Last success: never/)).toBeTruthy();
+  });
+
+  it("passes the blog id to its actions", () => {
+    const handlers = renderCard(blog());
+
+    fireEvent.click(screen.getByTitle("Refresh Analysis"));
+    fireEvent.click(screen.getByTitle("Delete Blog"));
+    fireEvent.click(screen.getByTitle("Open Blog Details"));
+
+    expect(handlers.onRefresh).toHaveBeenCalledWith("blog-1");
+    expect(handlers.onDelete).toHaveBeenCalledWith("blog-1");
+    expect(handlers.onOpen).toHaveBeenCalledWith("blog-1");
+  });
+
+  it("offers a compare toggle only when a handler is given", () => {
+    renderCard(blog());
+    expect(screen.queryByTitle("Add to Comparison")).toBeNull();
+    cleanup();
+
+    const onToggleCompare = vi.fn();
+    render(<BlogCard blog={blog()} onToggleFavorite={vi.fn()} onRefresh={vi.fn()} onDelete={vi.fn()} onOpen={vi.fn()} isCompared onToggleCompare={onToggleCompare} />);
+    fireEvent.click(screen.getByTitle("Remove from Comparison"));
+    expect(onToggleCompare).toHaveBeenCalledWith("blog-1");
+  });
+
+  it("reveals the quick analysis on demand", () => {
+    renderCard(blog());
+
+    expect(screen.queryByText("Est. Created:")).toBeNull();
+    fireEvent.click(screen.getByText("Quick Analysis"));
+    expect(screen.getByText("Est. Created:")).toBeTruthy();
+    expect(screen.getByText("2019")).toBeTruthy();
+  });
+});
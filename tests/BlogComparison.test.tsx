@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+import React from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import BlogComparison from "../components/BlogComparison";
+import { DEFAULT_SCORING_PROFILE } from "../services/scoringService";
+import { makeBlog } from "./helpers/blogFactory";
+
+const blogs = [
+  makeBlog(),
+  makeBlog({ id: "blog-2", title: "Trail Notes", category: "Travel", url: "https://trail-notes.blogspot.com" })
+];
+blogs[1].stats = { ...blogs[1].stats, totalPosts: 90, followersCount: -1 };
+
+const renderComparison = (entries = blogs) => {
+  const handlers = { onRemove: vi.fn(), onOpen: vi.fn(), onBack: vi.fn() };
+  render(<BlogComparison blogs={entries} scoringProfile={DEFAULT_SCORING_PROFILE} {...handlers} />);
+  return handlers;
+};
+
+describe("BlogComparison", () => {
+  afterEach(cleanup);
+
+  it("asks for more blogs when fewer than two are picked", () => {
+    renderComparison(blogs.slice(0, 1));
+    expect(screen.getByText(/Pick at least 2 blogs/)).toBeTruthy();
+  });
+
+  it("shows a column per blog and highlights the best value in each row", () => {
+    renderComparison();
+
+    expect(screen.getByText("Travel")).toBeTruthy();
+    const postsRow = screen.getByText("Total posts").closest("tr")!;
+    const cells = Array.from(postsRow.querySelectorAll("td")).slice(1);
+    expect(cells.map(c => c.textContent)).toEqual(["40", "90"]);
+    expect(cells[1].className).toContain("font-bold");
+    expect(cells[0].className).not.toContain("font-bold");
+
+    // Followers is both a quality component and, last, a raw stat
+    const followersRow = screen.getAllByText("Followers", { selector: "td" }).at(-1)!.closest("tr")!;
+    expect(followersRow.textContent).toContain("Unknown");
+    expect(document.querySelectorAll("svg polygon").length).toBeGreaterThan(2);
+  });
+
+  it("removes and opens blogs from the header", () => {
+    const handlers = renderComparison();
+
+    fireEvent.click(screen.getAllByTitle("Remove from Comparison")[1]);
+    fireEvent.click(screen.getByText("Cooking Notes", { selector: "button" }));
+
+    expect(handlers.onRemove).toHaveBeenCalledWith("blog-2");
+    expect(handlers.onOpen).toHaveBeenCalledWith("blog-1");
+  });
+});
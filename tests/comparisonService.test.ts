@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { bestIndexes, compareBlogs } from "../services/comparisonService";
+import { DEFAULT_SCORING_PROFILE } from "../services/scoringService";
+import { makeBlog } from "./helpers/blogFactory";
+
+const NOW = new Date("2024-07-01T00:00:00Z");
+
+describe("compareBlogs", () => {
+  it("maps stats onto the five radar dimensions", () => {
+    const [row] = compareBlogs([makeBlog()], DEFAULT_SCORING_PROFILE, NOW);
+
+    expect(row.breakdown.total).toBeGreaterThan(0);
+    expect(row.dimensions).toEqual({
+      // 7 of 800 words per post
+      depth: 1,
+      // A post every 14 days is half the weekly target
+      cadence: 50,
+      consistency: 100,
+      // Comments (2 of 10 per post) averaged with 128 followers on a log scale to 10,000
+      engagement: Math.round((20 + 53) / 2),
+      // Active since March 2019, capped at five years
+      longevity: 100
+    });
+  });
+
+  it("uses comments alone for engagement when followers are unknown", () => {
+    const blog = makeBlog();
+    const [row] = compareBlogs([{ ...blog, stats: { ...blog.stats, followersCount: -1 } }], DEFAULT_SCORING_PROFILE, NOW);
+    expect(row.dimensions.engagement).toBe(20);
+  });
+
+  it("gives blogs without a posting interval no cadence", () => {
+    const blog = makeBlog();
+    const [row] = compareBlogs([{ ...blog, stats: { ...blog.stats, avgDaysBetweenPosts: 0 } }], DEFAULT_SCORING_PROFILE, NOW);
+    expect(row.dimensions.cadence).toBe(0);
+  });
+});
+
+describe("bestIndexes", () => {
+  it("finds the best value in either direction, including ties", () => {
+    expect(bestIndexes([3, 9, 9], true)).toEqual([1, 2]);
+    expect(bestIndexes([3, 9, 1], false)).toEqual([2]);
+  });
+
+  it("ignores unknown values and rows without a difference", () => {
+    expect(bestIndexes([null, 4, 2], true)).toEqual([1]);
+    expect(bestIndexes([5, 5], true)).toEqual([]);
+    expect(bestIndexes([null, 5], true)).toEqual([]);
+  });
+});
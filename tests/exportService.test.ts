@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { createBackup, parseBackup, restoreBackup, restoreOrganization } from "../services/exportService";
+import { makeBlog } from "./helpers/blogFactory";
+
+const ORGANIZATION = {
+  collections: [{ id: "c1", name: "Weeknights", createdAt: "2024-06-01T00:00:00.000Z" }],
+  customCategories: ["Fermentation"]
+};
+
+describe("JSON backups", () => {
+  it("round-trip collections and custom categories", () => {
+    const backup = parseBackup(createBackup([makeBlog({ collectionIds: ["c1"] })], ORGANIZATION));
+
+    expect(backup.organization).toEqual(ORGANIZATION);
+    expect(backup.blogs[0].collectionIds).toEqual(["c1"]);
+  });
+
+  it("rebuilds the organization of version 1 backups from the blogs", () => {
+    const blogs = [makeBlog({ collectionIds: ["c1", "c2"], category: "Fermentation" }), makeBlog({ id: "blog-2", collectionIds: ["c2"] })];
+    const legacy = JSON.parse(createBackup(blogs, ORGANIZATION));
+    delete legacy.organization;
+
+    const { organization } = parseBackup(JSON.stringify({ ...legacy, version: 1 }));
+
+    expect(organization.collections.map(c => c.id)).toEqual(["c1", "c2"]);
+    expect(organization.customCategories).toEqual(["Fermentation"]);
+  });
+
+  it("merges the organization by id and name, keeping the library's own names", () => {
+    const backup = parseBackup(createBackup([], {
+      collections: [{ id: "c1", name: "Renamed", createdAt: "2024-06-01T00:00:00.000Z" }, { id: "c2", name: "Travel", createdAt: "2024-06-02T00:00:00.000Z" }],
+      customCategories: ["fermentation", "Knitting"]
+    }));
+
+    const merged = restoreOrganization(ORGANIZATION, backup, "merge");
+
+    expect(merged.collections.map(c => c.name)).toEqual(["Weeknights", "Travel"]);
+    expect(merged.customCategories).toEqual(["Fermentation", "Knitting"]);
+    expect(restoreOrganization(ORGANIZATION, backup, "replace")).toEqual(backup.organization);
+  });
+
+  it("merges a restored blog with the library's copy without losing either side's own data", () => {
+    const local = makeBlog({
+      lastCheckedAt: "2024-07-01T00:00:00.000Z",
+      qualityScore: 70,
+      notes: "Ask about a guest post",
+      manualTags: ["Mine"],
+      collectionIds: ["c1"]
+    });
+    const backedUp = makeBlog({
+      lastCheckedAt: "2024-06-01T00:00:00.000Z",
+      qualityScore: 50,
+      notes: "Recipes are reliable",
+      manualTags: ["Tested"],
+      isFavorite: true,
+      collectionIds: ["c2"]
+    });
+
+    const [merged] = restoreBackup([local], parseBackup(createBackup([backedUp], ORGANIZATION)), "merge");
+
+    expect(merged.qualityScore).toBe(70);
+    expect(merged.notes).toBe("Ask about a guest post\n\nRecipes are reliable");
+    expect(merged.manualTags).toEqual(["Mine", "Tested"]);
+    expect(merged.collectionIds).toEqual(["c1", "c2"]);
+    expect(merged.isFavorite).toBe(true);
+
+    // The other way round only the fetched data changes sides
+    const [fromNewerBackup] = restoreBackup([{ ...local, lastCheckedAt: "2024-05-01T00:00:00.000Z" }], parseBackup(createBackup([backedUp], ORGANIZATION)), "merge");
+    expect(fromNewerBackup.qualityScore).toBe(50);
+    expect(fromNewerBackup.manualTags).toEqual(["Mine", "Tested"]);
+
+    const [again] = restoreBackup([merged], parseBackup(createBackup([merged], ORGANIZATION)), "merge");
+    expect(again.notes).toBe(merged.notes);
+  });
+});
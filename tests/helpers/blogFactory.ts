@@ -0,0 +1,45 @@
+import { BlogMetadata, BlogStatus } from "../../types";
+
+// A library entry matching the blogger/normal fixture, for tests that start from a stored blog
+export const makeBlog = (overrides: Partial<BlogMetadata> = {}): BlogMetadata => ({
+  id: "blog-1",
+  url: "https://cooking-notes.blogspot.com",
+  feedUrl: "https://cooking-notes.blogspot.com/feeds/posts/default?alt=json",
+  platform: "blogger",
+  title: "Cooking Notes",
+  description: "Weeknight recipes from a small kitchen",
+  lastBuildDate: "2024-06-20T08:00:00.000Z",
+  category: "Food & Cooking",
+  tags: ["Baking", "Soups", "Bread", "Weeknight"],
+  postTopics: [],
+  manualTags: [],
+  status: BlogStatus.Active,
+  isFavorite: false,
+  collectionIds: [],
+  sentimentScore: 80,
+  qualityScore: 64,
+  language: "English",
+  classification: { provider: "heuristic", model: "keywords", promptVersion: 1, classifiedAt: "2024-06-20T08:00:00.000Z", isFallback: false },
+  addedAt: "2024-06-01T00:00:00.000Z",
+  lastCheckedAt: "2024-06-20T08:00:00.000Z",
+  posts: [],
+  stats: {
+    totalPosts: 40,
+    totalPages: 2,
+    totalComments: 80,
+    avgCommentsPerPost: 2,
+    avgWordsPerPost: 7,
+    avgWordsPerPage: 5,
+    avgImagesPerPost: 1,
+    avgDaysBetweenPosts: 14,
+    consistencyScore: 100,
+    followersCount: 128,
+    firstPostDate: "2019-03-01T08:00:00.000Z",
+    lastPostDate: "2024-06-20T08:00:00.000Z",
+    sampleSize: 3
+  },
+  history: [],
+  health: { consecutiveFailures: 0 },
+  knownGuids: [],
+  ...overrides
+});
@@ -0,0 +1,36 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { Fetcher } from "../../services/rssService";
+
+const FIXTURES_DIR = path.resolve(__dirname, "../fixtures");
+
+export const readFixture = (file: string): string => readFileSync(path.join(FIXTURES_DIR, file), "utf8");
+
+// Answers from recorded files by exact URL; anything unrouted gets a 404 like a missing feed would
+export const fixtureFetcher = (routes: Record<string, string>) => {
+  const requested: string[] = [];
+  const fetcher: Fetcher = async (url) => {
+    requested.push(url);
+    const file = routes[url];
+    if (!file) return new Response("Not Found", { status: 404 });
+    const contentType = file.endsWith(".json") ? "application/json" : "text/html";
+    return new Response(readFixture(file), { status: 200, headers: { "Content-Type": contentType } });
+  };
+  return { fetcher, requested };
+};
+
+export const bloggerFeedUrl = (blogUrl: string, type: "posts" | "pages", maxResults: number, startIndex = 1) =>
+  `${blogUrl}/feeds/${type}/default?alt=json&max-results=${maxResults}&start-index=${startIndex}`;
+
+// The requests a sampled Blogger scan makes, mapped onto the files of one fixture directory.
+// `oldest` is the creation-date probe, which starts at the last post.
+export const bloggerRoutes = (
+  blogUrl: string,
+  dir: string,
+  files: { homepage?: string; posts?: string; pages?: string; oldest?: { file: string; startIndex: number } }
+): Record<string, string> => ({
+  ...(files.homepage && { [blogUrl]: `${dir}/${files.homepage}` }),
+  ...(files.posts && { [bloggerFeedUrl(blogUrl, "posts", 25)]: `${dir}/${files.posts}` }),
+  ...(files.pages && { [bloggerFeedUrl(blogUrl, "pages", 10)]: `${dir}/${files.pages}` }),
+  ...(files.oldest && { [bloggerFeedUrl(blogUrl, "posts", 1, files.oldest.startIndex)]: `${dir}/${files.oldest.file}` })
+});
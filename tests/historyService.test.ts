@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { createSnapshot, getTrendSeries, summarizeTrend } from "../services/historyService";
+import { BlogStatus } from "../types";
+import { makeBlog } from "./helpers/blogFactory";
+
+const { stats } = makeBlog();
+
+const snapshot = (takenAt: string, followersCount: number) =>
+  createSnapshot({ ...stats, followersCount }, 60, BlogStatus.Active, takenAt);
+
+describe("follower trends", () => {
+  it("leaves unknown follower counts out of the series and the trend", () => {
+    const history = [
+      snapshot("2024-01-01T00:00:00.000Z", 100),
+      snapshot("2024-02-01T00:00:00.000Z", -1),
+      snapshot("2024-05-01T00:00:00.000Z", 130)
+    ];
+
+    expect(getTrendSeries(history, "followersCount").map(p => p.value)).toEqual([100, 130]);
+    expect(summarizeTrend(history, "followersCount", 90)).toEqual({ metric: "followersCount", current: 130, previous: 100, delta: 30 });
+  });
+
+  it("has no trend when the latest follower count is unknown", () => {
+    const history = [
+      snapshot("2024-01-01T00:00:00.000Z", 100),
+      snapshot("2024-05-01T00:00:00.000Z", -1)
+    ];
+
+    expect(summarizeTrend(history, "followersCount", 90)).toBeNull();
+    expect(summarizeTrend(history, "qualityScore", 90)).toMatchObject({ current: 60, delta: 0 });
+  });
+});
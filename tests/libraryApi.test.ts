@@ -0,0 +1,212 @@
+import { createServer, get, Server } from "http";
+import { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createLibraryApi, LibraryApiOptions } from "../server/libraryApi";
+import { DEFAULT_CLASSIFIER_SETTINGS } from "../services/classifierService";
+import { DEFAULT_SCORING_PROFILE } from "../services/scoringService";
+import { BlogMetadata } from "../types";
+import { makeBlog } from "./helpers/blogFactory";
+import { bloggerRoutes, fixtureFetcher } from "./helpers/fixtureFetcher";
+
+const BLOG_URL = "https://cooking-notes.blogspot.com";
+
+describe("library API", () => {
+  let server: Server;
+  let baseUrl: string;
+  let library: BlogMetadata[];
+
+  const start = (options: Partial<LibraryApiOptions> = {}) => {
+    const { fetcher } = fixtureFetcher(bloggerRoutes(BLOG_URL, "blogger/normal", {
+      homepage: "homepage.html",
+      posts: "posts.json",
+      pages: "pages.json",
+      oldest: { file: "oldest.json", startIndex: 40 }
+    }));
+    const handle = createLibraryApi({
+      store: { read: () => library, write: blogs => { library = blogs; } },
+      fetcher,
+      classifier: { ...DEFAULT_CLASSIFIER_SETTINGS, provider: "heuristic" },
+      scoringProfile: DEFAULT_SCORING_PROFILE,
+      ...options
+    });
+    server = createServer((req, res) => handle(req, res));
+    return new Promise<void>(resolve => server.listen(0, "127.0.0.1", () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+      resolve();
+    }));
+  };
+
+  const call = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, init);
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : undefined };
+  };
+
+  const post = (path: string, body: unknown = {}, headers: Record<string, string> = {}) =>
+    call(path, { method: "POST", headers: { "Content-Type": "application/json", ...headers }, body: JSON.stringify(body) });
+
+  beforeEach(() => {
+    library = [];
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it("analyzes a posted URL into the library and rejects it the second time", async () => {
+    await start();
+
+    const added = await post("/blogs", { url: "cooking-notes.blogspot.com" });
+    expect(added.status).toBe(201);
+    expect(added.body).toMatchObject({ url: BLOG_URL, title: "Cooking Notes", classification: { provider: "heuristic" } });
+    expect(added.body.posts).toHaveLength(3);
+    expect(library.map(b => b.id)).toEqual([added.body.id]);
+
+    const again = await post("/blogs", { url: `${BLOG_URL}/` });
+    expect(again).toEqual({ status: 409, body: { error: `${BLOG_URL} is already in the library.`, id: added.body.id } });
+
+    expect((await post("/blogs", {})).status).toBe(400);
+  });
+
+  it("lists blogs with the library's filters and sorting, without posts", async () => {
+    library = [
+      makeBlog({ id: "a", title: "Alpha", qualityScore: 40, posts: [] }),
+      makeBlog({ id: "b", title: "Bravo", qualityScore: 90, isFavorite: true }),
+      makeBlog({ id: "c", title: "Charlie", qualityScore: 70, tags: ["Travel"] })
+    ];
+    await start();
+
+    const all = await call("/blogs?sort=qualityScore");
+    expect(all.body.total).toBe(3);
+    expect(all.body.blogs.map((b: BlogMetadata) => b.id)).toEqual(["b", "c", "a"]);
+    expect(all.body.blogs[0]).not.toHaveProperty("posts");
+    expect(all.body.blogs[0]).not.toHaveProperty("history");
+
+    const filtered = await call("/blogs?qualityScoreMin=60&tag=baking&sort=title&order=asc");
+    expect(filtered.body.blogs.map((b: BlogMetadata) => b.id)).toEqual(["b"]);
+
+    const page = await call("/blogs?sort=title&order=asc&limit=1&offset=1");
+    expect(page.body).toMatchObject({ total: 3, offset: 1, blogs: [{ id: "b" }] });
+
+    expect((await call("/blogs?favorite=true")).body.total).toBe(1);
+    expect((await call("/blogs?sort=colour")).status).toBe(400);
+    expect((await call("/blogs?limit=ten")).status).toBe(400);
+    expect((await call("/blogs?limit=-1")).status).toBe(400);
+    expect((await call("/blogs?limit=1.5")).status).toBe(400);
+    expect((await call("/blogs?offset=-2")).status).toBe(400);
+  });
+
+  it("returns one blog with its posts and history", async () => {
+    const blog = makeBlog();
+    library = [{ ...blog, history: [{ takenAt: "2024-06-01T00:00:00.000Z", stats: blog.stats, qualityScore: 60, status: blog.status }] }];
+    await start();
+
+    const found = await call("/blogs/blog-1");
+    expect(found.status).toBe(200);
+    expect(found.body.history).toHaveLength(1);
+    expect(found.body.stats.totalPosts).toBe(40);
+    expect((await call("/blogs/missing")).status).toBe(404);
+    expect((await call("/blogs/%E0%A4%A")).status).toBe(400);
+  });
+
+  it("toggles or sets the favorite flag and deletes blogs", async () => {
+    library = [makeBlog()];
+    await start();
+
+    expect((await post("/blogs/blog-1/favorite")).body.isFavorite).toBe(true);
+    expect((await post("/blogs/blog-1/favorite")).body.isFavorite).toBe(false);
+    expect((await post("/blogs/blog-1/favorite", { isFavorite: true })).body.isFavorite).toBe(true);
+    expect(library[0].isFavorite).toBe(true);
+
+    expect((await call("/blogs/blog-1", { method: "DELETE" })).status).toBe(204);
+    expect(library).toEqual([]);
+    expect((await call("/blogs/blog-1", { method: "DELETE" })).status).toBe(404);
+  });
+
+  it("refreshes a blog and records failed refreshes", async () => {
+    library = [
+      makeBlog({ qualityScore: 10, manualTags: ["Mine"] }),
+      makeBlog({ id: "gone", url: "https://gone.blogspot.com", title: "Gone" })
+    ];
+    await start();
+
+    const refreshed = await post("/blogs/blog-1/refresh");
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body.manualTags).toEqual(["Mine"]);
+    expect(refreshed.body.history).toHaveLength(1);
+    expect(library[0].posts).toHaveLength(3);
+
+    const failed = await post("/blogs/gone/refresh");
+    expect(failed.status).toBe(502);
+    expect(library[1].health.consecutiveFailures).toBe(1);
+  });
+
+  it("lets allowed web pages read but not write, and checks the token when one is set", async () => {
+    library = [makeBlog()];
+    await start({ token: "secret", allowedOrigins: ["https://dashboard.example"] });
+
+    expect((await call("/blogs")).status).toBe(401);
+    expect((await call("/blogs", { headers: { Authorization: "Bearer secre" } })).status).toBe(401);
+    const preflight = await fetch(`${baseUrl}/blogs`, { method: "OPTIONS", headers: { Origin: "https://dashboard.example" } });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get("access-control-allow-methods")).toBe("GET");
+    const auth = { Authorization: "Bearer secret" };
+    const read = await fetch(`${baseUrl}/blogs`, { headers: { ...auth, Origin: "https://dashboard.example" } });
+    expect(read.status).toBe(200);
+    expect(read.headers.get("access-control-allow-origin")).toBe("https://dashboard.example");
+    const other = await fetch(`${baseUrl}/blogs`, { headers: { ...auth, Origin: "https://evil.example" } });
+    expect(other.headers.get("access-control-allow-origin")).toBeNull();
+
+    expect((await post("/blogs/blog-1/favorite", {}, { ...auth, Origin: "https://dashboard.example" })).status).toBe(403);
+    expect((await post("/blogs/blog-1/favorite", {}, auth)).status).toBe(200);
+  });
+
+  it("answers only requests addressed to localhost unless a token is set", async () => {
+    library = [makeBlog()];
+    await start();
+    // fetch() will not send a Host that differs from the URL, as a rebound DNS name would
+    const statusFor = (host: string, headers: Record<string, string> = {}) => new Promise<number>((resolve, reject) => {
+      get({ host: "127.0.0.1", port: (server.address() as AddressInfo).port, path: "/api/blogs", headers: { Host: host, ...headers } }, res => {
+        res.resume();
+        resolve(res.statusCode!);
+      }).on("error", reject);
+    });
+    const { port } = server.address() as AddressInfo;
+
+    expect(await statusFor(`localhost:${port}`)).toBe(200);
+    expect(await statusFor(`[::1]:${port}`)).toBe(200);
+    expect(await statusFor(`attacker.example:${port}`)).toBe(403);
+    expect(await statusFor(`127.0.0.1:${port + 1}`)).toBe(403);
+
+    await new Promise(resolve => server.close(resolve));
+    await start({ token: "secret" });
+    expect(await statusFor("blogs.lan", { Authorization: "Bearer secret" })).toBe(200);
+  });
+
+  it("sends no CORS headers unless origins are allowed", async () => {
+    library = [makeBlog()];
+    await start();
+
+    const read = await fetch(`${baseUrl}/blogs`, { headers: { Origin: "https://dashboard.example" } });
+    expect(read.status).toBe(200);
+    expect(read.headers.get("access-control-allow-origin")).toBeNull();
+    const preflight = await fetch(`${baseUrl}/blogs`, { method: "OPTIONS", headers: { Origin: "https://dashboard.example" } });
+    expect(preflight.headers.get("access-control-allow-methods")).toBeNull();
+  });
+
+  it("leaves private notes out unless they are asked for", async () => {
+    library = [makeBlog({ notes: "Ask about a guest post" })];
+    await start();
+
+    expect((await call("/blogs/blog-1")).body).not.toHaveProperty("notes");
+    expect((await call("/blogs")).body.blogs[0]).not.toHaveProperty("notes");
+    expect((await call("/blogs?q=guest")).body.total).toBe(0);
+    expect((await post("/blogs/blog-1/favorite")).body).not.toHaveProperty("notes");
+
+    expect((await call("/blogs/blog-1?notes=true")).body.notes).toBe("Ask about a guest post");
+    expect((await call("/blogs?q=guest&notes=true")).body.blogs[0].notes).toBe("Ask about a guest post");
+  });
+});
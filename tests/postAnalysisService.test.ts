@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CLASSIFIER_SETTINGS, generateJson } from "../services/classifierService";
+import { analyzePosts } from "../services/postAnalysisService";
+import { BlogPost } from "../types";
+
+vi.mock("../services/classifierService", async (importOriginal) => ({
+  ...await importOriginal<typeof import("../services/classifierService")>(),
+  generateJson: vi.fn()
+}));
+
+const SETTINGS = { ...DEFAULT_CLASSIFIER_SETTINGS, provider: "gemini" as const };
+
+const post = (n: number): BlogPost => ({
+  title: `Bread post ${n}`,
+  link: `https://cooking-notes.blogspot.com/post-${n}.html`,
+  pubDate: "2024-06-20T08:00:00.000Z",
+  guid: `post-${n}`,
+  snippet: "",
+  wordCount: 10,
+  imageCount: 0,
+  commentCount: 0,
+  tags: ["Baking"]
+});
+
+const TEXT = { "post-1": "Sourdough bread with rye flour.", "post-2": "A quick weeknight soup." };
+
+describe("analyzePosts", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(generateJson).mockReset();
+  });
+
+  it("marks keyword results after a failed model call and analyzes those posts again", async () => {
+    vi.mocked(generateJson).mockRejectedValueOnce(new Error("quota exceeded"));
+    const first = await analyzePosts([post(1)], TEXT, [], SETTINGS, 10);
+    expect(first[0].analysis).toMatchObject({ provider: "heuristic", isFallback: true });
+
+    vi.mocked(generateJson).mockResolvedValueOnce({ posts: [{ id: 1, summary: "Rye sourdough.", topics: ["Bread"], sentimentScore: 70 }] });
+    const second = await analyzePosts([post(1)], TEXT, first, SETTINGS, 10);
+    expect(second[0].analysis).toMatchObject({ provider: "gemini", summary: "Rye sourdough.", isFallback: false });
+
+    // A real result is cached
+    await analyzePosts([post(1)], TEXT, second, SETTINGS, 10);
+    expect(generateJson).toHaveBeenCalledTimes(2);
+  });
+
+  it("marks posts the model skipped as fallbacks", async () => {
+    vi.mocked(generateJson).mockResolvedValueOnce({ posts: [{ id: 1, summary: "Rye sourdough.", topics: ["Bread"], sentimentScore: 70 }] });
+    const [analyzed, skipped] = await analyzePosts([post(1), post(2)], TEXT, [], SETTINGS, 10);
+
+    expect(analyzed.analysis?.isFallback).toBe(false);
+    expect(skipped.analysis).toMatchObject({ provider: "heuristic", isFallback: true });
+  });
+});
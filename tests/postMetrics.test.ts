@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { buildStats, calculateConsistencyScore, countImages, countWords, mapPostEntry, toPlainText } from "../services/postMetrics";
+import { BlogPost } from "../types";
+
+const NOW = new Date("2024-07-01T00:00:00Z");
+
+const daysBefore = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+const post = (overrides: Partial<BlogPost>): BlogPost => ({
+  title: "Post",
+  link: "https://example.blogspot.com/post.html",
+  pubDate: NOW.toISOString(),
+  guid: "guid",
+  snippet: "",
+  wordCount: 0,
+  imageCount: 0,
+  commentCount: 0,
+  tags: [],
+  ...overrides
+});
+
+describe("content metrics", () => {
+  it("counts words in markup, ignoring tags and whitespace", () => {
+    expect(countWords("<p>One two</p>\n<p>  three<br/>four </p>")).toBe(4);
+    expect(countWords("<img src='a.jpg'/>")).toBe(0);
+    expect(countWords("")).toBe(0);
+  });
+
+  it("counts images", () => {
+    expect(countImages("<p>x</p><IMG src='a'/><img src='b'>")).toBe(2);
+    expect(countImages("")).toBe(0);
+  });
+
+  it("flattens markup to plain text", () => {
+    expect(toPlainText("<p>Hello&nbsp;there</p>\n<p>friend</p>")).toBe("Hello there friend");
+  });
+});
+
+describe("mapPostEntry", () => {
+  it("reads thr$total when present", () => {
+    const mapped = mapPostEntry({
+      id: { $t: "tag:blogger.com,1999:blog-1.post-1" },
+      published: { $t: "2024-06-01T10:00:00.000Z" },
+      title: { $t: "Hello" },
+      content: { $t: "<p>Two words</p><img src='x'/>" },
+      category: [{ term: "News" }],
+      link: [{ rel: "alternate", href: "https://a.blogspot.com/hello.html" }],
+      thr$total: { $t: "3" }
+    });
+
+    expect(mapped).toMatchObject({
+      title: "Hello",
+      link: "https://a.blogspot.com/hello.html",
+      guid: "tag:blogger.com,1999:blog-1.post-1",
+      wordCount: 2,
+      imageCount: 1,
+      commentCount: 3,
+      tags: ["News"]
+    });
+  });
+
+  it("falls back to the replies link title for comment counts", () => {
+    const mapped = mapPostEntry({
+      id: { $t: "p" },
+      link: [{ rel: "replies", type: "text/html", title: "12 Comments" }]
+    });
+
+    expect(mapped.commentCount).toBe(12);
+    expect(mapped.title).toBe("No Title");
+    expect(mapped.link).toBe("");
+  });
+});
+
+describe("calculateConsistencyScore", () => {
+  it("returns a neutral score for fewer than three posts", () => {
+    expect(calculateConsistencyScore([daysBefore(1), daysBefore(8)], NOW)).toBe(50);
+  });
+
+  it("scores a regular, recent schedule at 100", () => {
+    expect(calculateConsistencyScore([daysBefore(1), daysBefore(8), daysBefore(15), daysBefore(22)], NOW)).toBe(100);
+  });
+
+  it("penalizes irregular gaps", () => {
+    const score = calculateConsistencyScore([daysBefore(1), daysBefore(2), daysBefore(30), daysBefore(31)], NOW);
+    expect(score).toBeLessThan(100);
+    expect(score).toBeGreaterThan(0);
+  });
+
+  it("penalizes blogs that went quiet", () => {
+    const regular = [0, 7, 14, 21];
+    expect(calculateConsistencyScore(regular.map(d => daysBefore(d + 100)), NOW)).toBe(80);
+    expect(calculateConsistencyScore(regular.map(d => daysBefore(d + 400)), NOW)).toBe(40);
+  });
+});
+
+describe("buildStats", () => {
+  it("extrapolates comments only when the posts are a sample", () => {
+    const posts = [post({ commentCount: 3 }), post({ commentCount: 1 })];
+    const input = { posts, totalPages: 0, avgWordsPerPage: 0, creationDateStr: null, followersCount: -1 };
+
+    expect(buildStats({ ...input, totalPosts: 2 }, NOW).totalComments).toBe(4);
+    expect(buildStats({ ...input, totalPosts: 10 }, NOW).totalComments).toBe(20);
+  });
+
+  it("prefers the probed creation date over the oldest sampled post", () => {
+    const posts = [post({ pubDate: daysBefore(1).toISOString() }), post({ pubDate: daysBefore(11).toISOString() })];
+    const base = { posts, totalPosts: 50, totalPages: 0, avgWordsPerPage: 0, followersCount: 0 };
+
+    expect(buildStats({ ...base, creationDateStr: "2015-01-01T00:00:00.000Z" }, NOW).firstPostDate).toBe("2015-01-01T00:00:00.000Z");
+    expect(buildStats({ ...base, creationDateStr: null }, NOW).firstPostDate).toBe(daysBefore(11).toISOString());
+    expect(buildStats({ ...base, creationDateStr: null }, NOW).avgDaysBetweenPosts).toBe(10);
+  });
+});
@@ -0,0 +1,159 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import {
+  buildAtomFeed,
+  buildDirectoryPage,
+  buildRssFeed,
+  collectFeedItems,
+  DEFAULT_PUBLISH_SETTINGS,
+  PublishSettings,
+  selectPublishedBlogs
+} from "../services/publishService";
+import { DEFAULT_FILTER, SavedSearch } from "../services/searchService";
+import { BlogPost } from "../types";
+import { makeBlog } from "./helpers/blogFactory";
+
+const post = (blogSlug: string, day: number, overrides: Partial<BlogPost> = {}): BlogPost => ({
+  title: `${blogSlug} post ${day}`,
+  link: `https://${blogSlug}.blogspot.com/2024/06/post-${day}.html`,
+  pubDate: `2024-06-${String(day).padStart(2, "0")}T08:00:00.000Z`,
+  guid: `tag:blogger.com,1999:blog-${blogSlug}.post-${day}`,
+  snippet: `Snippet of ${blogSlug} post ${day}...`,
+  wordCount: 100,
+  imageCount: 0,
+  commentCount: 0,
+  tags: [],
+  ...overrides
+});
+
+const library = [
+  makeBlog({ id: "soup", title: "Soup & Bread", qualityScore: 60, isFavorite: true, posts: [post("soup", 1), post("soup", 5), post("soup", 9)] }),
+  makeBlog({ id: "trail", title: "Trail Notes", category: "Travel", qualityScore: 85, collectionIds: ["hikes"], posts: [post("trail", 7, { tags: ["Alps"] })] }),
+  makeBlog({ id: "quiet", title: "Quiet Blog", qualityScore: 20, posts: [] })
+];
+
+const settings: PublishSettings = { ...DEFAULT_PUBLISH_SETTINGS, title: "Best <of>", siteUrl: "https://example.com/best-of/", postsPerBlog: 2, maxItems: 10 };
+
+const parseXml = (xml: string) => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  expect(doc.querySelector("parsererror")).toBeNull();
+  return doc;
+};
+
+describe("selectPublishedBlogs", () => {
+  it("picks the library, favorites or a collection, best score first", () => {
+    expect(selectPublishedBlogs(library, "all").map(b => b.id)).toEqual(["trail", "soup", "quiet"]);
+    expect(selectPublishedBlogs(library, "favorites").map(b => b.id)).toEqual(["soup"]);
+    expect(selectPublishedBlogs(library, "collection:hikes").map(b => b.id)).toEqual(["trail"]);
+    expect(selectPublishedBlogs(library, "collection:missing")).toEqual([]);
+  });
+
+  it("applies a saved search with its own sort", () => {
+    const search: SavedSearch = {
+      id: "s1",
+      name: "Decent",
+      filter: { ...DEFAULT_FILTER, ranges: { qualityScore: { min: 50 } } },
+      sort: { field: "title", descending: false }
+    };
+    expect(selectPublishedBlogs(library, "search:s1", [search]).map(b => b.id)).toEqual(["soup", "trail"]);
+    expect(selectPublishedBlogs(library, "search:gone", [search])).toEqual([]);
+  });
+});
+
+describe("collectFeedItems", () => {
+  it("takes the newest posts of each blog, newest first overall", () => {
+    const items = collectFeedItems(library, 2, 10);
+    expect(items.map(i => i.post.title)).toEqual(["soup post 9", "trail post 7", "soup post 5"]);
+    expect(collectFeedItems(library, 2, 1)).toHaveLength(1);
+  });
+
+  it("skips posts without a link or a valid date", () => {
+    const blog = makeBlog({ posts: [post("soup", 1, { link: "" }), post("soup", 2, { pubDate: "soon" }), post("soup", 3)] });
+    expect(collectFeedItems([blog], 5, 5).map(i => i.post.title)).toEqual(["soup post 3"]);
+  });
+});
+
+describe("feeds", () => {
+  it("builds a valid Atom feed crediting each post's blog", () => {
+    const doc = parseXml(buildAtomFeed(library, settings));
+
+    expect(doc.querySelector("feed > title")?.textContent).toBe("Best <of>");
+    expect(doc.querySelector("feed > id")?.textContent).toBe("https://example.com/best-of/");
+    expect(doc.querySelector("feed > updated")?.textContent).toBe("2024-06-09T08:00:00.000Z");
+
+    const entries = Array.from(doc.querySelectorAll("entry"));
+    expect(entries).toHaveLength(3);
+    expect(entries[1].querySelector("author > name")?.textContent).toBe("Trail Notes");
+    expect(entries[1].querySelector("category")?.getAttribute("term")).toBe("Alps");
+    expect(entries[0].querySelector("source > title")?.textContent).toBe("Soup & Bread");
+    expect(entries[0].querySelector("link")?.getAttribute("href")).toBe("https://soup.blogspot.com/2024/06/post-9.html");
+  });
+
+  it("gives an Atom feed without a site address a stable id", () => {
+    const doc = parseXml(buildAtomFeed(library, { ...settings, siteUrl: "" }));
+    expect(doc.querySelector("feed > id")?.textContent).toBe("urn:blogspotter:best-of");
+  });
+
+  it("builds a valid RSS feed, preferring post summaries over snippets", () => {
+    const analyzed = makeBlog({
+      posts: [post("soup", 4, { analysis: { summary: "A short summary.", topics: [], sentimentScore: 50, contentHash: "x", provider: "heuristic", model: "keywords", analyzedAt: "" } })]
+    });
+    const doc = parseXml(buildRssFeed([analyzed, ...library], settings));
+
+    const items = Array.from(doc.querySelectorAll("item"));
+    expect(items).toHaveLength(4);
+    expect(doc.querySelector("channel > link")?.textContent).toBe("https://example.com/best-of/");
+    const summarized = items.find(i => i.querySelector("title")?.textContent === "soup post 4")!;
+    expect(summarized.querySelector("description")?.textContent).toBe("A short summary.");
+    expect(summarized.querySelector("pubDate")?.textContent).toBe("Tue, 04 Jun 2024 08:00:00 GMT");
+    expect(items[0].querySelector("source")?.getAttribute("url")).toBe(library[0].feedUrl);
+  });
+});
+
+describe("buildDirectoryPage", () => {
+  it("groups blogs by category with escaped titles, scores and links", () => {
+    const html = buildDirectoryPage(library, settings, new Date("2024-07-01T00:00:00Z"));
+    const doc = new DOMParser().parseFromString(html, "text/html");
+
+    expect(doc.title).toBe("Best <of>");
+    const sections = Array.from(doc.querySelectorAll("section"));
+    expect(sections.map(s => s.querySelector("h2")?.textContent)).toEqual(["Food & Cooking", "Travel"]);
+    expect(Array.from(sections[0].querySelectorAll("h3 a")).map(a => a.textContent)).toEqual(["Soup & Bread", "Quiet Blog"]);
+    expect(sections[1].querySelector(".score")?.textContent).toBe("85/100");
+    expect(doc.querySelector("nav a")?.getAttribute("href")).toBe("#category-food-cooking");
+    expect(doc.querySelector("footer")?.textContent).toContain("3 blogs · generated 2024-07-01");
+  });
+});
+
+describe("untrusted links", () => {
+  const hostile = makeBlog({
+    id: "hostile",
+    title: "Hostile",
+    url: "javascript:alert(1)",
+    feedUrl: "data:text/html,<script>alert(1)</script>",
+    posts: [post("hostile", 2, { link: " javascript:alert(2)" }), post("hostile", 3)]
+  });
+
+  it("links only to http(s) addresses in the directory page", () => {
+    const html = buildDirectoryPage([hostile], settings);
+    const doc = new DOMParser().parseFromString(html, "text/html");
+
+    const hrefs = Array.from(doc.querySelectorAll("article a")).map(a => a.getAttribute("href"));
+    expect(hrefs).toEqual(["https://hostile.blogspot.com/2024/06/post-3.html"]);
+    expect(doc.querySelector("h3")?.textContent).toBe("Hostile");
+    expect(html).not.toContain("javascript:");
+  });
+
+  it("leaves other schemes out of the feeds", () => {
+    const atom = parseXml(buildAtomFeed([hostile], { ...settings, siteUrl: "javascript:alert(3)" }));
+    expect(atom.querySelectorAll("entry")).toHaveLength(1);
+    expect(atom.querySelector("author > uri")).toBeNull();
+    expect(atom.querySelector("source > link")).toBeNull();
+    expect(atom.querySelector("feed > link")).toBeNull();
+
+    const rss = parseXml(buildRssFeed([hostile], { ...settings, siteUrl: "" }));
+    expect(rss.querySelector("channel > link")?.textContent).toBe("");
+    expect(rss.querySelector("item > link")?.textContent).toBe("https://hostile.blogspot.com/2024/06/post-3.html");
+    expect(rss.querySelector("source")).toBeNull();
+  });
+});
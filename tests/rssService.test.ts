@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { analyzeBlogAndFetch } from "../services/rssService";
+import { BlogStatus } from "../types";
+import { bloggerFeedUrl, bloggerRoutes, fixtureFetcher } from "./helpers/fixtureFetcher";
+
+describe("analyzeBlogAndFetch on recorded Blogger feeds", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-07-01T00:00:00Z"));
+    // Optional fetches that miss (pages, creation-date probe) log a warning by design
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("analyzes a normal blog with comments, pages and a follower widget", async () => {
+    const blogUrl = "https://cooking-notes.blogspot.com";
+    const { fetcher } = fixtureFetcher(bloggerRoutes(blogUrl, "blogger/normal", {
+      homepage: "homepage.html",
+      posts: "posts.json",
+      pages: "pages.json",
+      oldest: { file: "oldest.json", startIndex: 40 }
+    }));
+
+    const result = await analyzeBlogAndFetch("cooking-notes.blogspot.com/", { fetcher });
+
+    expect(result.url).toBe(blogUrl);
+    expect(result.canonicalId).toBe("blogger:1234567890");
+    expect(result.title).toBe("Cooking Notes");
+    expect(result.description).toBe("Weeknight recipes from a small kitchen");
+    expect(result.platform).toBe("blogger");
+    expect(result.status).toBe(BlogStatus.Active);
+    expect(result.tags).toEqual(["Baking", "Soups"]);
+
+    expect(result.stats).toMatchObject({
+      totalPosts: 40,
+      totalPages: 2,
+      // 6 comments over a 3-post sample, extrapolated to all 40 posts
+      totalComments: 80,
+      avgCommentsPerPost: 2,
+      avgImagesPerPost: 1,
+      avgWordsPerPage: 5,
+      avgDaysBetweenPosts: 14,
+      consistencyScore: 100,
+      followersCount: 128,
+      firstPostDate: "2019-03-01T08:00:00.000Z",
+      lastPostDate: "2024-06-20T08:00:00.000Z",
+      sampleSize: 3
+    });
+
+    expect(result.posts!.map(p => p.commentCount)).toEqual([4, 0, 2]);
+    expect(result.postText["tag:blogger.com,1999:blog-1234567890.post-222"]).toBe("Peas, mint, stock and nothing else.");
+    expect(result.signals?.followers).toMatchObject({ value: 128, confidence: "high" });
+    expect(result.signals?.commentSystem.value).toBe("blogger");
+  });
+
+  it("counts zero comments when a blog has them switched off", async () => {
+    const blogUrl = "https://quiet-garden.blogspot.com";
+    const { fetcher, requested } = fixtureFetcher(bloggerRoutes(blogUrl, "blogger/no-comments", {
+      homepage: "homepage.html",
+      posts: "posts.json"
+    }));
+
+    const result = await analyzeBlogAndFetch(blogUrl, { fetcher });
+
+    expect(result.posts!.map(p => p.commentCount)).toEqual([0, 0]);
+    expect(result.stats).toMatchObject({ totalComments: 0, avgCommentsPerPost: 0, totalPages: 0, followersCount: -1 });
+    // The creation-date probe missed, so the oldest sampled post stands in
+    expect(requested).toContain(bloggerFeedUrl(blogUrl, "posts", 1, 2));
+    expect(result.stats!.firstPostDate).toBe("2023-10-02T08:00:00.000Z");
+    // Summary-only entries still count words
+    expect(result.posts![1].wordCount).toBe(6);
+    expect(result.status).toBe(BlogStatus.Active);
+  });
+
+  it("keeps the custom domain and records the Blogger id", async () => {
+    const blogUrl = "https://www.travelwithmara.com";
+    const { fetcher } = fixtureFetcher(bloggerRoutes(blogUrl, "blogger/custom-domain", {
+      homepage: "homepage.html",
+      posts: "posts.json"
+    }));
+
+    const result = await analyzeBlogAndFetch("www.travelwithmara.com", { fetcher });
+
+    // The feed's own alternate link wins over the address we were given, but never downgrades https
+    expect(result.url).toBe("https://www.travelwithmara.com");
+    expect(result.canonicalId).toBe("blogger:5550001");
+    expect(result.platform).toBe("blogger");
+    expect(result.stats).toMatchObject({ totalPosts: 1, totalComments: 7, consistencyScore: 50 });
+    // A widget showing zero is a real zero, not unknown
+    expect(result.stats!.followersCount).toBe(0);
+    expect(result.signals?.commentSystem.value).toBe("disqus");
+    expect(result.signals?.popularPosts?.value).toEqual([
+      { title: "Three days in Lisbon", url: "http://www.travelwithmara.com/2024/02/lisbon.html" }
+    ]);
+  });
+
+  it("fails with a clear message when the feed answers with an HTML error page", async () => {
+    const blogUrl = "https://broken-blog.blogspot.com";
+    const { fetcher } = fixtureFetcher({
+      [blogUrl]: "blogger/html-error/homepage.html",
+      [bloggerFeedUrl(blogUrl, "posts", 25)]: "blogger/html-error/posts.html"
+    });
+
+    await expect(analyzeBlogAndFetch(blogUrl, { fetcher })).rejects.toThrow("Received HTML instead of JSON");
+  });
+
+  it("handles a blog with no posts yet", async () => {
+    const blogUrl = "https://brand-new-blog.blogspot.com";
+    const { fetcher, requested } = fixtureFetcher(bloggerRoutes(blogUrl, "blogger/empty", {
+      homepage: "homepage.html",
+      posts: "posts.json",
+      pages: "pages.json"
+    }));
+
+    const result = await analyzeBlogAndFetch(blogUrl, { fetcher });
+
+    expect(result.posts).toEqual([]);
+    expect(result.fetchedPosts).toEqual([]);
+    expect(result.stats).toMatchObject({
+      totalPosts: 0,
+      totalPages: 0,
+      totalComments: 0,
+      avgWordsPerPost: 0,
+      sampleSize: 0,
+      lastPostDate: "2024-07-01T00:00:00.000Z"
+    });
+    // No creation-date probe without posts
+    expect(requested).toHaveLength(3);
+  });
+
+  it("reports an unreachable blog as a network error", async () => {
+    const fetcher = vi.fn(async () => { throw new TypeError("Failed to fetch"); });
+
+    await expect(analyzeBlogAndFetch("https://offline.blogspot.com", { fetcher })).rejects.toThrow("Network Error");
+  });
+});
+
+describe("analyzeBlogAndFetch on other feeds", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-07-01T00:00:00Z"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps a feed whose items include an unreadable date", async () => {
+    const blogUrl = "https://garden-diary.example";
+    const { fetcher } = fixtureFetcher({
+      [blogUrl]: "jsonfeed/bad-date/homepage.html",
+      [`${blogUrl}/feed.json`]: "jsonfeed/bad-date/feed.json"
+    });
+
+    const result = await analyzeBlogAndFetch(blogUrl, { fetcher });
+
+    expect(result.posts.map(p => [p.title, p.pubDate])).toEqual([
+      // Treated like an item without a date
+      ["Seedlings", "2024-07-01T00:00:00.000Z"],
+      ["Tomatoes", "2024-06-20T08:00:00.000Z"],
+      ["Compost", "2024-05-02T08:00:00.000Z"]
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { BUILT_IN_PROFILES, DEFAULT_SCORING_PROFILE, rescoreLibrary, scoreBlog, ScoringProfile } from "../services/scoringService";
+import { BlogStats, BlogStatus } from "../types";
+import { makeBlog } from "./helpers/blogFactory";
+
+const NOW = new Date("2024-07-01T00:00:00Z");
+
+const stats = (overrides: Partial<BlogStats> = {}): BlogStats => ({
+  totalPosts: 0,
+  totalPages: 0,
+  totalComments: 0,
+  avgCommentsPerPost: 0,
+  avgWordsPerPost: 0,
+  avgWordsPerPage: 0,
+  avgImagesPerPost: 0,
+  avgDaysBetweenPosts: 0,
+  consistencyScore: 0,
+  followersCount: -1,
+  firstPostDate: NOW.toISOString(),
+  lastPostDate: NOW.toISOString(),
+  sampleSize: 0,
+  ...overrides
+});
+
+// Every input at or beyond the default caps
+const MAXED = stats({
+  totalPosts: 500,
+  totalPages: 10,
+  avgCommentsPerPost: 25,
+  avgWordsPerPost: 2000,
+  avgImagesPerPost: 5,
+  consistencyScore: 100,
+  followersCount: 50000,
+  firstPostDate: "2010-01-01T00:00:00.000Z"
+});
+
+const component = (breakdown: ReturnType<typeof scoreBlog>, key: string) => breakdown.components.find(c => c.key === key)!;
+
+describe("scoreBlog", () => {
+  it("scores an empty blog at zero and a blog past every cap at 100", () => {
+    expect(scoreBlog(stats(), DEFAULT_SCORING_PROFILE, NOW).total).toBe(0);
+    BUILT_IN_PROFILES.forEach(profile => {
+      expect(scoreBlog(MAXED, profile, NOW).total).toBe(100);
+    });
+  });
+
+  it("moves the followers weight to comments when followers are unknown", () => {
+    const breakdown = scoreBlog(stats({ followersCount: -1 }), DEFAULT_SCORING_PROFILE, NOW);
+
+    expect(component(breakdown, "followers").weight).toBe(0);
+    expect(component(breakdown, "comments").weight).toBe(30);
+  });
+
+  it("keeps the followers weight when a widget shows zero", () => {
+    const breakdown = scoreBlog(stats({ followersCount: 0 }), DEFAULT_SCORING_PROFILE, NOW);
+
+    expect(component(breakdown, "followers").weight).toBe(10);
+    expect(component(breakdown, "followers").normalized).toBe(0);
+    expect(component(breakdown, "comments").weight).toBe(20);
+  });
+
+  it("scores followers on a log scale", () => {
+    const at = (followersCount: number) => component(scoreBlog(stats({ followersCount }), DEFAULT_SCORING_PROFILE, NOW), "followers").normalized;
+
+    expect(at(10)).toBe(25);
+    expect(at(100)).toBe(50);
+    expect(at(10000)).toBe(100);
+  });
+
+  it("normalizes weights that do not add up to 100", () => {
+    const profile: ScoringProfile = {
+      ...DEFAULT_SCORING_PROFILE,
+      id: "words-only",
+      weights: { words: 1, images: 0, volume: 0, consistency: 1, comments: 0, followers: 0, longevity: 0, pages: 0 }
+    };
+    const breakdown = scoreBlog(stats({ avgWordsPerPost: 400, consistencyScore: 100 }), profile, NOW);
+
+    expect(component(breakdown, "words").weight).toBe(50);
+    expect(breakdown.total).toBe(75);
+  });
+
+  it("sums component contributions to the total", () => {
+    const breakdown = scoreBlog(stats({ avgWordsPerPost: 300, totalPosts: 40, consistencyScore: 70, avgCommentsPerPost: 2 }), DEFAULT_SCORING_PROFILE, NOW);
+    const sum = breakdown.components.reduce((acc, c) => acc + c.contribution, 0);
+
+    expect(Math.abs(sum - breakdown.total)).toBeLessThanOrEqual(1);
+  });
+});
+
+describe("rescoreLibrary", () => {
+  it("rescores history snapshots as of the day they were taken", () => {
+    const wordy = stats({ avgWordsPerPost: 1500, firstPostDate: "2020-07-01T00:00:00.000Z" });
+    const longForm = BUILT_IN_PROFILES.find(p => p.id === "long-form")!;
+    const blog = makeBlog({
+      stats: wordy,
+      qualityScore: scoreBlog(wordy, DEFAULT_SCORING_PROFILE).total,
+      history: [{ takenAt: "2022-07-01T00:00:00.000Z", stats: wordy, qualityScore: 1, status: BlogStatus.Active }]
+    });
+
+    const [rescored] = rescoreLibrary([blog], longForm);
+
+    expect(rescored.qualityScore).toBe(scoreBlog(wordy, longForm).total);
+    expect(rescored.history[0].qualityScore).toBe(scoreBlog(wordy, longForm, new Date("2022-07-01T00:00:00.000Z")).total);
+    expect(rescoreLibrary([rescored], longForm)[0]).toBe(rescored);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { followersCountOf, scrapePageSignals } from "../services/scrapeService";
+
+const page = (q: string) => `
+<div class=${q}widget Followers${q} id=${q}Followers1${q}>
+<div class=${q}widget-content${q}><span class=${q}item-count${q}>1.2k</span></div>
+</div>
+<div class=${q}widget PopularPosts${q} id=${q}PopularPosts1${q}>
+<div class=${q}item-title${q}><a href=${q}https://example.blogspot.com/2024/01/bread.html${q}>Sourdough &amp; Rye</a></div>
+</div>
+<div class=${q}widget BlogArchive${q} id=${q}BlogArchive1${q}>
+<a class=${q}post-count-link${q} href=${q}https://example.blogspot.com/2024/${q}>2024</a>
+<span class=${q}post-count${q} dir=${q}ltr${q}>(12)</span>
+</div>
+<div id=${q}disqus_thread${q}></div>
+`;
+
+describe("scrapePageSignals", () => {
+  it.each([["single", "'"], ["double", '"']])("reads widgets with %s-quoted attributes", (_, q) => {
+    const signals = scrapePageSignals(page(q));
+
+    expect(signals.followers).toMatchObject({ value: 1200, source: "Blogger Followers widget", confidence: "high" });
+    expect(signals.popularPosts?.value).toEqual([{ url: "https://example.blogspot.com/2024/01/bread.html", title: "Sourdough & Rye" }]);
+    expect(signals.archiveCounts?.value).toEqual([{ label: "2024", count: 12 }]);
+    expect(signals.commentSystem.value).toBe("disqus");
+  });
+
+  it("reports followers as unknown rather than zero when no widget is found", () => {
+    const signals = scrapePageSignals("<p>No widgets here</p>");
+    expect(signals.followers).toBeUndefined();
+    expect(followersCountOf(signals)).toBe(-1);
+    expect(followersCountOf(scrapePageSignals(""))).toBe(-1);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FILTER, matchesFilter, sortBlogs } from "../services/searchService";
+import { makeBlog } from "./helpers/blogFactory";
+
+const withFollowers = (id: string, followersCount: number) => {
+  const blog = makeBlog({ id });
+  return { ...blog, stats: { ...blog.stats, followersCount } };
+};
+
+describe("unknown follower counts", () => {
+  const blogs = [withFollowers("unknown", -1), withFollowers("few", 10), withFollowers("many", 5000)];
+
+  it("never match a followers range", () => {
+    const matching = (min?: number, max?: number) =>
+      blogs.filter(b => matchesFilter(b, { ...DEFAULT_FILTER, ranges: { followersCount: { min, max } } })).map(b => b.id);
+
+    expect(matching(undefined, 100)).toEqual(["few"]);
+    expect(matching(0)).toEqual(["few", "many"]);
+    expect(matching()).toEqual(["unknown", "few", "many"]);
+  });
+
+  it("sort last in both directions", () => {
+    const ids = (descending: boolean) => sortBlogs(blogs, { field: "followersCount", descending }).map(b => b.id);
+
+    expect(ids(true)).toEqual(["many", "few", "unknown"]);
+    expect(ids(false)).toEqual(["few", "many", "unknown"]);
+  });
+});
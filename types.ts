@@ -4,6 +4,8 @@ export enum BlogStatus {
   Unreachable = 'Unreachable'
 }
 
+export type BlogPlatform = 'blogger' | 'wordpress' | 'ghost' | 'substack' | 'medium' | 'generic';
+
 export interface BlogPost {
   title: string;
   link: string;
@@ -14,6 +16,20 @@ export interface BlogPost {
   imageCount: number;
   commentCount: number;
   tags: string[];
+  analysis?: PostAnalysis; // Only when per-post analysis has run
+}
+
+export interface PostAnalysis {
+  summary: string;
+  topics: string[];
+  sentimentScore: number; // 0 to 100
+  // Hash of the text that was analyzed, so unchanged posts are never re-sent
+  contentHash: string;
+  provider: ClassifierProvider;
+  model: string;
+  analyzedAt: string;
+  // Keyword results standing in for a failed or skipped model reply; analyzed again next time
+  isFallback?: boolean;
 }
 
 export interface BlogStats {
@@ -26,34 +42,118 @@ export interface BlogStats {
   avgImagesPerPost: number;
   avgDaysBetweenPosts: number;
   consistencyScore: number; // 0-100 (Higher is more consistent)
-  followersCount: number; // -1 if unknown
+  followersCount: number; // -1 if unknown; 0 only when a widget actually shows zero
   firstPostDate: string; // Estimated or retrieved
   lastPostDate: string;
+  sampleSize?: number; // Posts the averages were computed from (equals totalPosts after a deep scan)
+}
+
+// How much a scraped value can be trusted: a dedicated widget is high, loose page text is low
+export type ScrapeConfidence = 'high' | 'medium' | 'low';
+
+// A value read from the homepage, with the pattern that produced it
+export interface ScrapedValue<T> {
+  value: T;
+  source: string; // e.g. "Blogger Followers widget"
+  confidence: ScrapeConfidence;
+}
+
+export type CommentSystem = 'blogger' | 'disqus' | 'wordpress' | 'facebook' | 'utterances' | 'giscus' | 'none' | 'unknown';
+
+// Everything scraped from the homepage on the last fetch. Missing values were not found,
+// which is different from a widget reporting zero.
+export interface PageSignals {
+  followers?: ScrapedValue<number>;
+  profileUrl?: ScrapedValue<string>;
+  // Blog Archive widget entries, e.g. { label: "2023", count: 41 }
+  archiveCounts?: ScrapedValue<{ label: string; count: number }[]>;
+  popularPosts?: ScrapedValue<{ title: string; url: string }[]>;
+  socialProfiles: { network: string; url: string }[];
+  commentSystem: ScrapedValue<CommentSystem>;
+  scrapedAt: string;
+}
+
+// Outcome of recent refresh attempts, used to detect broken blogs
+export interface FetchHealth {
+  consecutiveFailures: number;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastSuccessAt?: string;
+}
+
+// A dated capture of a blog's metrics, appended on every analysis run
+export interface BlogSnapshot {
+  takenAt: string;
+  stats: BlogStats;
+  qualityScore: number;
+  status: BlogStatus;
 }
 
 export interface BlogMetadata {
   id: string;
   url: string;
+  // Platform identity that survives domain changes, e.g. "blogger:1234567890"; set on fetch when the feed has one
+  canonicalId?: string;
   feedUrl: string;
+  platform?: BlogPlatform; // Missing on entries added before multi-platform support (all Blogger)
   title: string;
   description: string;
   lastBuildDate: string;
   category: string;
-  tags: string[];
+  tags: string[]; // Automatic: feed labels and classifier tags
+  postTopics: string[]; // Topics shared by several analyzed posts; replaced on every refresh
+  manualTags: string[]; // Added by the user; refreshes and re-classification never touch them
   status: BlogStatus;
   isFavorite: boolean;
+  collectionIds: string[];
+  notes?: string; // Private; never exported to the CSV
+  deepScan?: boolean; // Refreshes walk the full archive instead of sampling
   
   // Scores
   sentimentScore: number; // 0 to 100 (from Gemini)
   qualityScore: number; // 0 to 100 (Algorithmic)
   
   language: string;
+  summary?: string; // One-sentence Gemini summary; missing on entries added before it was stored
+  classification: ClassificationProvenance;
   addedAt: string;
   lastCheckedAt: string;
   
   // Content
   posts: BlogPost[];
   stats: BlogStats;
+
+  // History (oldest first)
+  history: BlogSnapshot[];
+  health: FetchHealth;
+
+  // GUIDs of posts already seen, newest first; empty until the first fetch seeds it
+  knownGuids: string[];
+
+  // Homepage widgets and links from the last fetch; missing until the next refresh on older entries
+  signals?: PageSignals;
+}
+
+// A post that appeared since the previous check of its blog
+export interface InboxEntry {
+  id: string; // `${blogId}:${guid}`
+  blogId: string;
+  post: BlogPost;
+  discoveredAt: string;
+  isRead: boolean;
+}
+
+export type ClassifierProvider = 'gemini' | 'openai' | 'heuristic';
+
+// Which model and prompt produced a blog's category, tags, sentiment and summary
+export interface ClassificationProvenance {
+  provider: ClassifierProvider;
+  model: string;
+  promptVersion: number; // 0 for entries classified before provenance was recorded
+  classifiedAt: string;
+  // True when the classifier could not run and placeholder values were stored
+  isFallback: boolean;
+  error?: string;
 }
 
 export interface ClassificationResult {
@@ -62,6 +162,7 @@ export interface ClassificationResult {
   sentimentScore: number;
   language: string;
   summary: string;
+  provenance: ClassificationProvenance;
 }
 
-export type ViewState = 'dashboard' | 'directory' | 'favorites' | 'add';
\ No newline at end of file
+export type ViewState = 'dashboard' | 'directory' | 'favorites' | 'inbox' | 'posts' | 'add' | 'data' | 'blog' | 'compare' | 'settings';
\ No newline at end of file
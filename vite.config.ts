@@ -1,23 +1,49 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { fetchRelayPlugin } from './server/fetchRelay';
+
+const splitList = (value?: string) => (value || '').split(',').map(v => v.trim()).filter(Boolean);
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // The relay fetches on the caller's behalf; pass --host to expose it on the network
+        host: 'localhost',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        fetchRelayPlugin({
+          allowedHosts: splitList(env.RELAY_ALLOWED_HOSTS),
+          ...(env.RELAY_MIN_INTERVAL_MS && { minIntervalMs: Number(env.RELAY_MIN_INTERVAL_MS) }),
+          ...(env.RELAY_CACHE_TTL_MS && { cacheTtlMs: Number(env.RELAY_CACHE_TTL_MS) })
+        })
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Set FETCH_RELAY_URL to an empty string to disable the relay (e.g. for static hosting)
+        'process.env.FETCH_RELAY_URL': JSON.stringify(env.FETCH_RELAY_URL ?? '/relay?url='),
+        'process.env.USE_PUBLIC_PROXIES': JSON.stringify(env.USE_PUBLIC_PROXIES || 'false'),
+        'process.env.PUBLIC_PROXIES': JSON.stringify(env.PUBLIC_PROXIES || ''),
+        // Defaults for the OpenAI-compatible classifier; all can be changed in Settings.
+        // Like the Gemini key above, the API key ends up in the client bundle for anyone to read.
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL || ''),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL || ''),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY || '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      // Component tests opt into jsdom with a `@vitest-environment jsdom` comment
+      test: {
+        include: ['tests/**/*.test.{ts,tsx}'],
+        environment: 'node'
       }
     };
 });